@@ -0,0 +1,31 @@
+/**
+ * Example: x402-stacks Self-Hosted Facilitator
+ * Runs the reference facilitator so servers can settle payments without a third party
+ */
+
+import 'dotenv/config';
+import { createFacilitatorServer, STACKS_NETWORKS, NetworkV2 } from '../src';
+
+const NETWORK = (process.env.NETWORK as 'mainnet' | 'testnet') || 'testnet';
+const PORT = process.env.FACILITATOR_PORT || 8085;
+
+const networks: NetworkV2[] = NETWORK === 'mainnet'
+  ? [STACKS_NETWORKS.MAINNET]
+  : [STACKS_NETWORKS.TESTNET];
+
+const app = createFacilitatorServer({
+  networks,
+  // Optional: point at your own Stacks node
+  // chainBackend: new StacksApiChainBackend({ apiUrls: { 'stacks:2147483648': 'http://localhost:3999' } }),
+});
+
+app.listen(PORT, () => {
+  console.log(`x402-stacks facilitator running on port ${PORT}`);
+  console.log(`Networks: ${networks.join(', ')}`);
+  console.log('\nAvailable endpoints:');
+  console.log('  GET  /supported - Supported payment kinds');
+  console.log('  POST /verify    - Verify a payment payload');
+  console.log('  POST /settle    - Broadcast and confirm a payment');
+});
+
+export default app;
@@ -0,0 +1,121 @@
+import { AccessTokenClaims, issueAccessToken, redeemAccessToken, verifyAccessToken } from '../access-token';
+import { createPaymentProcessor } from '../payment-processor';
+import { MemoryRateLimitStore } from '../rate-limit-store';
+import { STACKS_NETWORKS } from '../types-v2';
+import { PAY_TO, payer, stxRequirements } from './helpers';
+
+const SECRET = 'test-secret';
+
+/**
+ * Claims for a token valid for a minute
+ */
+function tokenClaims(overrides: Partial<AccessTokenClaims> = {}): AccessTokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    sub: payer.address,
+    scope: 'weather',
+    net: STACKS_NETWORKS.TESTNET,
+    jti: 'ab'.repeat(32),
+    iat: now,
+    exp: now + 60,
+    ...overrides,
+  };
+}
+
+describe('verifyAccessToken', () => {
+  it('rejects tampered, expired and out-of-scope tokens', () => {
+    const token = issueAccessToken(tokenClaims(), SECRET);
+
+    expect(verifyAccessToken(token, SECRET, 'weather')).toMatchObject({ sub: payer.address });
+    expect(verifyAccessToken(token, 'other-secret')).toBeNull();
+    expect(verifyAccessToken(token, SECRET, 'other-scope')).toBeNull();
+    expect(verifyAccessToken(issueAccessToken(tokenClaims({ exp: 1 }), SECRET), SECRET)).toBeNull();
+  });
+});
+
+describe('redeemAccessToken', () => {
+  it('stops redeeming a token once its request limit is used up', async () => {
+    const store = new MemoryRateLimitStore();
+    const claims = tokenClaims({ max: 2 });
+
+    expect(await redeemAccessToken(claims, store)).toBe(true);
+    expect(await redeemAccessToken(claims, store)).toBe(true);
+    expect(await redeemAccessToken(claims, store)).toBe(false);
+    expect(await redeemAccessToken(tokenClaims({ max: 2, jti: 'cd'.repeat(32) }), store)).toBe(true);
+  });
+
+  it('does not count unlimited tokens', async () => {
+    const store = new MemoryRateLimitStore();
+    const increment = jest.spyOn(store, 'increment');
+
+    expect(await redeemAccessToken(tokenClaims(), store)).toBe(true);
+    expect(increment).not.toHaveBeenCalled();
+  });
+
+  it('enforces the limit across processors sharing a store', async () => {
+    const redemptionStore = new MemoryRateLimitStore();
+    const config = {
+      payTo: PAY_TO,
+      amount: '1000',
+      network: 'testnet' as const,
+      facilitatorUrl: 'http://127.0.0.1:9',
+      accessToken: { secret: SECRET, scope: 'weather', maxRequests: 2, redemptionStore },
+    };
+    const instances = [createPaymentProcessor(config), createPaymentProcessor(config)];
+    const request = {
+      url: 'http://localhost/weather',
+      headers: { 'payment-access-token': issueAccessToken(tokenClaims({ max: 2 }), SECRET) },
+    };
+
+    const decisions = [];
+    for (const processPayment of [...instances, ...instances]) {
+      decisions.push((await processPayment(request)).type);
+    }
+
+    expect(decisions).toEqual(['settled', 'settled', 'rejected', 'rejected']);
+  });
+});
+
+describe('access token redemption', () => {
+  const request = (claims: Partial<AccessTokenClaims> = {}) => ({
+    url: 'http://localhost/weather',
+    headers: { 'payment-access-token': issueAccessToken(tokenClaims({ req: stxRequirements(), ...claims }), SECRET) },
+  });
+
+  it('does not quote USD-priced routes to redeem a token', async () => {
+    const priceOracle = { getQuote: jest.fn() };
+    const processPayment = createPaymentProcessor({
+      payTo: PAY_TO,
+      price: '$0.01',
+      priceOracle,
+      network: 'testnet',
+      facilitatorUrl: 'http://127.0.0.1:9',
+      accessToken: { secret: SECRET, scope: 'weather' },
+    });
+
+    const decision = await processPayment(request());
+
+    expect(decision).toMatchObject({ type: 'settled', paymentRequirements: stxRequirements() });
+    expect(priceOracle.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('applies paymentValidator before redeeming', async () => {
+    const redemptionStore = new MemoryRateLimitStore();
+    const paymentValidator = jest.fn(async () => false);
+    const processPayment = createPaymentProcessor({
+      payTo: PAY_TO,
+      amount: '1000',
+      network: 'testnet',
+      facilitatorUrl: 'http://127.0.0.1:9',
+      paymentValidator,
+      accessToken: { secret: SECRET, scope: 'weather', maxRequests: 1, redemptionStore },
+    });
+
+    const decision = await processPayment(request({ max: 1 }));
+
+    expect(decision).toMatchObject({ type: 'rejected', statusCode: 402, body: { error: 'custom_validation_failed' } });
+    expect(paymentValidator).toHaveBeenCalledWith(expect.objectContaining({ payer: payer.address }));
+    // The rejected request did not use up the token
+    expect(await redemptionStore.get(`access-token:${'ab'.repeat(32)}`)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import express from 'express';
+import Fastify from 'fastify';
+import Koa from 'koa';
+import { listPaidResources } from '../discovery';
+import { x402Fastify, x402PreHandler } from '../fastify';
+import { koaConditionalPayment, koaPaymentMiddleware } from '../koa';
+import { conditionalPayment, paymentRateLimit, tieredPayment } from '../middleware-v2';
+import { getPaidRoutes } from '../paywall';
+import { PAY_TO } from './helpers';
+
+const config = { payTo: PAY_TO, network: 'testnet' as const, facilitatorUrl: 'http://127.0.0.1:9' };
+
+describe('getPaidRoutes', () => {
+  it('finds Express gates wrapped by conditionalPayment, tieredPayment and paymentRateLimit', () => {
+    const app = express();
+    app.get('/api/conditional', conditionalPayment(() => true, { ...config, amount: '1000' }), (_req, res) => res.end());
+    app.post('/api/tiered', tieredPayment(() => ({ amount: '5' }), config), (_req, res) => res.end());
+    app.get(
+      '/api/limited',
+      paymentRateLimit({ freeRequests: 1, windowMs: 1000, paymentConfig: { ...config, amount: '2000' } }),
+      (_req, res) => res.end()
+    );
+
+    const routes = getPaidRoutes(app);
+
+    expect(routes.map((route) => route.key)).toEqual([
+      'GET /api/conditional',
+      'POST /api/tiered',
+      'GET /api/limited',
+    ]);
+    expect(routes[0].requirements[0].amount).toBe('1000');
+    // Tiered routes are priced per request
+    expect(routes[1].requirements).toEqual([]);
+    expect(routes[2].requirements[0].amount).toBe('2000');
+  });
+
+  it('finds Koa gates', () => {
+    const app = new Koa();
+    app.use(koaConditionalPayment(() => true, { ...config, amount: '1000' }));
+    app.use(koaPaymentMiddleware({ ...config, amount: '2000' }));
+
+    const routes = getPaidRoutes(app);
+
+    expect(routes.map((route) => route.path)).toEqual(['/**', '/**']);
+    expect(routes.map((route) => route.requirements[0].amount)).toEqual(['1000', '2000']);
+  });
+
+  it('lists the routes the Fastify plugin gated', async () => {
+    const fastify = Fastify();
+    await fastify.register(x402Fastify, config);
+    fastify.get('/api/weather', { config: { x402: { amount: '1000' } } }, async () => ({}));
+    fastify.post('/api/direct/:id', { preHandler: x402PreHandler({ ...config, amount: '2000' }) }, async () => ({}));
+    fastify.get('/api/free', async () => ({}));
+    await fastify.ready();
+
+    const routes = getPaidRoutes(fastify);
+
+    expect(routes.map((route) => route.key)).toEqual(['GET /api/weather', 'POST /api/direct/:id']);
+    expect(routes.map((route) => route.requirements[0].amount)).toEqual(['1000', '2000']);
+    await fastify.close();
+  });
+});
+
+describe('listPaidResources', () => {
+  it('lists absolute resource URLs and the route pattern separately', async () => {
+    const app = express();
+    app.get('/api/users/:id', conditionalPayment(() => true, { ...config, amount: '1000' }), (_req, res) => res.end());
+
+    const body = await listPaidResources(app, {}, { baseUrl: 'https://api.example.com/' });
+
+    expect(body.items).toHaveLength(1);
+    expect(body.items[0].resource.url).toBe('https://api.example.com/api/users/:id');
+    expect(body.items[0].pathPattern).toBe('/api/users/:id');
+  });
+
+  it('rejects a relative base URL', async () => {
+    await expect(listPaidResources([], {}, { baseUrl: '/api' })).rejects.toThrow('absolute');
+  });
+});
@@ -0,0 +1,174 @@
+import axios, { AxiosAdapter, AxiosError } from 'axios';
+import {
+  NoCompatibleOptionError,
+  PaymentRejectedError,
+  PolicyViolationError,
+  SettlementFailedError,
+  SigningError,
+  X402Error,
+  createPaymentFailureError,
+} from '../errors';
+import { wrapFetchWithPayment } from '../fetch-v2';
+import { wrapAxiosWithPayment } from '../interceptor-v2';
+import { StacksSigner } from '../types';
+import { PaymentRequiredV2, X402_ERROR_CODES } from '../types-v2';
+import { mockStacksApi, payer, paymentRequiredBody, stxRequirements } from './helpers';
+
+/** A signer whose signing device refuses every transaction */
+const lockedSigner: StacksSigner = {
+  ...payer,
+  signTransaction: async () => {
+    throw new Error('device locked');
+  },
+};
+
+let stacksApi: jest.SpyInstance;
+beforeEach(() => {
+  stacksApi = mockStacksApi();
+});
+afterEach(() => {
+  stacksApi.mockRestore();
+});
+
+describe('error classes', () => {
+  it.each([
+    ['NoCompatibleOptionError', NoCompatibleOptionError],
+    ['PaymentRejectedError', PaymentRejectedError],
+    ['SettlementFailedError', SettlementFailedError],
+    ['SigningError', SigningError],
+  ])('%s is an X402Error carrying the payment context', (name, ErrorClass) => {
+    const paymentRequired = paymentRequiredBody(stxRequirements());
+    const cause = new Error('cause');
+
+    const error = new ErrorClass('failed', { paymentRequired, requirements: stxRequirements(), cause });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(X402Error);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name, message: 'failed', paymentRequired, requirements: stxRequirements(), cause });
+  });
+
+  it('PolicyViolationError names the refusing rule', () => {
+    const error = new PolicyViolationError('budget_exceeded', stxRequirements());
+
+    expect(error).toBeInstanceOf(X402Error);
+    expect(error).toMatchObject({
+      name: 'PolicyViolationError',
+      reason: 'budget_exceeded',
+      requirements: stxRequirements(),
+      message: 'Payment refused by policy: budget_exceeded',
+    });
+  });
+
+  it.each([
+    [X402_ERROR_CODES.INVALID_PAYLOAD, 'PaymentRejectedError', PaymentRejectedError],
+    [X402_ERROR_CODES.INSUFFICIENT_FUNDS, 'PaymentRejectedError', PaymentRejectedError],
+    [X402_ERROR_CODES.BROADCAST_FAILED, 'SettlementFailedError', SettlementFailedError],
+    [X402_ERROR_CODES.TRANSACTION_PENDING, 'SettlementFailedError', SettlementFailedError],
+  ])('createPaymentFailureError maps %s to %s', (errorReason, _name, ErrorClass) => {
+    expect(createPaymentFailureError({ errorReason })).toBeInstanceOf(ErrorClass);
+  });
+
+  it('createPaymentFailureError treats a missing reason as a rejection', () => {
+    expect(createPaymentFailureError({}).message).toBe('Payment rejected by server: unknown');
+  });
+});
+
+describe('client payment errors', () => {
+  /** Every option is on mainnet, which the testnet payer cannot pay */
+  const mainnetOnly: PaymentRequiredV2 = paymentRequiredBody(
+    stxRequirements({ network: 'stacks:1', payTo: 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7' })
+  );
+
+  /**
+   * A server answering every request with a 402 carrying the given body
+   */
+  function paywalledFetch(paymentRequired: PaymentRequiredV2, paidError: string = X402_ERROR_CODES.INVALID_PAYLOAD) {
+    return jest.fn(async (_input: string | URL | Request, init?: RequestInit) => {
+      const paid = new Headers(init?.headers).has('payment-signature');
+      return Response.json(paid ? { error: paidError } : paymentRequired, { status: 402 });
+    });
+  }
+
+  /**
+   * An axios adapter for the same server as paywalledFetch
+   */
+  function paywalledAdapter(paymentRequired: PaymentRequiredV2): AxiosAdapter {
+    return async (config) => {
+      const paid = Boolean(config.headers['payment-signature']);
+      const response = {
+        data: paid ? { error: X402_ERROR_CODES.INVALID_PAYLOAD } : paymentRequired,
+        status: 402,
+        statusText: 'Payment Required',
+        headers: {},
+        config,
+      };
+      throw new AxiosError('Request failed with status code 402', 'ERR_BAD_REQUEST', config, null, response);
+    };
+  }
+
+  it('wrapFetchWithPayment rejects with NoCompatibleOptionError and the 402 it could not pay', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(paywalledFetch(mainnetOnly), payer);
+
+    const error = await fetchWithPayment('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NoCompatibleOptionError);
+    expect(error.paymentRequired).toEqual(mainnetOnly);
+    expect(error.response).toBeInstanceOf(Response);
+  });
+
+  it('wrapFetchWithPayment rejects with SigningError wrapping the signer failure', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(paywalledFetch(paymentRequiredBody(stxRequirements())), lockedSigner);
+
+    const error = await fetchWithPayment('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(SigningError);
+    expect(error).toMatchObject({ requirements: stxRequirements(), cause: new Error('device locked') });
+  });
+
+  it('wrapFetchWithPayment rejections carry the selected requirements and server reason', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(
+      paywalledFetch(paymentRequiredBody(stxRequirements()), X402_ERROR_CODES.INSUFFICIENT_FUNDS),
+      payer
+    );
+
+    const error = await fetchWithPayment('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(PaymentRejectedError);
+    expect(error).toMatchObject({ requirements: stxRequirements(), errorReason: X402_ERROR_CODES.INSUFFICIENT_FUNDS });
+    expect((error.response as Response).status).toBe(402);
+  });
+
+  it('wrapAxiosWithPayment rejects with NoCompatibleOptionError', async () => {
+    const api = wrapAxiosWithPayment(axios.create({ adapter: paywalledAdapter(mainnetOnly) }), payer);
+
+    const error = await api.get('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NoCompatibleOptionError);
+    expect(error.paymentRequired).toEqual(mainnetOnly);
+    expect(error.response.status).toBe(402);
+  });
+
+  it('wrapAxiosWithPayment rejects with SigningError wrapping the signer failure', async () => {
+    const api = wrapAxiosWithPayment(
+      axios.create({ adapter: paywalledAdapter(paymentRequiredBody(stxRequirements())) }),
+      lockedSigner
+    );
+
+    const error = await api.get('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(SigningError);
+    expect(error.cause).toEqual(new Error('device locked'));
+  });
+
+  it('wrapAxiosWithPayment rejects a refused payment once, with the server reason', async () => {
+    const adapter = jest.fn(paywalledAdapter(paymentRequiredBody(stxRequirements())));
+    const api = wrapAxiosWithPayment(axios.create({ adapter }), payer);
+
+    const error = await api.get('http://localhost/resource').catch((e) => e);
+
+    expect(error).toBeInstanceOf(PaymentRejectedError);
+    expect(error).toMatchObject({ requirements: stxRequirements(), errorReason: X402_ERROR_CODES.INVALID_PAYLOAD });
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+});
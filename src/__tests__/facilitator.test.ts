@@ -0,0 +1,108 @@
+import { X402Facilitator, ChainBackend } from '../facilitator';
+import { X402_ERROR_CODES } from '../types-v2';
+import { decodePaymentTransaction } from '../validator';
+import { payer, signedPayload, stxRequirements } from './helpers';
+
+const TX_ID = 'ab'.repeat(32);
+
+function createBackend(overrides: Partial<ChainBackend> = {}): ChainBackend {
+  return {
+    broadcast: jest.fn(async () => ({ success: true, txId: TX_ID })),
+    getTransactionStatus: jest.fn(async () => 'success' as const),
+    ...overrides,
+  };
+}
+
+describe('X402Facilitator', () => {
+  it('verifies a payment matching the requirements', async () => {
+    const facilitator = new X402Facilitator({ chainBackend: createBackend() });
+    const requirements = stxRequirements();
+
+    const result = await facilitator.verify({
+      x402Version: 2,
+      paymentPayload: await signedPayload(requirements),
+      paymentRequirements: requirements,
+    });
+
+    expect(result).toEqual({ isValid: true, payer: payer.address });
+  });
+
+  it('rejects a payment below the required amount', async () => {
+    const facilitator = new X402Facilitator({ chainBackend: createBackend() });
+
+    const result = await facilitator.verify({
+      x402Version: 2,
+      paymentPayload: await signedPayload(stxRequirements({ amount: '999' })),
+      paymentRequirements: stxRequirements(),
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it('settles a valid payment once confirmed', async () => {
+    const chainBackend = createBackend();
+    const facilitator = new X402Facilitator({ chainBackend, pollIntervalMs: 1 });
+    const requirements = stxRequirements();
+
+    const result = await facilitator.settle({
+      x402Version: 2,
+      paymentPayload: await signedPayload(requirements),
+      paymentRequirements: requirements,
+    });
+
+    expect(result).toMatchObject({ success: true, transaction: TX_ID, payer: payer.address });
+    expect(chainBackend.broadcast).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports failed transactions', async () => {
+    const facilitator = new X402Facilitator({
+      chainBackend: createBackend({ getTransactionStatus: async () => 'failed' }),
+      pollIntervalMs: 1,
+    });
+    const requirements = stxRequirements();
+
+    const result = await facilitator.settle({
+      x402Version: 2,
+      paymentPayload: await signedPayload(requirements),
+      paymentRequirements: requirements,
+    });
+
+    expect(result).toMatchObject({ success: false, errorReason: X402_ERROR_CODES.TRANSACTION_FAILED });
+  });
+
+  it('rejects a payload whose accepted requirements differ from the verified ones', async () => {
+    const facilitator = new X402Facilitator({ chainBackend: createBackend() });
+    const requirements = stxRequirements();
+    const paymentPayload = await signedPayload(requirements);
+
+    const result = await facilitator.verify({
+      x402Version: 2,
+      paymentPayload: { ...paymentPayload, accepted: stxRequirements({ amount: '1' }) },
+      paymentRequirements: requirements,
+    });
+
+    expect(result).toEqual({ isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS });
+  });
+
+  it('resumes a settlement that timed out while pending instead of failing the retry', async () => {
+    const requirements = stxRequirements();
+    const paymentPayload = await signedPayload(requirements);
+    const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction);
+
+    let confirmed = false;
+    const chainBackend = createBackend({
+      broadcast: jest.fn(async () => ({ success: true, txId })),
+      getTransactionStatus: async () => (confirmed ? 'success' : 'pending'),
+    });
+    const facilitator = new X402Facilitator({ chainBackend, confirmationTimeoutMs: 20, pollIntervalMs: 5 });
+    const request = { x402Version: 2 as const, paymentPayload, paymentRequirements: requirements };
+
+    const first = await facilitator.settle(request);
+    expect(first).toMatchObject({ success: false, errorReason: X402_ERROR_CODES.TRANSACTION_PENDING, transaction: txId });
+
+    confirmed = true;
+    const retry = await facilitator.settle(request);
+    expect(retry).toMatchObject({ success: true, payer: payer.address, transaction: txId });
+    expect(chainBackend.broadcast).toHaveBeenCalledTimes(1);
+  });
+});
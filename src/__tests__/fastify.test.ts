@@ -0,0 +1,115 @@
+import Fastify from 'fastify';
+import { x402Fastify, x402PreHandler } from '../fastify';
+import { MemoryReplayStore } from '../replay-store';
+import { PaymentRequiredV2, SettlementResponseV2 } from '../types-v2';
+import { decodePaymentTransaction } from '../validator';
+import { PAY_TO, encodePayload, signedPayload, startFacilitator, stxRequirements } from './helpers';
+
+const defaults = { payTo: PAY_TO, network: 'testnet' as const, facilitatorUrl: 'http://127.0.0.1:9' };
+
+/**
+ * Decode a base64 JSON x402 header
+ */
+function decodeHeader<T>(header: unknown): T {
+  return JSON.parse(Buffer.from(header as string, 'base64').toString());
+}
+
+describe('x402PreHandler', () => {
+  it('answers unpaid requests with a 402 and skips the handler', async () => {
+    const handler = jest.fn(async () => ({ ok: true }));
+    const fastify = Fastify();
+    fastify.get('/premium', { preHandler: x402PreHandler({ ...defaults, amount: '1000' }) }, handler);
+
+    const response = await fastify.inject({ method: 'GET', url: '/premium' });
+
+    expect(response.statusCode).toBe(402);
+    expect(decodeHeader<PaymentRequiredV2>(response.headers['payment-required']).accepts).toEqual([stxRequirements()]);
+    expect(response.json()).toMatchObject({ x402Version: 2, accepts: [stxRequirements()] });
+    expect(handler).not.toHaveBeenCalled();
+    await fastify.close();
+  });
+
+  it('settles a payment and exposes it as request.payment', async () => {
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+    const fastify = Fastify();
+    fastify.get(
+      '/premium',
+      {
+        preHandler: x402PreHandler({
+          ...defaults,
+          amount: '1000',
+          facilitatorUrl: facilitator.url,
+          replayStore: new MemoryReplayStore(),
+        }),
+      },
+      async (request) => ({ payer: request.payment?.payer })
+    );
+
+    try {
+      const paymentPayload = await signedPayload(stxRequirements());
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/premium',
+        headers: { 'payment-signature': encodePayload(paymentPayload) },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const settlement = decodeHeader<SettlementResponseV2>(response.headers['payment-response']);
+      const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction as string);
+      expect(settlement).toMatchObject({ success: true, transaction: txId });
+      expect(response.json()).toEqual({ payer: settlement.payer });
+    } finally {
+      await fastify.close();
+      await facilitator.close();
+    }
+  });
+});
+
+describe('x402Fastify plugin', () => {
+  it('gates routes declaring config.x402 with the plugin defaults', async () => {
+    const fastify = Fastify();
+    await fastify.register(x402Fastify, defaults);
+    fastify.get('/api/weather', { config: { x402: { amount: '2000' } } }, async () => ({ weather: 'sunny' }));
+    fastify.get('/api/free', async () => ({ free: true }));
+
+    const paid = await fastify.inject({ method: 'GET', url: '/api/weather' });
+    const free = await fastify.inject({ method: 'GET', url: '/api/free' });
+
+    expect(paid.statusCode).toBe(402);
+    expect(decodeHeader<PaymentRequiredV2>(paid.headers['payment-required']).accepts).toEqual([
+      stxRequirements({ amount: '2000' }),
+    ]);
+    expect(free.statusCode).toBe(200);
+    await fastify.close();
+  });
+
+  it('runs the payment check before the route preHandlers', async () => {
+    const routePreHandler = jest.fn(async () => undefined);
+    const fastify = Fastify();
+    await fastify.register(x402Fastify, defaults);
+    fastify.post(
+      '/api/report',
+      { config: { x402: { amount: '1000' } }, preHandler: routePreHandler },
+      async () => ({})
+    );
+
+    const response = await fastify.inject({ method: 'POST', url: '/api/report' });
+
+    expect(response.statusCode).toBe(402);
+    expect(routePreHandler).not.toHaveBeenCalled();
+    await fastify.close();
+  });
+
+  it('records gated routes once, without the HEAD route Fastify adds for GET', async () => {
+    const fastify = Fastify();
+    await fastify.register(x402Fastify, defaults);
+    fastify.get('/api/weather', { config: { x402: { amount: '1000' } } }, async () => ({}));
+    await fastify.ready();
+
+    expect(fastify.x402Routes.map((route) => route.key)).toEqual(['GET /api/weather']);
+    await fastify.close();
+  });
+});
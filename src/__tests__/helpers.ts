@@ -0,0 +1,97 @@
+/**
+ * Shared fixtures for the test suite
+ * Payments are signed with a fixed nonce and fee, so no Stacks API is contacted
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createPrivateKeySigner } from '../signer';
+import { ChainBackend, createFacilitatorServer } from '../facilitator';
+import { signPaymentV2 } from '../interceptor-v2';
+import { PaymentPayloadV2, PaymentRequiredV2, PaymentRequirementsV2, STACKS_NETWORKS } from '../types-v2';
+
+/** Testnet payer (ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5) */
+export const PAYER_KEY = '7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801';
+export const payer = createPrivateKeySigner(PAYER_KEY, 'testnet');
+
+/** Testnet recipients */
+export const PAY_TO = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+export const OTHER_PAY_TO = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+/**
+ * STX payment requirements on testnet
+ */
+export function stxRequirements(overrides: Partial<PaymentRequirementsV2> = {}): PaymentRequirementsV2 {
+  return {
+    scheme: 'exact',
+    network: STACKS_NETWORKS.TESTNET,
+    amount: '1000',
+    asset: 'STX',
+    payTo: PAY_TO,
+    maxTimeoutSeconds: 300,
+    ...overrides,
+  };
+}
+
+/**
+ * Sign a payment for requirements and wrap it in a payload
+ */
+export async function signedPayload(
+  requirements: PaymentRequirementsV2,
+  nonce: bigint = 0n
+): Promise<PaymentPayloadV2> {
+  return {
+    x402Version: 2,
+    resource: { url: 'http://localhost/resource' },
+    accepted: requirements,
+    payload: { transaction: await signPaymentV2(requirements, payer, { nonce, fee: 200n }) },
+  };
+}
+
+/**
+ * Run a facilitator on a free local port
+ */
+export async function startFacilitator(
+  chainBackend: ChainBackend
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const server: Server = createFacilitatorServer({ chainBackend, pollIntervalMs: 1 }).listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Encode a payment payload for the payment-signature header
+ */
+export function encodePayload(paymentPayload: PaymentPayloadV2): string {
+  return Buffer.from(JSON.stringify(paymentPayload)).toString('base64');
+}
+
+/**
+ * Answer the Stacks API calls made while signing (nonce and fee) without the network
+ * Restore with mockRestore() on the returned spy
+ */
+export function mockStacksApi(): jest.SpyInstance {
+  return jest.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : input.toString();
+
+    if (url.includes('/nonces')) {
+      return Response.json({ possible_next_nonce: 0 });
+    }
+    if (url.includes('/v2/fees/transaction')) {
+      return Response.json({ estimations: [{ fee: 200 }, { fee: 200 }, { fee: 200 }] });
+    }
+    throw new Error(`Unexpected Stacks API request: ${url}`);
+  });
+}
+
+/**
+ * A 402 response body asking for the given payment options
+ */
+export function paymentRequiredBody(...accepts: PaymentRequirementsV2[]): PaymentRequiredV2 {
+  return { x402Version: 2, resource: { url: 'http://localhost/resource' }, accepts };
+}
@@ -0,0 +1,146 @@
+import Ajv2020 from 'ajv/dist/2020';
+import { getX402JsonSchemas, getX402OpenApiComponents, X402SchemaName } from '../json-schema';
+import {
+  SchemaValidator,
+  validateFacilitatorSettleRequestV2,
+  validateFacilitatorVerifyRequestV2,
+  validatePaymentPayloadV2,
+  validatePaymentRequiredV2,
+  validateSettlementResponseV2,
+  validateSupportedResponse,
+  validateVerifyResponseV2,
+} from '../schema-v2';
+import { PaymentPayloadV2 } from '../types-v2';
+import { PAY_TO, paymentRequiredBody, signedPayload, stxRequirements } from './helpers';
+
+/** The runtime validators the schemas are meant to agree with */
+const runtimeValidators: Partial<Record<X402SchemaName, SchemaValidator>> = {
+  PaymentRequiredV2: validatePaymentRequiredV2,
+  PaymentPayloadV2: validatePaymentPayloadV2,
+  VerifyResponseV2: validateVerifyResponseV2,
+  SettlementResponseV2: validateSettlementResponseV2,
+  SupportedResponse: validateSupportedResponse,
+  FacilitatorVerifyRequestV2: validateFacilitatorVerifyRequestV2,
+  FacilitatorSettleRequestV2: validateFacilitatorSettleRequestV2,
+};
+
+let paymentPayload: PaymentPayloadV2;
+beforeAll(async () => {
+  paymentPayload = await signedPayload(stxRequirements());
+});
+
+/**
+ * Sample payloads for a schema, each with whether it is valid
+ * Built lazily so they can use the signed payment
+ */
+function samples(name: X402SchemaName): [string, unknown, boolean][] {
+  const settleRequest = { x402Version: 2, paymentPayload, paymentRequirements: stxRequirements() };
+
+  switch (name) {
+    case 'PaymentRequiredV2':
+      return [
+        ['a 402 body', paymentRequiredBody(stxRequirements()), true],
+        [
+          'an option on another chain',
+          {
+            ...paymentRequiredBody(),
+            accepts: [
+              stxRequirements(),
+              {
+                ...stxRequirements(),
+                network: 'eip155:8453',
+                asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+              },
+            ],
+          },
+          true,
+        ],
+        ['no options', paymentRequiredBody(), false],
+        ['version 1', { ...paymentRequiredBody(stxRequirements()), x402Version: 1 }, false],
+        ['a decimal amount', paymentRequiredBody(stxRequirements({ amount: '1.5' })), false],
+        ['a non-Stacks recipient', paymentRequiredBody(stxRequirements({ payTo: '0x209693Bc6afc' })), false],
+        ['a Stacks network without a chain id', paymentRequiredBody(stxRequirements({ network: 'stacks:' })), false],
+      ];
+    case 'PaymentPayloadV2':
+      return [
+        ['a signed payment', paymentPayload, true],
+        ['no transaction', { ...paymentPayload, payload: {} }, false],
+        ['a non-hex transaction', { ...paymentPayload, payload: { transaction: 'not hex' } }, false],
+        ['no accepted requirements', { ...paymentPayload, accepted: undefined }, false],
+      ];
+    case 'VerifyResponseV2':
+      return [
+        ['a valid result', { isValid: true, payer: PAY_TO }, true],
+        ['an invalid result', { isValid: false, invalidReason: 'invalid_payload' }, true],
+        ['a string result', { isValid: 'true' }, false],
+      ];
+    case 'SettlementResponseV2':
+      return [
+        ['a settlement', { success: true, transaction: '0xabc', network: 'stacks:2147483648', payer: PAY_TO }, true],
+        ['an upto settlement', { success: true, transaction: '', network: 'stacks:1', amount: '0' }, true],
+        ['no network', { success: true, transaction: '0xabc' }, false],
+        ['a negative amount', { success: true, transaction: '0xabc', network: 'stacks:1', amount: '-1' }, false],
+      ];
+    case 'SupportedResponse':
+      return [
+        [
+          'the facilitator kinds',
+          {
+            kinds: [{ x402Version: 2, scheme: 'exact', network: 'stacks:1' }],
+            extensions: [],
+            signers: { 'stacks:*': [PAY_TO] },
+          },
+          true,
+        ],
+        ['no signers', { kinds: [], extensions: [] }, false],
+        [
+          'a kind without a scheme',
+          { kinds: [{ x402Version: 2, network: 'stacks:1' }], extensions: [], signers: {} },
+          false,
+        ],
+      ];
+    case 'FacilitatorVerifyRequestV2':
+    case 'FacilitatorSettleRequestV2':
+      return [
+        ['a request', settleRequest, true],
+        ['version 1', { ...settleRequest, x402Version: 1 }, false],
+        ['no requirements', { ...settleRequest, paymentRequirements: undefined }, false],
+      ];
+    default:
+      return [];
+  }
+}
+
+const sampledSchemas = Object.keys(runtimeValidators) as X402SchemaName[];
+
+describe('getX402JsonSchemas', () => {
+  const ajv = new Ajv2020({ strict: false });
+
+  it('compiles every document as JSON Schema 2020-12', () => {
+    for (const schema of Object.values(getX402JsonSchemas())) {
+      expect(() => ajv.compile(schema)).not.toThrow();
+    }
+  });
+
+  it.each(sampledSchemas)('%s accepts and rejects the same payloads as the runtime validator', (name) => {
+    const validate = ajv.compile(getX402JsonSchemas()[name]);
+
+    for (const [label, value, valid] of samples(name)) {
+      expect({ label, schema: validate(value) }).toEqual({ label, schema: valid });
+      expect({ label, runtime: runtimeValidators[name]!(value).length === 0 }).toEqual({ label, runtime: valid });
+    }
+  });
+});
+
+describe('getX402OpenApiComponents', () => {
+  it.each(sampledSchemas)('%s resolves its references through #/components/schemas', (name) => {
+    const ajv = new Ajv2020({ strict: false });
+    ajv.addSchema({ $id: 'https://x402.test/openapi', components: getX402OpenApiComponents() });
+    const validate = ajv.getSchema(`https://x402.test/openapi#/components/schemas/${name}`)!;
+
+    for (const [label, value, valid] of samples(name)) {
+      expect({ label, schema: validate(value) }).toEqual({ label, schema: valid });
+    }
+  });
+});
@@ -0,0 +1,257 @@
+import Koa from 'koa';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { koaConditionalPayment, koaPaymentMiddleware, koaPaymentRateLimit, koaTieredPayment } from '../koa';
+import * as paymentProcessor from '../payment-processor';
+import { MemoryReceiptStore } from '../receipts';
+import { MemoryReplayStore } from '../replay-store';
+import { PaymentRequiredV2, SettlementResponseV2 } from '../types-v2';
+import { decodePaymentTransaction } from '../validator';
+import { PAY_TO, encodePayload, signedPayload, startFacilitator, stxRequirements } from './helpers';
+
+const config = { payTo: PAY_TO, amount: '1000', network: 'testnet' as const, facilitatorUrl: 'http://127.0.0.1:9' };
+
+/**
+ * Serve a Koa app on a free local port
+ */
+async function startKoa(app: Koa): Promise<{ url: string; close: () => Promise<void> }> {
+  const server: Server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/resource`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Decode a base64 JSON x402 header
+ */
+function decodeHeader<T>(header: string | null): T {
+  return JSON.parse(Buffer.from(header as string, 'base64').toString());
+}
+
+/**
+ * Serve one Koa middleware in front of a handler answering with the payer
+ */
+function startGated(middleware: Koa.Middleware, handler: Koa.Middleware = echoPayer) {
+  const app = new Koa();
+  app.use(middleware);
+  app.use(handler);
+  return startKoa(app);
+}
+
+/**
+ * Handler answering with the payer of the request
+ */
+function echoPayer(ctx: Koa.Context) {
+  ctx.body = { payer: ctx.state.payment?.payer ?? null };
+}
+
+/**
+ * Headers paying for the resource with a fresh payment
+ */
+async function paymentHeaders() {
+  const paymentPayload = await signedPayload(stxRequirements());
+  const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction as string);
+  return { headers: { 'payment-signature': encodePayload(paymentPayload) }, txId };
+}
+
+describe('koaPaymentMiddleware', () => {
+  let facilitator: { url: string; close: () => Promise<void> };
+  beforeAll(async () => {
+    facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+  });
+  afterAll(async () => {
+    await facilitator.close();
+  });
+
+  const paidConfig = () => ({ ...config, facilitatorUrl: facilitator.url, replayStore: new MemoryReplayStore() });
+
+  it('answers unpaid requests with a 402 without running the handler', async () => {
+    const handler = jest.fn();
+    const server = await startGated(koaPaymentMiddleware(config), handler);
+    try {
+      const response = await fetch(server.url);
+
+      expect(response.status).toBe(402);
+      expect(decodeHeader<PaymentRequiredV2>(response.headers.get('payment-required')).accepts).toEqual([
+        stxRequirements(),
+      ]);
+      expect(handler).not.toHaveBeenCalled();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('settles before the handler and sets ctx.state.payment', async () => {
+    const server = await startGated(koaPaymentMiddleware(paidConfig()));
+    try {
+      const { headers, txId } = await paymentHeaders();
+      const response = await fetch(server.url, { headers });
+
+      const settlement = decodeHeader<SettlementResponseV2>(response.headers.get('payment-response'));
+      expect(settlement).toMatchObject({ success: true, transaction: txId });
+      expect(await response.json()).toEqual({ payer: settlement.payer });
+    } finally {
+      await server.close();
+    }
+  });
+
+  describe('deferred settlement', () => {
+    /**
+     * Wait for the receipt of a transaction to leave the pending state
+     */
+    async function finalReceipt(receiptStore: MemoryReceiptStore, txId: string) {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const receipt = await receiptStore.get(txId);
+        if (receipt && receipt.status !== 'pending') return receipt;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return receiptStore.get(txId);
+    }
+
+    it('settles once the response is sent and links the receipt', async () => {
+      const receiptStore = new MemoryReceiptStore();
+      const server = await startGated(koaPaymentMiddleware({ ...paidConfig(), settlement: 'deferred', receiptStore }));
+      try {
+        const { headers, txId } = await paymentHeaders();
+        const response = await fetch(server.url, { headers });
+        await response.text();
+
+        expect(response.headers.get('payment-receipt')).toBe(`/x402/receipts/${txId}`);
+        expect(await finalReceipt(receiptStore, txId)).toMatchObject({ status: 'settled' });
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('cancels the payment when the handler throws', async () => {
+      const receiptStore = new MemoryReceiptStore();
+      const server = await startGated(
+        koaPaymentMiddleware({ ...paidConfig(), settlement: 'deferred', receiptStore }),
+        () => {
+          throw new Error('handler failed');
+        }
+      );
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      try {
+        const { headers, txId } = await paymentHeaders();
+        const response = await fetch(server.url, { headers });
+
+        expect(response.status).toBe(500);
+        expect(await finalReceipt(receiptStore, txId)).toMatchObject({ status: 'cancelled' });
+      } finally {
+        consoleError.mockRestore();
+        await server.close();
+      }
+    });
+
+    it('sends payment-response as a header in trailer mode', async () => {
+      const server = await startGated(
+        koaPaymentMiddleware({ ...paidConfig(), settlement: 'deferred', deferredDelivery: 'trailer' })
+      );
+      try {
+        const { headers, txId } = await paymentHeaders();
+        const response = await fetch(server.url, { headers });
+
+        expect(response.status).toBe(200);
+        expect(decodeHeader<SettlementResponseV2>(response.headers.get('payment-response'))).toMatchObject({
+          success: true,
+          transaction: txId,
+        });
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
+
+describe('Koa payment wrappers', () => {
+  it('koaConditionalPayment only gates requests matching the condition', async () => {
+    const server = await startGated(koaConditionalPayment((ctx) => ctx.query.premium === '1', config));
+    try {
+      expect((await fetch(server.url)).status).toBe(200);
+      expect((await fetch(`${server.url}?premium=1`)).status).toBe(402);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('koaTieredPayment prices each request by its tier', async () => {
+    const { payTo, network, facilitatorUrl } = config;
+    const server = await startGated(
+      koaTieredPayment((ctx) => ({ amount: ctx.query.tier === 'pro' ? '5000' : '1000' }), {
+        payTo,
+        network,
+        facilitatorUrl,
+      })
+    );
+    try {
+      const amounts = [];
+      for (const tier of ['basic', 'pro']) {
+        const response = await fetch(`${server.url}?tier=${tier}`);
+        amounts.push(decodeHeader<PaymentRequiredV2>(response.headers.get('payment-required')).accepts[0].amount);
+      }
+      expect(amounts).toEqual(['1000', '5000']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('koaPaymentRateLimit asks for payment after the free requests', async () => {
+    const server = await startGated(koaPaymentRateLimit({ freeRequests: 2, windowMs: 60_000, paymentConfig: config }));
+    try {
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await fetch(server.url)).status);
+      }
+      expect(statuses).toEqual([200, 200, 402]);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('koaPaymentMiddleware trailer delivery', () => {
+  it('still sends the response when settlement throws', async () => {
+    const processor = Object.assign(
+      async (): Promise<paymentProcessor.PaymentDecision> => ({
+        type: 'verified',
+        payment: { success: true, payer: '', transaction: '0x01', network: 'stacks:2147483648' },
+        paymentRequirements: stxRequirements(),
+        headers: { Trailer: 'payment-response' },
+        delivery: 'trailer',
+        settle: async () => {
+          throw new Error('settlement crashed');
+        },
+        cancel: async () => undefined,
+      }),
+      { paymentConfig: config }
+    );
+    const createProcessor = jest.spyOn(paymentProcessor, 'createPaymentProcessor').mockReturnValue(processor);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const app = new Koa();
+    app.use(koaPaymentMiddleware(config));
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    const server = await startKoa(app);
+
+    try {
+      const response = await fetch(server.url, { signal: AbortSignal.timeout(5000) });
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('content');
+      expect(response.headers.get('payment-response')).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith('x402 trailer settlement error:', expect.any(Error));
+    } finally {
+      createProcessor.mockRestore();
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,234 @@
+import express from 'express';
+import { request as httpRequest, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { paymentMiddleware, tieredPayment } from '../middleware-v2';
+import * as paymentProcessor from '../payment-processor';
+import { PaymentMiddlewareConfig } from '../payment-processor';
+import { MemoryReceiptStore } from '../receipts';
+import { MemoryReplayStore } from '../replay-store';
+import { decodePaymentTransaction } from '../validator';
+import { PaymentRequirementsV2, SettlementResponseV2, X402_ERROR_CODES } from '../types-v2';
+import { PAY_TO, encodePayload, signedPayload, startFacilitator, stxRequirements } from './helpers';
+
+/**
+ * Serve an Express app with one paid route on a free local port
+ */
+async function startApp(
+  config: Partial<PaymentMiddlewareConfig>,
+  handler: express.RequestHandler
+): Promise<{ port: number; close: () => Promise<void> }> {
+  const app = express();
+  app.get(
+    '/resource',
+    paymentMiddleware({
+      payTo: PAY_TO,
+      amount: '1000',
+      network: 'testnet',
+      facilitatorUrl: '',
+      replayStore: new MemoryReplayStore(),
+      settlement: 'deferred',
+      ...config,
+    }),
+    handler
+  );
+
+  const server: Server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Start a paid GET request for /resource
+ */
+async function paidRequest(port: number) {
+  const paymentPayload = await signedPayload(stxRequirements());
+  const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction);
+  const request = httpRequest({
+    port,
+    path: '/resource',
+    headers: { 'payment-signature': encodePayload(paymentPayload) },
+  });
+  return { request, txId };
+}
+
+describe('paymentMiddleware deferred settlement', () => {
+  it('cancels the payment when the client disconnects before the response finishes', async () => {
+    const broadcast = jest.fn(async () => ({ success: true, txId: '' }));
+    const facilitator = await startFacilitator({ broadcast, getTransactionStatus: async () => 'success' });
+    const receiptStore = new MemoryReceiptStore();
+
+    let wroteFirstChunk: () => void = () => undefined;
+    const firstChunk = new Promise<void>((resolve) => (wroteFirstChunk = resolve));
+    const app = await startApp({ facilitatorUrl: facilitator.url, receiptStore }, (_req, res) => {
+      res.write('partial');
+      wroteFirstChunk();
+      res.on('close', () => res.end());
+    });
+
+    try {
+      const { request, txId } = await paidRequest(app.port);
+      request.on('error', () => undefined);
+      request.end();
+
+      await firstChunk;
+      request.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await receiptStore.get(txId))?.status).toBe('cancelled');
+      expect(broadcast).not.toHaveBeenCalled();
+    } finally {
+      await app.close();
+      await facilitator.close();
+    }
+  });
+
+  it('ends a trailer response with a pending settlement when settlement is slow', async () => {
+    let finishBroadcast: () => void = () => undefined;
+    const broadcastStarted = new Promise<void>((resolve) => (finishBroadcast = resolve));
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => {
+        await broadcastStarted;
+        return { success: true, txId: decodePaymentTransaction(transaction).txId };
+      },
+      getTransactionStatus: async () => 'success',
+    });
+    const onSettlement = jest.fn();
+    const app = await startApp(
+      { facilitatorUrl: facilitator.url, deferredDelivery: 'trailer', trailerTimeoutMs: 50, onSettlement },
+      (_req, res) => {
+        res.send('content');
+      }
+    );
+
+    try {
+      const { request, txId } = await paidRequest(app.port);
+      const response = await new Promise<IncomingMessage>((resolve) => request.on('response', resolve).end());
+      let body = '';
+      response.on('data', (chunk) => (body += chunk));
+      await new Promise((resolve) => response.on('end', resolve));
+
+      const settlement: SettlementResponseV2 = JSON.parse(
+        Buffer.from(response.trailers['payment-response'] as string, 'base64').toString()
+      );
+      expect(body).toBe('content');
+      expect(settlement).toMatchObject({
+        success: false,
+        errorReason: X402_ERROR_CODES.TRANSACTION_PENDING,
+        transaction: txId,
+      });
+
+      // Settlement still completes in the background
+      finishBroadcast();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onSettlement).toHaveBeenCalledWith(expect.objectContaining({ success: true }), expect.anything());
+    } finally {
+      await app.close();
+      await facilitator.close();
+    }
+  });
+});
+
+describe('trailer settlement errors', () => {
+  /**
+   * Stub the payment processor with a verified trailer decision whose settlement throws
+   */
+  function stubFailingTrailer() {
+    const processor = Object.assign(
+      async (): Promise<paymentProcessor.PaymentDecision> => ({
+        type: 'verified',
+        payment: { success: true, payer: '', transaction: '0x01', network: 'stacks:2147483648' },
+        paymentRequirements: stxRequirements(),
+        headers: { Trailer: 'payment-response' },
+        delivery: 'trailer',
+        settle: async () => {
+          throw new Error('settlement crashed');
+        },
+        cancel: async () => undefined,
+      }),
+      { paymentConfig: { payTo: PAY_TO, amount: '1000', network: 'testnet' as const } }
+    );
+    return jest.spyOn(paymentProcessor, 'createPaymentProcessor').mockReturnValue(processor);
+  }
+
+  it('still ends an Express response when settlement throws', async () => {
+    const createProcessor = stubFailingTrailer();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const app = await startApp({}, (_req, res) => {
+      res.send('content');
+    });
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${app.port}/resource`, { signal: AbortSignal.timeout(5000) });
+
+      expect(await response.text()).toBe('content');
+      expect(consoleError).toHaveBeenCalledWith('x402 trailer settlement error:', expect.any(Error));
+    } finally {
+      createProcessor.mockRestore();
+      consoleError.mockRestore();
+      await app.close();
+    }
+  });
+});
+
+describe('tieredPayment', () => {
+  const baseConfig = { payTo: PAY_TO, network: 'testnet' as const, facilitatorUrl: 'http://127.0.0.1:9' };
+
+  /**
+   * Serve an Express app with one tiered route, reporting errors as 500 JSON
+   */
+  async function startTieredApp(getTier: Parameters<typeof tieredPayment>[0]) {
+    const app = express();
+    app.get('/resource', tieredPayment(getTier, baseConfig), (_req, res) => res.end());
+    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ message: error.message });
+    });
+
+    const server: Server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    return {
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/resource`,
+      close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+  }
+
+  it('checks the base config when the middleware is created', () => {
+    expect(() => tieredPayment(() => ({ amount: '1' }), { payTo: PAY_TO } as typeof baseConfig)).toThrow();
+  });
+
+  it('passes getTier errors to Express instead of hanging', async () => {
+    const app = await startTieredApp(() => {
+      throw new Error('tier lookup failed');
+    });
+    try {
+      const response = await fetch(app.url, { signal: AbortSignal.timeout(5000) });
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ message: 'tier lookup failed' });
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('prices each request by its tier, reusing one gate per tier', async () => {
+    const createProcessor = jest.spyOn(paymentProcessor, 'createPaymentProcessor');
+    const app = await startTieredApp((req) => ({ amount: req.query.tier === 'pro' ? '5000' : '1000' }));
+    try {
+      const amounts = [];
+      for (const tier of ['basic', 'pro', 'basic', 'pro']) {
+        const response = await fetch(`${app.url}?tier=${tier}`);
+        const body = (await response.json()) as { accepts: PaymentRequirementsV2[] };
+        amounts.push(body.accepts[0].amount);
+      }
+
+      expect(amounts).toEqual(['1000', '5000', '1000', '5000']);
+      // One gate (and processor) per tier
+      expect(createProcessor).toHaveBeenCalledTimes(2);
+    } finally {
+      createProcessor.mockRestore();
+      await app.close();
+    }
+  });
+});
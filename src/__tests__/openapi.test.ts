@@ -0,0 +1,89 @@
+import express from 'express';
+import { generatePaymentOpenApi } from '../openapi';
+import { paymentMiddleware } from '../middleware-v2';
+import { toPaywallRoute } from '../paywall';
+import { PAY_TO } from './helpers';
+
+const config = { payTo: PAY_TO, network: 'testnet' as const, facilitatorUrl: 'http://127.0.0.1:9' };
+const SBTC = 'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token';
+
+type Operation = Record<string, any>;
+
+/**
+ * Get one operation of a generated document
+ */
+function operation(document: Record<string, unknown>, path: string, method: string): Operation {
+  return (document.paths as Record<string, Record<string, Operation>>)[path][method];
+}
+
+describe('generatePaymentOpenApi', () => {
+  const app = express();
+  app.get('/api/weather/:city', paymentMiddleware({ ...config, amount: '1000' }), (_req, res) => res.end());
+
+  it('annotates paid operations with their requirements, headers and 402 response', () => {
+    const document = generatePaymentOpenApi(app);
+    const weather = operation(document, '/api/weather/{city}', 'get');
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(weather['x-x402-accepts']).toEqual([
+      expect.objectContaining({ amount: '1000', asset: 'STX', payTo: PAY_TO, network: 'stacks:2147483648' }),
+    ]);
+    expect(weather.parameters.map((parameter: Operation) => `${parameter.in}:${parameter.name}`)).toEqual([
+      'path:city',
+      'header:payment-signature',
+    ]);
+    expect(weather.responses['402'].headers['payment-required'].schema.contentSchema).toEqual({
+      $ref: '#/components/schemas/PaymentRequiredV2',
+    });
+    expect(weather.responses['200'].headers['payment-response']).toBeDefined();
+    expect(document.components).toMatchObject({ schemas: { PaymentRequiredV2: expect.any(Object) } });
+  });
+
+  it('keeps the version and operations of an existing document', () => {
+    const document = generatePaymentOpenApi(app, {
+      document: {
+        openapi: '3.0.3',
+        paths: {
+          '/api/weather/{city}': {
+            get: { summary: 'Weather', responses: { '200': { description: 'Forecast' } } },
+          },
+        },
+      },
+    });
+    const weather = operation(document, '/api/weather/{city}', 'get');
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(weather.summary).toBe('Weather');
+    expect(weather.responses['200'].description).toBe('Forecast');
+    // 3.0 has no contentSchema
+    expect(weather.responses['402'].headers['payment-required'].schema).toMatchObject({
+      type: 'string',
+      format: 'byte',
+    });
+  });
+
+  it('lists the USD price of each option of a route priced per option', () => {
+    const route = toPaywallRoute('GET /api/report', ['GET'], '/api/report', {
+      ...config,
+      accepts: [{ price: '$0.05' }, { asset: SBTC, price: 0.04 }],
+    });
+
+    const report = operation(generatePaymentOpenApi([route]), '/api/report', 'get');
+
+    expect(report['x-x402-accepts']).toEqual([]);
+    expect(report['x-x402-price']).toEqual([
+      { amount: '0.05', currency: 'USD', network: 'stacks:2147483648', asset: 'STX', payTo: PAY_TO },
+      { amount: '0.04', currency: 'USD', network: 'stacks:2147483648', asset: SBTC, payTo: PAY_TO },
+    ]);
+  });
+
+  it('applies the route price to options without their own', () => {
+    const route = toPaywallRoute('/api/all', null, '/api/all', { ...config, price: '$1' });
+
+    const document = generatePaymentOpenApi([route]);
+
+    expect(operation(document, '/api/all', 'post')['x-x402-price']).toEqual([
+      { amount: '1', currency: 'USD', network: 'stacks:2147483648', asset: 'STX', payTo: PAY_TO },
+    ]);
+  });
+});
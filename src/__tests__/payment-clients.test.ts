@@ -0,0 +1,101 @@
+import axios, { AxiosAdapter, AxiosError } from 'axios';
+import { wrapFetchWithPayment } from '../fetch-v2';
+import { wrapAxiosWithPayment } from '../interceptor-v2';
+import { PaymentRejectedError, PolicyViolationError, SettlementFailedError } from '../errors';
+import { X402_ERROR_CODES } from '../types-v2';
+import { PaymentPolicy } from '../policy';
+import { mockStacksApi, payer, paymentRequiredBody, stxRequirements } from './helpers';
+
+// Room for exactly one payment of the default 1000 microSTX
+const policy: PaymentPolicy = { budgets: [{ asset: 'STX', amount: '1000', windowMs: 60_000 }] };
+
+let stacksApi: jest.SpyInstance;
+beforeEach(() => {
+  stacksApi = mockStacksApi();
+});
+afterEach(() => {
+  stacksApi.mockRestore();
+});
+
+/**
+ * A server that always asks for payment and answers paid requests with errorCode
+ */
+function paywalledFetch(errorCode: string) {
+  return jest.fn(async (_input: string | URL | Request, init?: RequestInit) => {
+    const paid = new Headers(init?.headers).has('payment-signature');
+    return Response.json(paid ? { error: errorCode } : paymentRequiredBody(stxRequirements()), { status: 402 });
+  });
+}
+
+describe('wrapFetchWithPayment', () => {
+  it('rejects with PaymentRejectedError when the paid retry returns 402', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(paywalledFetch(X402_ERROR_CODES.INVALID_PAYLOAD), payer);
+
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toMatchObject({
+      name: 'PaymentRejectedError',
+      errorReason: X402_ERROR_CODES.INVALID_PAYLOAD,
+    });
+  });
+
+  it('releases the budget reservation when the payment is rejected', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(paywalledFetch(X402_ERROR_CODES.INVALID_PAYLOAD), payer, {
+      policy,
+    });
+
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toBeInstanceOf(PaymentRejectedError);
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toBeInstanceOf(PaymentRejectedError);
+  });
+
+  it('keeps the reservation when the payment may have been spent', async () => {
+    const fetchWithPayment = wrapFetchWithPayment(paywalledFetch(X402_ERROR_CODES.TRANSACTION_PENDING), payer, {
+      policy,
+    });
+
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toBeInstanceOf(SettlementFailedError);
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toMatchObject({
+      name: 'PolicyViolationError',
+      reason: 'budget_exceeded',
+    });
+  });
+});
+
+describe('wrapAxiosWithPayment', () => {
+  /**
+   * An axios adapter for the same server as paywalledFetch
+   */
+  function paywalledAdapter(errorCode: string): AxiosAdapter {
+    return async (config) => {
+      const paid = Boolean(config.headers['payment-signature']);
+      const response = {
+        data: paid ? { error: errorCode } : paymentRequiredBody(stxRequirements()),
+        status: 402,
+        statusText: 'Payment Required',
+        headers: {},
+        config,
+      };
+      throw new AxiosError('Request failed with status code 402', 'ERR_BAD_REQUEST', config, null, response);
+    };
+  }
+
+  it('releases the budget reservation when the payment is rejected', async () => {
+    const api = wrapAxiosWithPayment(
+      axios.create({ adapter: paywalledAdapter(X402_ERROR_CODES.INVALID_PAYLOAD) }),
+      payer,
+      { policy }
+    );
+
+    await expect(api.get('http://localhost/resource')).rejects.toBeInstanceOf(PaymentRejectedError);
+    await expect(api.get('http://localhost/resource')).rejects.toBeInstanceOf(PaymentRejectedError);
+  });
+
+  it('keeps the reservation when the payment may have been spent', async () => {
+    const api = wrapAxiosWithPayment(
+      axios.create({ adapter: paywalledAdapter(X402_ERROR_CODES.TRANSACTION_PENDING) }),
+      payer,
+      { policy }
+    );
+
+    await expect(api.get('http://localhost/resource')).rejects.toBeInstanceOf(SettlementFailedError);
+    await expect(api.get('http://localhost/resource')).rejects.toBeInstanceOf(PolicyViolationError);
+  });
+});
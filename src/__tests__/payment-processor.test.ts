@@ -0,0 +1,249 @@
+import { createPaymentProcessor, PaymentMiddlewareConfig, withPayment } from '../payment-processor';
+import { MemoryReceiptStore } from '../receipts';
+import { MemoryReplayStore } from '../replay-store';
+import { PaymentPayloadV2, PaymentRequirementsV2, X402_ERROR_CODES } from '../types-v2';
+import { decodePaymentTransaction } from '../validator';
+import { OTHER_PAY_TO, PAY_TO, encodePayload, signedPayload, startFacilitator, stxRequirements } from './helpers';
+
+const config: PaymentMiddlewareConfig = {
+  payTo: PAY_TO,
+  amount: '1000',
+  network: 'testnet',
+  // Nothing listens here; tests that settle start their own facilitator
+  facilitatorUrl: 'http://127.0.0.1:9',
+};
+
+/**
+ * A request paying with the given payload
+ */
+function paidRequest(paymentPayload: PaymentPayloadV2) {
+  return {
+    url: 'http://localhost/resource',
+    headers: { 'payment-signature': encodePayload(paymentPayload) },
+  };
+}
+
+describe('accepted payment requirements', () => {
+  it.each<[string, Partial<PaymentRequirementsV2>]>([
+    ['a lower amount', { amount: '1' }],
+    ['another recipient', { payTo: OTHER_PAY_TO }],
+    ['another asset', { asset: 'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token' }],
+    ['another network', { network: 'stacks:1' }],
+    ['another scheme', { scheme: 'upto' }],
+  ])('rejects requirements with %s than the route offers', async (_name, overrides) => {
+    const processPayment = createPaymentProcessor({ ...config, replayStore: new MemoryReplayStore() });
+    const paymentPayload = { ...(await signedPayload(stxRequirements())), accepted: stxRequirements(overrides) };
+
+    const decision = await processPayment(paidRequest(paymentPayload));
+
+    expect(decision).toMatchObject({
+      type: 'rejected',
+      statusCode: 402,
+      body: { error: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS },
+    });
+  });
+
+  it('lists the offered requirements again with the rejection', async () => {
+    const processPayment = createPaymentProcessor({ ...config, replayStore: new MemoryReplayStore() });
+    const paymentPayload = await signedPayload(stxRequirements({ amount: '1' }));
+
+    const decision = await processPayment(paidRequest(paymentPayload));
+
+    expect(decision.type).toBe('rejected');
+    const header = (decision as { headers: Record<string, string> }).headers['payment-required'];
+    expect(JSON.parse(Buffer.from(header, 'base64').toString()).accepts).toEqual([stxRequirements()]);
+  });
+
+  it('does not claim the transaction of a mismatched payment', async () => {
+    const replayStore = new MemoryReplayStore();
+    const claim = jest.spyOn(replayStore, 'claim');
+    const processPayment = createPaymentProcessor({ ...config, replayStore });
+
+    await processPayment(paidRequest(await signedPayload(stxRequirements({ payTo: OTHER_PAY_TO }))));
+
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('settles a payment whose requirements match the offer', async () => {
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+    try {
+      const processPayment = createPaymentProcessor({
+        ...config,
+        facilitatorUrl: facilitator.url,
+        replayStore: new MemoryReplayStore(),
+      });
+
+      const decision = await processPayment(paidRequest(await signedPayload(stxRequirements())));
+
+      expect(decision).toMatchObject({ type: 'settled', paymentRequirements: stxRequirements() });
+    } finally {
+      await facilitator.close();
+    }
+  });
+});
+
+describe('several price options', () => {
+  const SBTC = 'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token';
+  const multiOption: PaymentMiddlewareConfig = {
+    payTo: PAY_TO,
+    network: 'testnet',
+    accepts: [
+      { amount: '1000' },
+      { asset: SBTC, amount: '50' },
+      { network: 'mainnet', amount: '1000', payTo: 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7' },
+    ],
+  };
+
+  it('offers every option in the 402', async () => {
+    const processPayment = createPaymentProcessor({ ...multiOption, facilitatorUrl: 'http://127.0.0.1:9' });
+
+    const decision = await processPayment({ url: 'http://localhost/resource', headers: {} });
+
+    expect((decision as { body: { accepts: PaymentRequirementsV2[] } }).body.accepts).toEqual([
+      stxRequirements(),
+      stxRequirements({ asset: SBTC, amount: '50' }),
+      stxRequirements({ network: 'stacks:1', payTo: 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7' }),
+    ]);
+  });
+
+  it('settles against the option the client chose', async () => {
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+    try {
+      const processPayment = createPaymentProcessor({
+        ...multiOption,
+        facilitatorUrl: facilitator.url,
+        replayStore: new MemoryReplayStore(),
+      });
+      const chosen = stxRequirements({ asset: SBTC, amount: '50' });
+
+      const decision = await processPayment(paidRequest(await signedPayload(chosen)));
+
+      expect(decision).toMatchObject({ type: 'settled', paymentRequirements: chosen });
+    } finally {
+      await facilitator.close();
+    }
+  });
+
+  it('rejects mixing the fields of two options', async () => {
+    const processPayment = createPaymentProcessor({
+      ...multiOption,
+      facilitatorUrl: 'http://127.0.0.1:9',
+      replayStore: new MemoryReplayStore(),
+    });
+    // The sBTC option priced at the STX option's amount is not on offer
+    const mixed = stxRequirements({ asset: SBTC, amount: '1000' });
+
+    const decision = await processPayment(paidRequest(await signedPayload(mixed)));
+
+    expect(decision).toMatchObject({ statusCode: 402, body: { error: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS } });
+  });
+});
+
+describe('withPayment', () => {
+  let facilitator: { url: string; close: () => Promise<void> };
+  beforeAll(async () => {
+    facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+  });
+  afterAll(async () => {
+    await facilitator.close();
+  });
+
+  /**
+   * A Web request for the resource, paid when a payload is given
+   */
+  function webRequest(paymentPayload?: PaymentPayloadV2) {
+    return new Request('http://localhost/resource', {
+      headers: paymentPayload ? { 'payment-signature': encodePayload(paymentPayload) } : {},
+    });
+  }
+
+  it('answers unpaid requests with a 402 Response without calling the handler', async () => {
+    const handler = jest.fn(() => new Response('premium'));
+    const route = withPayment(config, handler);
+
+    const response = await route(webRequest());
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get('payment-required')).toBeTruthy();
+    expect(await response.json()).toMatchObject({ accepts: [stxRequirements()] });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes the settlement to the handler and adds payment-response to its Response', async () => {
+    const route = withPayment(
+      { ...config, facilitatorUrl: facilitator.url, replayStore: new MemoryReplayStore() },
+      (_request, payment) => Response.json({ payer: payment.payer }, { headers: { 'x-custom': 'kept' } })
+    );
+
+    const response = await route(webRequest(await signedPayload(stxRequirements())));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-custom')).toBe('kept');
+    const settlement = JSON.parse(Buffer.from(response.headers.get('payment-response')!, 'base64').toString());
+    expect(await response.json()).toEqual({ payer: settlement.payer });
+  });
+
+  describe('deferred settlement', () => {
+    /**
+     * A deferred route answering with the given status, recording its receipts
+     */
+    function deferredRoute(status: number) {
+      const receiptStore = new MemoryReceiptStore();
+      const route = withPayment(
+        {
+          ...config,
+          facilitatorUrl: facilitator.url,
+          replayStore: new MemoryReplayStore(),
+          settlement: 'deferred',
+          receiptStore,
+        },
+        () => new Response('content', { status })
+      );
+      return { route, receiptStore };
+    }
+
+    /**
+     * Wait for the receipt of a transaction to leave the pending state
+     */
+    async function finalReceipt(receiptStore: MemoryReceiptStore, txId: string) {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const receipt = await receiptStore.get(txId);
+        if (receipt && receipt.status !== 'pending') return receipt;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return receiptStore.get(txId);
+    }
+
+    it('responds with a receipt link and settles after a successful response', async () => {
+      const { route, receiptStore } = deferredRoute(200);
+      const paymentPayload = await signedPayload(stxRequirements());
+      const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction as string);
+
+      const response = await route(webRequest(paymentPayload));
+
+      expect(await response.text()).toBe('content');
+      expect(response.headers.get('payment-receipt')).toBe(`/x402/receipts/${txId}`);
+      expect(await finalReceipt(receiptStore, txId)).toMatchObject({ status: 'settled' });
+    });
+
+    it('does not settle when the handler fails', async () => {
+      const { route, receiptStore } = deferredRoute(500);
+      const paymentPayload = await signedPayload(stxRequirements());
+      const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction as string);
+
+      const response = await route(webRequest(paymentPayload));
+
+      expect(response.status).toBe(500);
+      expect(await finalReceipt(receiptStore, txId)).toMatchObject({ status: 'cancelled' });
+    });
+  });
+});
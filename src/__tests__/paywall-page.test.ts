@@ -0,0 +1,134 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { getTransactionsBundle, renderPaywallPage } from '../paywall-page';
+import { createPaymentProcessor, createPaymentRequiredResponse } from '../payment-processor';
+import { paymentMiddleware } from '../middleware-v2';
+import { PAY_TO, stxRequirements } from './helpers';
+
+const config = {
+  payTo: PAY_TO,
+  amount: '1000',
+  network: 'testnet' as const,
+  facilitatorUrl: 'http://127.0.0.1:9',
+  paywallPage: true,
+};
+
+/**
+ * Read the payment data the page hands to its wallet script
+ */
+function pageData(html: string): Record<string, unknown> {
+  const match = html.match(/<script type="application\/json" id="x402-data">(.*?)<\/script>/s);
+  return JSON.parse(match![1]);
+}
+
+describe('renderPaywallPage', () => {
+  const paymentRequired = createPaymentRequiredResponse('https://api.example.com/premium', config, [stxRequirements()]);
+
+  it('inlines the packaged transactions bundle instead of loading it from a CDN', () => {
+    const html = renderPaywallPage(paymentRequired);
+
+    expect(html).not.toMatch(/<script[^>]+src=/);
+    expect(html).not.toContain('import(');
+    expect(html).toContain(getTransactionsBundle().source.slice(0, 200));
+  });
+
+  it('loads a same-origin bundle pinned by its SRI hash', () => {
+    const { integrity } = getTransactionsBundle();
+    const html = renderPaywallPage(paymentRequired, {
+      transactionsScript: { url: '/x402/transactions.js', integrity },
+    });
+
+    expect(integrity).toMatch(/^sha384-/);
+    expect(html).toContain(`<script src="/x402/transactions.js" integrity="${integrity}" crossorigin="anonymous"></script>`);
+  });
+
+  it.each([
+    [{ url: 'https://cdn.example.com/transactions.js', integrity: 'sha384-abc' }, 'path on this origin'],
+    [{ url: '//cdn.example.com/transactions.js', integrity: 'sha384-abc' }, 'path on this origin'],
+    [{ url: '/x402/transactions.js', integrity: '' }, 'SRI integrity hash'],
+  ])('rejects an unpinned or cross-origin bundle %#', (transactionsScript, message) => {
+    expect(() => renderPaywallPage(paymentRequired, { transactionsScript })).toThrow(message);
+  });
+
+  it('resends the body and content type of the original request', () => {
+    const html = renderPaywallPage(paymentRequired, {}, {
+      method: 'post',
+      body: '{"prompt":"hi"}',
+      contentType: 'application/json',
+    });
+
+    expect(pageData(html)).toMatchObject({
+      method: 'POST',
+      body: '{"prompt":"hi"}',
+      contentType: 'application/json',
+      replayable: true,
+    });
+  });
+
+  it('cannot pay requests whose body is unknown from the page', () => {
+    expect(pageData(renderPaywallPage(paymentRequired, {}, { method: 'PUT' })).replayable).toBe(false);
+    expect(pageData(renderPaywallPage(paymentRequired, {}, { method: 'GET' })).replayable).toBe(true);
+  });
+});
+
+describe('paywall page body replay', () => {
+  it('reads the body of a Web Request', async () => {
+    const processPayment = createPaymentProcessor(config);
+    const request = new Request('https://api.example.com/premium', {
+      method: 'POST',
+      headers: { accept: 'text/html', 'content-type': 'text/plain' },
+      body: 'hello',
+    });
+
+    const decision = await processPayment(request);
+
+    expect(decision.type).toBe('rejected');
+    expect(pageData((decision as { html: string }).html)).toMatchObject({ body: 'hello', contentType: 'text/plain' });
+    // The handler can still read the body
+    await expect(request.text()).resolves.toBe('hello');
+  });
+
+  describe('Express', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const app = express();
+      app.post('/parsed', express.json(), paymentMiddleware(config), (_req, res) => res.end());
+      app.post('/unparsed', paymentMiddleware(config), (_req, res) => res.end());
+
+      server = app.listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const post = (path: string) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { accept: 'text/html', 'content-type': 'application/json' },
+        body: JSON.stringify({ prompt: 'hi' }),
+      });
+
+    it('resends a parsed JSON body', async () => {
+      const response = await post('/parsed');
+
+      expect(response.status).toBe(402);
+      expect(pageData(await response.text())).toMatchObject({
+        body: '{"prompt":"hi"}',
+        contentType: 'application/json',
+        replayable: true,
+      });
+    });
+
+    it('does not offer wallet payment when no body parser ran', async () => {
+      const response = await post('/unparsed');
+
+      expect(pageData(await response.text()).replayable).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { compilePathPattern, createPaywall } from '../paywall';
+import { PAY_TO } from './helpers';
+
+describe('compilePathPattern', () => {
+  it('matches paths case-insensitively, like Express routing', () => {
+    const pattern = compilePathPattern('/api/users/:id/report');
+
+    expect(pattern.test('/api/users/42/report')).toBe(true);
+    expect(pattern.test('/API/Users/42/Report/')).toBe(true);
+    expect(pattern.test('/api/users/42')).toBe(false);
+  });
+});
+
+describe('createPaywall', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(
+      createPaywall({
+        defaults: { payTo: PAY_TO, network: 'testnet', facilitatorUrl: 'http://127.0.0.1:9' },
+        routes: { 'GET /api/weather': { amount: '1000' } },
+      })
+    );
+    app.get('/api/weather', (_req, res) => {
+      res.json({ weather: 'sunny' });
+    });
+    app.get('/api/free', (_req, res) => {
+      res.json({ free: true });
+    });
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it.each(['/api/weather', '/API/weather', '/Api/Weather/'])('gates %s', async (path) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    expect(response.status).toBe(402);
+  });
+
+  it('lets unpriced routes through', async () => {
+    const response = await fetch(`${baseUrl}/api/free`);
+    expect(response.status).toBe(200);
+  });
+});
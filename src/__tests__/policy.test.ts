@@ -0,0 +1,143 @@
+import { PaymentPolicy, PaymentPolicyEnforcer } from '../policy';
+import { PolicyViolationError } from '../errors';
+import { paymentRequiredBody, stxRequirements } from './helpers';
+
+const CUSTOM_TOKEN = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.my-token::my-token';
+const SBTC = 'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token';
+
+/**
+ * Authorize a payment option the way the clients do
+ */
+function authorize(enforcer: PaymentPolicyEnforcer, requirements = stxRequirements()) {
+  return enforcer.authorize(requirements, {
+    url: 'https://api.example.com/resource',
+    paymentRequired: paymentRequiredBody(requirements),
+  });
+}
+
+describe('PaymentPolicyEnforcer', () => {
+  describe('maxAmountPerRequest', () => {
+    const enforcer = new PaymentPolicyEnforcer({ maxAmountPerRequest: { STX: '1000', SBTC: '10' } });
+
+    it('allows payments up to the limit', () => {
+      expect(enforcer.check(stxRequirements({ amount: '1000' }))).toBeNull();
+    });
+
+    it('refuses payments over the limit', () => {
+      expect(enforcer.check(stxRequirements({ amount: '1001' }))).toBe('amount_exceeds_limit');
+    });
+
+    it('applies token symbols to the contract that will be signed', () => {
+      expect(enforcer.check(stxRequirements({ asset: SBTC, amount: '11' }))).toBe('amount_exceeds_limit');
+    });
+
+    it('does not apply the STX limit to other tokens', () => {
+      // The token is signed as a contract call, so the STX limit is not what it spends
+      expect(enforcer.check(stxRequirements({ asset: CUSTOM_TOKEN, amount: '5000000000' }))).toBeNull();
+    });
+  });
+
+  describe('denyUnlistedAssets', () => {
+    const policy: PaymentPolicy = { maxAmountPerRequest: { STX: '1000' }, denyUnlistedAssets: true };
+
+    it('refuses assets without a limit or budget', () => {
+      const enforcer = new PaymentPolicyEnforcer(policy);
+      expect(enforcer.check(stxRequirements({ asset: CUSTOM_TOKEN }))).toBe('asset_not_allowed');
+    });
+
+    it('allows listed assets', () => {
+      const enforcer = new PaymentPolicyEnforcer(policy);
+      expect(enforcer.check(stxRequirements())).toBeNull();
+    });
+
+    it('counts an asset with only a budget as listed', () => {
+      const enforcer = new PaymentPolicyEnforcer({
+        denyUnlistedAssets: true,
+        budgets: [{ asset: CUSTOM_TOKEN, amount: '100', windowMs: 60_000 }],
+      });
+      expect(enforcer.check(stxRequirements({ asset: CUSTOM_TOKEN, amount: '100' }))).toBeNull();
+    });
+  });
+
+  describe('budgets', () => {
+    it('refuses payments once the window is spent', async () => {
+      const enforcer = new PaymentPolicyEnforcer({ budgets: [{ asset: 'STX', amount: '2000', windowMs: 60_000 }] });
+
+      await authorize(enforcer);
+      await authorize(enforcer);
+
+      await expect(authorize(enforcer)).rejects.toMatchObject({ reason: 'budget_exceeded' });
+    });
+
+    it('frees the budget when the window passes', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      try {
+        const enforcer = new PaymentPolicyEnforcer({ budgets: [{ asset: 'STX', amount: '1000', windowMs: 60_000 }] });
+        await authorize(enforcer);
+
+        now.mockReturnValue(1_000_000 + 60_001);
+        await expect(authorize(enforcer)).resolves.toEqual(expect.any(String));
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('releases only the given reservation', async () => {
+      const enforcer = new PaymentPolicyEnforcer({ budgets: [{ asset: 'STX', amount: '2000', windowMs: 60_000 }] });
+
+      const first = await authorize(enforcer);
+      await authorize(enforcer);
+      enforcer.release(first);
+      // Releasing the same reservation twice must not free another request's spend
+      enforcer.release(first);
+
+      await authorize(enforcer);
+      await expect(authorize(enforcer)).rejects.toMatchObject({ reason: 'budget_exceeded' });
+    });
+  });
+
+  describe('onBeforePay', () => {
+    it('refuses payments the hook rejects', async () => {
+      const onBeforePay = jest.fn().mockResolvedValue(false);
+      const enforcer = new PaymentPolicyEnforcer({ onBeforePay });
+
+      const error = await authorize(enforcer).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PolicyViolationError);
+      expect(error.reason).toBe('rejected_by_hook');
+      expect(onBeforePay).toHaveBeenCalledWith(
+        stxRequirements(),
+        expect.objectContaining({ url: 'https://api.example.com/resource' })
+      );
+    });
+
+    it('re-checks budgets reserved while waiting for approval', async () => {
+      let approveFirst: () => void = () => undefined;
+      let calls = 0;
+      const enforcer = new PaymentPolicyEnforcer({
+        budgets: [{ asset: 'STX', amount: '1000', windowMs: 60_000 }],
+        onBeforePay: () =>
+          ++calls === 1 ? new Promise<boolean>((resolve) => (approveFirst = () => resolve(true))) : true,
+      });
+
+      const waiting = authorize(enforcer);
+      // A second payment takes the whole budget while the first awaits approval
+      await authorize(enforcer);
+      approveFirst();
+
+      await expect(waiting).rejects.toMatchObject({ reason: 'budget_exceeded' });
+    });
+  });
+
+  it('refuses recipients and hosts outside the allow-lists', () => {
+    const enforcer = new PaymentPolicyEnforcer({
+      allowedPayTo: ['SP000000000000000000002Q6VF78'],
+      allowedHosts: ['*.example.com'],
+    });
+
+    expect(enforcer.check(stxRequirements(), 'https://api.example.com/x')).toBe('pay_to_not_allowed');
+    expect(
+      new PaymentPolicyEnforcer({ allowedHosts: ['*.example.com'] }).check(stxRequirements(), 'https://evil.test/x')
+    ).toBe('host_not_allowed');
+  });
+});
@@ -0,0 +1,57 @@
+import { getFungibleAssetName } from '../post-conditions';
+import { signPaymentV2 } from '../interceptor-v2';
+import { getDefaultSBTCContract } from '../utils';
+import { decodePaymentTransaction } from '../validator';
+import { payer, stxRequirements } from './helpers';
+
+const CUSTOM_TOKEN = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.wrapped-sbtc';
+// A SIP-010 token whose contract name matches no built-in token type
+const OTHER_TOKEN = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.my-token';
+
+describe('getFungibleAssetName', () => {
+  it('knows the built-in token names', () => {
+    expect(getFungibleAssetName(getDefaultSBTCContract('testnet'))).toBe('sbtc-token');
+  });
+
+  it('uses an explicit asset name', () => {
+    const [address, name] = CUSTOM_TOKEN.split('.');
+    expect(getFungibleAssetName({ address, name, assetName: 'wrapped' })).toBe('wrapped');
+  });
+
+  it('refuses to guess the name of other tokens', () => {
+    const [address, name] = CUSTOM_TOKEN.split('.');
+    expect(() => getFungibleAssetName({ address, name })).toThrow(/set assetName/);
+  });
+});
+
+describe('signPaymentV2 with custom tokens', () => {
+  it('fails before signing when the token name is unknown', async () => {
+    await expect(
+      signPaymentV2(stxRequirements({ asset: CUSTOM_TOKEN }), payer, { nonce: 0n, fee: 200n })
+    ).rejects.toThrow(/Unknown fungible token name/);
+  });
+
+  it('signs when the asset names the token', async () => {
+    const transaction = await signPaymentV2(stxRequirements({ asset: `${CUSTOM_TOKEN}::wrapped` }), payer, {
+      nonce: 0n,
+      fee: 200n,
+    });
+    expect(transaction).toMatch(/^[0-9a-f]+$/);
+  });
+
+  it('pays other SIP-010 tokens with a contract call, not an STX transfer', async () => {
+    const requirements = stxRequirements({ asset: `${OTHER_TOKEN}::my-token`, amount: '5000000000' });
+
+    const decoded = decodePaymentTransaction(await signPaymentV2(requirements, payer, { nonce: 0n, fee: 200n }));
+
+    expect(decoded.asset).toBe(OTHER_TOKEN);
+    expect(decoded.amount).toBe(5000000000n);
+    expect(decoded.recipient).toBe(requirements.payTo);
+  });
+
+  it('refuses other SIP-010 tokens without an asset name', async () => {
+    await expect(
+      signPaymentV2(stxRequirements({ asset: OTHER_TOKEN, amount: '5000000000' }), payer, { nonce: 0n, fee: 200n })
+    ).rejects.toThrow(/Unknown fungible token name/);
+  });
+});
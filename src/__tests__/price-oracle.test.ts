@@ -0,0 +1,54 @@
+import { StaticPriceOracle, getAssetDecimals, parseUsdPrice, usdToAtomicAmount } from '../price-oracle';
+import { createPaymentProcessor } from '../payment-processor';
+import { PAY_TO } from './helpers';
+
+const CUSTOM_TOKEN = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.arkadiko-token';
+
+describe('parseUsdPrice', () => {
+  it('accepts numbers written in exponent form', () => {
+    expect(parseUsdPrice(1e-7)).toBe('0.0000001');
+    expect(parseUsdPrice(1.5e-7)).toBe('0.00000015');
+    expect(parseUsdPrice(2e21)).toBe('2000000000000000000000');
+    expect(parseUsdPrice('$0.01')).toBe('0.01');
+  });
+
+  it('rejects anything that is not a plain amount', () => {
+    expect(() => parseUsdPrice(-1)).toThrow('Invalid USD price');
+    expect(() => parseUsdPrice('1e-7')).toThrow('Invalid USD price');
+  });
+});
+
+describe('usdToAtomicAmount', () => {
+  it('rounds up to the next atomic unit', () => {
+    expect(usdToAtomicAmount('0.01', '0.85', 6)).toBe('11765');
+    expect(usdToAtomicAmount(1e-7, '1', 6)).toBe('1');
+  });
+});
+
+describe('getAssetDecimals', () => {
+  it('knows the built-in assets', () => {
+    expect(getAssetDecimals('STX')).toBe(6);
+    expect(getAssetDecimals('SBTC')).toBe(8);
+    expect(getAssetDecimals('SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token')).toBe(8);
+  });
+
+  it('requires decimals for other tokens', () => {
+    expect(() => getAssetDecimals(CUSTOM_TOKEN)).toThrow('Token decimals required');
+    expect(getAssetDecimals(CUSTOM_TOKEN, 8)).toBe(8);
+  });
+
+  it('refuses to start a USD-priced route whose token decimals are unknown', () => {
+    const config = {
+      payTo: PAY_TO,
+      network: 'mainnet' as const,
+      facilitatorUrl: 'http://127.0.0.1:9',
+      price: '$0.01',
+      priceOracle: new StaticPriceOracle({ [CUSTOM_TOKEN]: '0.5' }),
+    };
+
+    expect(() => createPaymentProcessor({ ...config, accepts: [{ asset: CUSTOM_TOKEN }] })).toThrow(
+      'Token decimals required'
+    );
+    expect(() => createPaymentProcessor({ ...config, accepts: [{ asset: CUSTOM_TOKEN, decimals: 6 }] })).not.toThrow();
+  });
+});
@@ -0,0 +1,195 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { paymentRateLimit } from '../middleware-v2';
+import { MemoryRateLimitStore, RateLimitStore, RedisLikeClient, RedisRateLimitStore } from '../rate-limit-store';
+import { PAY_TO } from './helpers';
+
+/**
+ * An in-memory stand-in for the Redis commands RedisRateLimitStore uses
+ * Keys expire against a controllable clock, like Redis key expiry
+ */
+class FakeRedis implements RedisLikeClient {
+  now = 1_000_000;
+  private values = new Map<string, { value: number; expiresAt: number | null }>();
+
+  private entry(key: string) {
+    const entry = this.values.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= this.now) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.entry(key) || { value: 0, expiresAt: null };
+    entry.value++;
+    this.values.set(key, entry);
+    return entry.value;
+  }
+
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    const entry = this.entry(key);
+    if (!entry) return 0;
+    entry.expiresAt = this.now + milliseconds;
+    return 1;
+  }
+
+  async pttl(key: string): Promise<number> {
+    const entry = this.entry(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - this.now;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entry(key);
+    return entry ? String(entry.value) : null;
+  }
+}
+
+describe('MemoryRateLimitStore', () => {
+  let now: jest.SpyInstance;
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+  });
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('counts requests per key within a window', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.increment('a', 60_000)).toEqual({ count: 1, resetAt: 1_060_000 });
+    expect(await store.increment('a', 60_000)).toEqual({ count: 2, resetAt: 1_060_000 });
+    expect(await store.increment('b', 60_000)).toEqual({ count: 1, resetAt: 1_060_000 });
+    expect(await store.get('a')).toEqual({ count: 2, resetAt: 1_060_000 });
+  });
+
+  it('starts a new window once the old one ends', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('a', 60_000);
+
+    now.mockReturnValue(1_060_000);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.increment('a', 60_000)).toEqual({ count: 1, resetAt: 1_120_000 });
+  });
+
+  it('returns copies that do not change the stored count', async () => {
+    const store = new MemoryRateLimitStore();
+    const record = await store.increment('a', 60_000);
+    record.count = 100;
+
+    expect((await store.get('a'))?.count).toBe(1);
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('counts requests and sets the window expiry on the first one', async () => {
+    const redis = new FakeRedis();
+    const pexpire = jest.spyOn(redis, 'pexpire');
+    const store = new RedisRateLimitStore(redis);
+
+    expect((await store.increment('a', 60_000)).count).toBe(1);
+    expect((await store.increment('a', 60_000)).count).toBe(2);
+
+    expect(pexpire).toHaveBeenCalledTimes(1);
+    expect(pexpire).toHaveBeenCalledWith('x402:ratelimit:a', 60_000);
+    expect((await store.get('a'))?.count).toBe(2);
+  });
+
+  it('starts a new window once the key expires', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis, { keyPrefix: 'test:' });
+    await store.increment('a', 60_000);
+
+    redis.now += 60_000;
+
+    expect(await store.get('a')).toBeNull();
+    expect((await store.increment('a', 60_000)).count).toBe(1);
+  });
+
+  it('restores the expiry of a key left without one', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis);
+    // A crash between INCR and PEXPIRE leaves a counter that never resets
+    await redis.incr('x402:ratelimit:a');
+
+    await store.increment('a', 60_000);
+
+    expect(await redis.pttl('x402:ratelimit:a')).toBe(60_000);
+  });
+
+  it('reports when the window resets', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(5_000);
+    try {
+      const redis = new FakeRedis();
+      const store = new RedisRateLimitStore(redis);
+
+      await store.increment('a', 60_000);
+      redis.now += 20_000;
+
+      expect(await store.get('a')).toEqual({ count: 1, resetAt: 45_000 });
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
+
+describe('paymentRateLimit stores', () => {
+  /**
+   * Serve one rate-limited route counting in the given store
+   */
+  async function startInstance(store: RateLimitStore) {
+    const app = express();
+    app.get(
+      '/resource',
+      paymentRateLimit({
+        freeRequests: 2,
+        windowMs: 60_000,
+        keyGenerator: () => 'client',
+        store,
+        paymentConfig: { payTo: PAY_TO, amount: '1000', network: 'testnet', facilitatorUrl: 'http://127.0.0.1:9' },
+      }),
+      (_req, res) => res.end()
+    );
+
+    const server: Server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    return {
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/resource`,
+      close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+  }
+
+  it('shares the free tier between instances using one Redis store', async () => {
+    const store = new RedisRateLimitStore(new FakeRedis());
+    const instances = [await startInstance(store), await startInstance(store)];
+    try {
+      const statuses = [];
+      for (const instance of [...instances, ...instances]) {
+        statuses.push((await fetch(instance.url)).status);
+      }
+      expect(statuses).toEqual([200, 200, 402, 402]);
+    } finally {
+      await Promise.all(instances.map((instance) => instance.close()));
+    }
+  });
+
+  it('asks for payment when the store fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const instance = await startInstance({
+      increment: async () => {
+        throw new Error('store unavailable');
+      },
+      get: async () => null,
+    });
+    try {
+      expect((await fetch(instance.url)).status).toBe(402);
+    } finally {
+      consoleError.mockRestore();
+      await instance.close();
+    }
+  });
+});
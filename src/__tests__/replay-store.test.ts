@@ -0,0 +1,129 @@
+import { MemoryReplayStore, FileReplayStore, ReplayStoreFullError } from '../replay-store';
+import { createPaymentProcessor } from '../payment-processor';
+import { decodePaymentTransaction } from '../validator';
+import { X402_ERROR_CODES } from '../types-v2';
+import { PAY_TO, encodePayload, signedPayload, startFacilitator, stxRequirements } from './helpers';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const TX_ID = 'ab'.repeat(32);
+
+describe('MemoryReplayStore', () => {
+  it('claims a transaction only once until released', async () => {
+    const store = new MemoryReplayStore();
+
+    expect(await store.claim(TX_ID, 60_000)).toBe(true);
+    expect(await store.claim(`0x${TX_ID.toUpperCase()}`, 60_000)).toBe(false);
+
+    await store.release(TX_ID);
+    expect(await store.claim(TX_ID, 60_000)).toBe(true);
+  });
+
+  it('lets an expired claim be claimed again', async () => {
+    const store = new MemoryReplayStore();
+
+    expect(await store.claim(TX_ID, -1)).toBe(true);
+    expect(await store.claim(TX_ID, 60_000)).toBe(true);
+  });
+
+  it('refuses new transactions when full instead of evicting unexpired ones', async () => {
+    const store = new MemoryReplayStore({ maxEntries: 2 });
+    await store.claim('01', 60_000);
+    await store.claim('02', 60_000);
+
+    await expect(store.claim('03', 60_000)).rejects.toBeInstanceOf(ReplayStoreFullError);
+    expect(await store.claim('01', 60_000)).toBe(false);
+  });
+
+  it('evicts expired entries to make room', async () => {
+    const store = new MemoryReplayStore({ maxEntries: 1 });
+    await store.claim('01', -1);
+
+    expect(await store.claim('02', 60_000)).toBe(true);
+  });
+});
+
+describe('FileReplayStore', () => {
+  it('claims atomically across concurrent first use', async () => {
+    const store = new FileReplayStore(join(mkdtempSync(join(tmpdir(), 'x402-')), 'replay.json'));
+
+    const results = await Promise.all([store.claim(TX_ID, 60_000), store.claim(TX_ID, 60_000)]);
+    expect(results.sort()).toEqual([false, true]);
+  });
+});
+
+describe('payment processor replay protection', () => {
+  it('lets only one of several concurrent requests spend a payment', async () => {
+    const requirements = stxRequirements();
+    const paymentPayload = await signedPayload(requirements);
+    const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction);
+    const broadcast = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { success: true, txId };
+    });
+    const facilitator = await startFacilitator({ broadcast, getTransactionStatus: async () => 'success' });
+
+    try {
+      const processPayment = createPaymentProcessor({
+        payTo: PAY_TO,
+        amount: '1000',
+        network: 'testnet',
+        facilitatorUrl: facilitator.url,
+        replayStore: new MemoryReplayStore(),
+      });
+      const request = {
+        url: 'http://localhost/resource',
+        headers: { 'payment-signature': encodePayload(paymentPayload) },
+      };
+
+      const decisions = await Promise.all([processPayment(request), processPayment(request), processPayment(request)]);
+
+      expect(decisions.filter((decision) => decision.type === 'settled')).toHaveLength(1);
+      const rejected = decisions.filter((decision) => decision.type === 'rejected');
+      expect(rejected).toHaveLength(2);
+      for (const decision of rejected) {
+        expect(decision).toMatchObject({ statusCode: 402, body: { error: X402_ERROR_CODES.INVALID_TRANSACTION_STATE } });
+      }
+      expect(broadcast).toHaveBeenCalledTimes(1);
+    } finally {
+      await facilitator.close();
+    }
+  });
+
+  it('releases the claim when the payment fails, so it can be retried', async () => {
+    const requirements = stxRequirements();
+    const paymentPayload = await signedPayload(requirements);
+    const { txId } = decodePaymentTransaction(paymentPayload.payload.transaction);
+    let accepted = false;
+    const facilitator = await startFacilitator({
+      broadcast: async () => (accepted ? { success: true, txId } : { success: false, txId, error: 'Unavailable' }),
+      getTransactionStatus: async () => 'success',
+    });
+
+    try {
+      const processPayment = createPaymentProcessor({
+        payTo: PAY_TO,
+        amount: '1000',
+        network: 'testnet',
+        facilitatorUrl: facilitator.url,
+        replayStore: new MemoryReplayStore(),
+      });
+      const request = {
+        url: 'http://localhost/resource',
+        headers: { 'payment-signature': encodePayload(paymentPayload) },
+      };
+
+      expect(await processPayment(request)).toMatchObject({
+        type: 'rejected',
+        body: { error: X402_ERROR_CODES.BROADCAST_FAILED },
+      });
+
+      accepted = true;
+      expect(await processPayment(request)).toMatchObject({ type: 'settled' });
+      expect(await processPayment(request)).toMatchObject({ type: 'rejected', statusCode: 402 });
+    } finally {
+      await facilitator.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { decodePaymentRequired } from '../interceptor-v2';
+import { wrapFetchWithPayment } from '../fetch-v2';
+import { validatePaymentRequiredV2 } from '../schema-v2';
+import { assetFromV2 } from '../utils';
+import { PaymentRequirementsV2 } from '../types-v2';
+import { mockStacksApi, payer, paymentRequiredBody, stxRequirements } from './helpers';
+
+// Other chains' options are outside the Stacks types, but can appear in a decoded 402
+const evmOption = {
+  scheme: 'exact',
+  network: 'eip155:8453',
+  amount: '10000',
+  asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USDC', version: '2' },
+} as unknown as PaymentRequirementsV2;
+
+/**
+ * Encode a value as a payment-required header
+ */
+function encodeHeader(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+describe('decodePaymentRequired', () => {
+  it('accepts a 402 that also offers options on other chains', () => {
+    const paymentRequired = paymentRequiredBody(evmOption, stxRequirements());
+
+    expect(decodePaymentRequired(encodeHeader(paymentRequired))).toEqual(paymentRequired);
+  });
+
+  it('still holds Stacks options to the full rules', () => {
+    const paymentRequired = paymentRequiredBody(evmOption, stxRequirements({ payTo: evmOption.payTo }));
+
+    expect(decodePaymentRequired(encodeHeader(paymentRequired))).toBeNull();
+    expect(validatePaymentRequiredV2(paymentRequired)).toEqual([
+      expect.objectContaining({ path: 'paymentRequired.accepts[1].payTo' }),
+    ]);
+  });
+
+  it('requires the generic x402 shape of other options and a valid envelope', () => {
+    const { payTo: _payTo, ...withoutPayTo } = evmOption;
+
+    expect(validatePaymentRequiredV2(paymentRequiredBody(withoutPayTo as PaymentRequirementsV2))).toEqual([
+      expect.objectContaining({ path: 'paymentRequired.accepts[0].payTo' }),
+    ]);
+    expect(validatePaymentRequiredV2({ ...paymentRequiredBody(evmOption), x402Version: 1 })).toHaveLength(1);
+    expect(validatePaymentRequiredV2({ ...paymentRequiredBody(), accepts: [] })).toHaveLength(1);
+  });
+
+  it('accepts token symbols in any case', () => {
+    const paymentRequired = paymentRequiredBody(stxRequirements({ asset: 'sBTC' }));
+
+    expect(decodePaymentRequired(encodeHeader(paymentRequired))).toEqual(paymentRequired);
+    expect(assetFromV2('sBTC').tokenType).toBe('sBTC');
+    expect(assetFromV2('usdcx').tokenType).toBe('USDCx');
+  });
+});
+
+describe('paying a mixed-network 402', () => {
+  it('pays the Stacks option', async () => {
+    const stacksApi = mockStacksApi();
+    try {
+      const header = encodeHeader(paymentRequiredBody(evmOption, stxRequirements()));
+      const fetchFn = jest.fn(async (_input: string | URL | Request, init?: RequestInit) =>
+        new Headers(init?.headers).has('payment-signature')
+          ? new Response('paid')
+          : new Response(null, { status: 402, headers: { 'payment-required': header } })
+      );
+
+      const response = await wrapFetchWithPayment(fetchFn, payer)('http://localhost/resource');
+
+      expect(await response.text()).toBe('paid');
+      const sent = JSON.parse(
+        Buffer.from(new Headers(fetchFn.mock.calls[1][1]?.headers).get('payment-signature')!, 'base64').toString()
+      );
+      expect(sent.accepted.network).toBe(stxRequirements().network);
+    } finally {
+      stacksApi.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { X402PaymentClient } from '../client';
+import { wrapFetchWithPayment } from '../fetch-v2';
+import { NoCompatibleOptionError } from '../errors';
+import { assertSignerNetwork, createPrivateKeySigner } from '../signer';
+import { StacksSigner } from '../types';
+import { PaymentPayloadV2, STACKS_NETWORKS } from '../types-v2';
+import { decodePaymentTransaction } from '../validator';
+import { PAYER_KEY, PAY_TO, mockStacksApi, payer, paymentRequiredBody, stxRequirements } from './helpers';
+
+/**
+ * A signer that keeps its key elsewhere, like a KMS or hardware wallet
+ */
+function customSigner(overrides: Partial<StacksSigner> = {}): StacksSigner {
+  return {
+    address: payer.address,
+    publicKey: payer.publicKey,
+    network: 'testnet',
+    signTransaction: jest.fn((transaction) => payer.signTransaction(transaction)),
+    ...overrides,
+  };
+}
+
+describe('X402PaymentClient signer checks', () => {
+  it('accepts a signer for the configured network', () => {
+    expect(() => new X402PaymentClient({ network: 'testnet', signer: customSigner() })).not.toThrow();
+  });
+
+  it('rejects a signer for another network', () => {
+    expect(() => new X402PaymentClient({ network: 'mainnet', signer: customSigner() })).toThrow(
+      'Signer is for testnet, but the client is configured for mainnet'
+    );
+  });
+
+  it('rejects a signer whose address is not its public key on the network', () => {
+    const mainnetAddress = createPrivateKeySigner(PAYER_KEY, 'mainnet').address;
+
+    expect(() =>
+      new X402PaymentClient({ network: 'testnet', signer: customSigner({ address: mainnetAddress }) })
+    ).toThrow(`Signer address ${mainnetAddress} does not match its public key on testnet`);
+    expect(() => assertSignerNetwork(customSigner({ address: PAY_TO }), 'testnet')).toThrow('does not match');
+  });
+
+  it('rejects a malformed public key', () => {
+    expect(() => assertSignerNetwork(customSigner({ publicKey: 'not-a-key' }), 'testnet')).toThrow(
+      'not a valid Stacks public key'
+    );
+  });
+});
+
+describe('custom signers in wrapFetchWithPayment', () => {
+  let stacksApi: jest.SpyInstance;
+  beforeEach(() => {
+    stacksApi = mockStacksApi();
+  });
+  afterEach(() => {
+    stacksApi.mockRestore();
+  });
+
+  /**
+   * A server asking for the given requirements, recording the payment it receives
+   */
+  function paywalledFetch(requirements = stxRequirements()) {
+    const payments: PaymentPayloadV2[] = [];
+    const fetchFn = jest.fn(async (_input: string | URL | Request, init?: RequestInit) => {
+      const signature = new Headers(init?.headers).get('payment-signature');
+      if (!signature) {
+        return Response.json(paymentRequiredBody(requirements), { status: 402 });
+      }
+      payments.push(JSON.parse(Buffer.from(signature, 'base64').toString()));
+      return Response.json({ ok: true });
+    });
+    return { fetchFn, payments };
+  }
+
+  it('pays with the custom signer', async () => {
+    const signer = customSigner();
+    const { fetchFn, payments } = paywalledFetch();
+
+    const response = await wrapFetchWithPayment(fetchFn, signer)('http://localhost/resource');
+
+    expect(response.status).toBe(200);
+    expect(signer.signTransaction).toHaveBeenCalledTimes(1);
+    expect(decodePaymentTransaction(payments[0].payload.transaction as string)).toMatchObject({
+      payer: payer.address,
+      recipient: PAY_TO,
+      amount: 1000n,
+    });
+  });
+
+  it('does not pay options on another network', async () => {
+    const signer = customSigner();
+    const { fetchFn } = paywalledFetch(stxRequirements({ network: STACKS_NETWORKS.MAINNET }));
+
+    await expect(wrapFetchWithPayment(fetchFn, signer)('http://localhost/resource')).rejects.toBeInstanceOf(
+      NoCompatibleOptionError
+    );
+    expect(signer.signTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+import { createPaymentPayloadV2, signSplitPaymentV2 } from '../interceptor-v2';
+import { wrapFetchWithPayment } from '../fetch-v2';
+import { PaymentPolicyEnforcer } from '../policy';
+import { createPaymentProcessor } from '../payment-processor';
+import { MemoryReplayStore } from '../replay-store';
+import { splitPaymentRequirements } from '../splits';
+import { X402PaymentVerifier } from '../verifier-v2';
+import { decodePaymentTransaction } from '../validator';
+import { PaymentRequirementsV2, X402_ERROR_CODES } from '../types-v2';
+import {
+  OTHER_PAY_TO,
+  PAY_TO,
+  encodePayload,
+  mockStacksApi,
+  payer,
+  paymentRequiredBody,
+  startFacilitator,
+  stxRequirements,
+} from './helpers';
+
+/** 900 to PAY_TO and 100 to OTHER_PAY_TO */
+const balanced = splitPaymentRequirements(stxRequirements(), [{ payTo: OTHER_PAY_TO, share: 0.1 }]);
+
+/** Legs adding up to ten times the advertised amount */
+const unbalanced: PaymentRequirementsV2 = {
+  ...stxRequirements(),
+  extra: {
+    splits: [
+      { payTo: PAY_TO, amount: '1000' },
+      { payTo: OTHER_PAY_TO, amount: '9000' },
+    ],
+  },
+};
+
+let stacksApi: jest.SpyInstance;
+beforeEach(() => {
+  stacksApi = mockStacksApi();
+});
+afterEach(() => {
+  stacksApi.mockRestore();
+});
+
+describe('signSplitPaymentV2', () => {
+  it('refuses a plan whose legs do not add up to the amount', async () => {
+    await expect(signSplitPaymentV2(unbalanced, payer)).rejects.toThrow('do not add up');
+  });
+
+  it('signs one transfer per leg', async () => {
+    const payload = await signSplitPaymentV2(balanced, payer);
+    expect(payload.splits?.map((leg) => [leg.payTo, leg.amount])).toEqual([
+      [PAY_TO, '900'],
+      [OTHER_PAY_TO, '100'],
+    ]);
+  });
+});
+
+describe('PaymentPolicyEnforcer with split payments', () => {
+  it('refuses unbalanced plans', () => {
+    expect(new PaymentPolicyEnforcer({}).check(unbalanced)).toBe('invalid_splits');
+  });
+
+  it('checks allowedPayTo against every leg', () => {
+    expect(new PaymentPolicyEnforcer({ allowedPayTo: [PAY_TO] }).check(balanced)).toBe('pay_to_not_allowed');
+    expect(new PaymentPolicyEnforcer({ allowedPayTo: [PAY_TO, OTHER_PAY_TO] }).check(balanced)).toBeNull();
+  });
+
+  it('does not pay a leg the policy does not allow', async () => {
+    const fetchFn = jest.fn(async () => Response.json(paymentRequiredBody(balanced), { status: 402 }));
+    const fetchWithPayment = wrapFetchWithPayment(fetchFn, payer, { policy: { allowedPayTo: [PAY_TO] } });
+
+    await expect(fetchWithPayment('http://localhost/resource')).rejects.toMatchObject({
+      name: 'PolicyViolationError',
+      reason: 'pay_to_not_allowed',
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('X402PaymentVerifier split settlement', () => {
+  it('broadcasts every leg before waiting for confirmations', async () => {
+    const paymentPayload = await createPaymentPayloadV2(paymentRequiredBody(balanced), balanced, payer);
+    const broadcastsBeforeFirstStatus: number[] = [];
+    const broadcast = jest.fn(async (transaction: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return { success: true, txId: decodePaymentTransaction(transaction).txId };
+    });
+    const facilitator = await startFacilitator({
+      broadcast,
+      getTransactionStatus: async () => {
+        broadcastsBeforeFirstStatus.push(broadcast.mock.calls.length);
+        return 'success';
+      },
+    });
+
+    try {
+      const settlement = await new X402PaymentVerifier(facilitator.url).settle(paymentPayload, {
+        paymentRequirements: balanced,
+      });
+
+      expect(settlement.success).toBe(true);
+      expect(settlement.splits).toHaveLength(2);
+      expect(broadcastsBeforeFirstStatus[0]).toBe(2);
+    } finally {
+      await facilitator.close();
+    }
+  });
+
+  it('lists the paid legs when another leg fails', async () => {
+    const paymentPayload = await createPaymentPayloadV2(paymentRequiredBody(balanced), balanced, payer);
+    const [, feeLeg] = paymentPayload.payload.splits!;
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => {
+        const { txId } = decodePaymentTransaction(transaction);
+        return transaction === feeLeg.transaction
+          ? { success: false, txId, error: 'ConflictingNonceInMempool' }
+          : { success: true, txId };
+      },
+      getTransactionStatus: async () => 'success',
+    });
+
+    try {
+      const settlement = await new X402PaymentVerifier(facilitator.url).settle(paymentPayload, {
+        paymentRequirements: balanced,
+      });
+
+      expect(settlement).toMatchObject({ success: false, errorReason: X402_ERROR_CODES.PARTIAL_SETTLEMENT });
+      expect(settlement.splits?.map((leg) => leg.payTo)).toEqual([PAY_TO]);
+    } finally {
+      await facilitator.close();
+    }
+  });
+
+  it('refuses to settle an unbalanced plan', async () => {
+    const paymentPayload = {
+      x402Version: 2 as const,
+      resource: { url: 'http://localhost/resource' },
+      accepted: unbalanced,
+      payload: { transaction: '' },
+    };
+    const settlement = await new X402PaymentVerifier('http://127.0.0.1:9').settle(paymentPayload, {
+      paymentRequirements: unbalanced,
+    });
+
+    expect(settlement).toMatchObject({ success: false, errorReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS });
+  });
+});
+
+describe('payment processor split settlement', () => {
+  /**
+   * Send a split payment to a processor whose facilitator fails the fee leg's broadcast
+   */
+  async function payWithFailingFeeLeg(failFeeLeg: boolean) {
+    const paymentPayload = await createPaymentPayloadV2(paymentRequiredBody(balanced), balanced, payer);
+    const [, feeLeg] = paymentPayload.payload.splits!;
+    const facilitator = await startFacilitator({
+      broadcast: async (transaction) => {
+        const { txId } = decodePaymentTransaction(transaction);
+        return failFeeLeg && transaction === feeLeg.transaction
+          ? { success: false, txId, error: 'ConflictingNonceInMempool' }
+          : { success: true, txId };
+      },
+      getTransactionStatus: async () => 'success',
+    });
+    const replayStore = new MemoryReplayStore();
+    const processPayment = createPaymentProcessor({
+      payTo: PAY_TO,
+      amount: '1000',
+      network: 'testnet',
+      facilitatorUrl: facilitator.url,
+      splits: [{ payTo: OTHER_PAY_TO, share: 0.1 }],
+      replayStore,
+    });
+    const request = {
+      url: 'http://localhost/resource',
+      headers: { 'payment-signature': encodePayload(paymentPayload) },
+    };
+
+    try {
+      return { first: await processPayment(request), again: await processPayment(request), replayStore, feeLeg };
+    } finally {
+      await facilitator.close();
+    }
+  }
+
+  it('keeps every leg claimed after a partial settlement, so it cannot be submitted again', async () => {
+    const { first, again, replayStore, feeLeg } = await payWithFailingFeeLeg(true);
+
+    expect(first).toMatchObject({ type: 'rejected', body: { error: X402_ERROR_CODES.PARTIAL_SETTLEMENT } });
+    expect(again).toMatchObject({ type: 'rejected', body: { error: X402_ERROR_CODES.INVALID_TRANSACTION_STATE } });
+    expect(await replayStore.get(decodePaymentTransaction(feeLeg.transaction).txId)).not.toBeNull();
+  });
+
+  it('records every leg of a settled split as used', async () => {
+    const { first, replayStore, feeLeg } = await payWithFailingFeeLeg(false);
+
+    expect(first.type).toBe('settled');
+    expect(await replayStore.get(decodePaymentTransaction(feeLeg.transaction).txId)).not.toBeNull();
+  });
+});
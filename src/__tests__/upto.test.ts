@@ -0,0 +1,184 @@
+import { signUptoPaymentV2 } from '../interceptor-v2';
+import { withPayment } from '../payment-processor';
+import { MemoryReplayStore } from '../replay-store';
+import { PaymentPayloadV2, SettlementResponseV2, StacksPayloadV2, X402_ERROR_CODES } from '../types-v2';
+import {
+  UPTO_SCHEME,
+  addUsage,
+  getUptoAmounts,
+  selectUptoAuthorization,
+  validateUptoAuthorizations,
+} from '../upto';
+import { decodePaymentTransaction } from '../validator';
+import { PAY_TO, encodePayload, mockStacksApi, payer, startFacilitator, stxRequirements } from './helpers';
+
+/** Up to 1000 microSTX in steps of 250 */
+const metered = stxRequirements({ scheme: UPTO_SCHEME, extra: { steps: 4 } });
+
+/**
+ * Wrap a signed ladder in a payment payload
+ */
+function uptoPayload(payload: StacksPayloadV2): PaymentPayloadV2 {
+  return { x402Version: 2, resource: { url: 'http://localhost/resource' }, accepted: metered, payload };
+}
+
+let stacksApi: jest.SpyInstance;
+beforeEach(() => {
+  stacksApi = mockStacksApi();
+});
+afterEach(() => {
+  stacksApi.mockRestore();
+});
+
+describe('getUptoAmounts', () => {
+  it('splits the maximum into even steps', () => {
+    expect(getUptoAmounts(metered)).toEqual(['250', '500', '750', '1000']);
+    expect(getUptoAmounts(stxRequirements({ scheme: UPTO_SCHEME }))).toHaveLength(10);
+  });
+
+  it('rounds steps up and drops duplicates of tiny maximums', () => {
+    expect(getUptoAmounts(stxRequirements({ amount: '10', extra: { steps: 3 } }))).toEqual(['4', '7', '10']);
+    expect(getUptoAmounts(stxRequirements({ amount: '2', extra: { steps: 10 } }))).toEqual(['1', '2']);
+  });
+
+  it('caps the number of steps', () => {
+    expect(getUptoAmounts(stxRequirements({ amount: '100000', extra: { steps: 1000 } }))).toHaveLength(100);
+  });
+
+  it('requires a positive maximum', () => {
+    expect(() => getUptoAmounts(stxRequirements({ amount: '0' }))).toThrow('positive maximum');
+  });
+});
+
+describe('selectUptoAuthorization', () => {
+  const authorizations = ['250', '500', '750', '1000'].map((amount) => ({ amount, transaction: `tx-${amount}` }));
+
+  it.each([
+    [1, '250'],
+    [250, '250'],
+    [251, '500'],
+    [499.5, '500'],
+    ['1000', '1000'],
+    [5000n, '1000'],
+  ])('settles %p of usage at the %s step', (usage, amount) => {
+    expect(selectUptoAuthorization(authorizations, usage)?.amount).toBe(amount);
+  });
+
+  it('settles nothing without usage', () => {
+    expect(selectUptoAuthorization(authorizations, 0)).toBeNull();
+  });
+
+  it('adds usage reported in parts', () => {
+    expect(addUsage(addUsage(undefined, 100), '150')).toBe(250n);
+  });
+});
+
+describe('upto ladder validation', () => {
+  it('accepts the ladder signed by the client', async () => {
+    const payload = await signUptoPaymentV2(metered, payer);
+
+    expect(payload.authorizations?.map((authorization) => authorization.amount)).toEqual(getUptoAmounts(metered));
+    expect(validateUptoAuthorizations(uptoPayload(payload), metered)).toEqual({ isValid: true, payer: payer.address });
+  });
+
+  it('rejects a ladder with a step missing', async () => {
+    const payload = await signUptoPaymentV2(metered, payer);
+
+    const result = validateUptoAuthorizations(
+      uptoPayload({ ...payload, authorizations: payload.authorizations!.slice(1) }),
+      metered
+    );
+
+    expect(result).toMatchObject({ isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD });
+  });
+
+  it('rejects steps that could all be mined (different nonces)', async () => {
+    const payload = await signUptoPaymentV2(metered, payer);
+    stacksApi.mockRestore();
+    stacksApi = jest.spyOn(globalThis, 'fetch').mockImplementation(async (input) =>
+      input.toString().includes('/nonces')
+        ? Response.json({ possible_next_nonce: 7 })
+        : Response.json({ estimations: [{ fee: 200 }, { fee: 200 }, { fee: 200 }] })
+    );
+    const other = await signUptoPaymentV2(metered, payer);
+    const authorizations = [other.authorizations![0], ...payload.authorizations!.slice(1)];
+
+    const result = validateUptoAuthorizations(uptoPayload({ ...payload, authorizations }), metered);
+
+    expect(result).toMatchObject({ isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD });
+  });
+});
+
+describe('settling on reported usage', () => {
+  let facilitator: { url: string; close: () => Promise<void> };
+  beforeAll(async () => {
+    facilitator = await startFacilitator({
+      broadcast: async (transaction) => ({ success: true, txId: decodePaymentTransaction(transaction).txId }),
+      getTransactionStatus: async () => 'success',
+    });
+  });
+  afterAll(async () => {
+    await facilitator.close();
+  });
+
+  /**
+   * Pay a metered route whose handler reports the given usage, resolving with the settlement
+   */
+  async function payMetered(report: (reportUsage: (amount: number) => void) => void) {
+    let settled: (settlement: SettlementResponseV2) => void = () => undefined;
+    const settlement = new Promise<SettlementResponseV2>((resolve) => (settled = resolve));
+    const route = withPayment(
+      {
+        payTo: PAY_TO,
+        amount: '1000',
+        scheme: UPTO_SCHEME,
+        extra: { steps: 4 },
+        network: 'testnet',
+        facilitatorUrl: facilitator.url,
+        replayStore: new MemoryReplayStore(),
+        onSettlement: (result) => settled(result),
+      },
+      (_request, _payment, reportUsage) => {
+        report(reportUsage);
+        return new Response('metered');
+      }
+    );
+
+    const payload = await signUptoPaymentV2(metered, payer);
+    const response = await route(
+      new Request('http://localhost/resource', {
+        headers: { 'payment-signature': encodePayload(uptoPayload(payload)) },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const txIds = Object.fromEntries(
+      payload.authorizations!.map((authorization) => [
+        authorization.amount,
+        decodePaymentTransaction(authorization.transaction).txId,
+      ])
+    );
+    return { settlement: await settlement, txIds };
+  }
+
+  it('settles the smallest step covering the reported usage', async () => {
+    const { settlement, txIds } = await payMetered((reportUsage) => {
+      reportUsage(200);
+      reportUsage(100);
+    });
+
+    expect(settlement).toMatchObject({ success: true, amount: '500', transaction: txIds['500'] });
+  });
+
+  it('settles the maximum when the handler reports nothing', async () => {
+    const { settlement, txIds } = await payMetered(() => undefined);
+
+    expect(settlement).toMatchObject({ success: true, amount: '1000', transaction: txIds['1000'] });
+  });
+
+  it('settles nothing for zero usage', async () => {
+    const { settlement } = await payMetered((reportUsage) => reportUsage(0));
+
+    expect(settlement).toMatchObject({ amount: '0', transaction: '' });
+  });
+});
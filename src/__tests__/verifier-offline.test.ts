@@ -0,0 +1,70 @@
+import { deserializeTransaction } from '@stacks/transactions';
+import { X402PaymentVerifier } from '../verifier-v2';
+import { PaymentPayloadV2, STACKS_NETWORKS, X402_ERROR_CODES } from '../types-v2';
+import { OTHER_PAY_TO, payer, signedPayload, stxRequirements } from './helpers';
+
+const SBTC = 'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token';
+
+// Nothing listens here, so any facilitator request fails the test
+const verifier = new X402PaymentVerifier('http://127.0.0.1:9', { mode: 'offline' });
+
+describe('X402PaymentVerifier offline mode', () => {
+  let payment: PaymentPayloadV2;
+  beforeAll(async () => {
+    payment = await signedPayload(stxRequirements());
+  });
+
+  it('accepts a payment matching the requirements without a facilitator', async () => {
+    await expect(verifier.verify(payment, { paymentRequirements: stxRequirements() })).resolves.toEqual({
+      isValid: true,
+      payer: payer.address,
+    });
+  });
+
+  it('accepts an overpayment', async () => {
+    const result = await verifier.verify(payment, { paymentRequirements: stxRequirements({ amount: '999' }) });
+    expect(result.isValid).toBe(true);
+  });
+
+  it('accepts a SIP-010 transfer of the required token', async () => {
+    const requirements = stxRequirements({ asset: SBTC, amount: '50' });
+    const result = await verifier.verify(await signedPayload(requirements), { paymentRequirements: requirements });
+    expect(result).toEqual({ isValid: true, payer: payer.address });
+  });
+
+  it.each([
+    ['another recipient', { payTo: OTHER_PAY_TO }, X402_ERROR_CODES.RECIPIENT_MISMATCH],
+    ['a larger amount', { amount: '1001' }, X402_ERROR_CODES.AMOUNT_INSUFFICIENT],
+    ['another network', { network: STACKS_NETWORKS.MAINNET }, X402_ERROR_CODES.INVALID_NETWORK],
+    ['another asset', { asset: SBTC }, X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS],
+    ['another scheme', { scheme: 'upto' }, X402_ERROR_CODES.UNSUPPORTED_SCHEME],
+  ])('rejects a payment when the requirements ask for %s', async (_name, overrides, invalidReason) => {
+    const result = await verifier.verify(payment, { paymentRequirements: stxRequirements(overrides) });
+    expect(result).toMatchObject({ isValid: false, invalidReason });
+  });
+
+  it('rejects a transaction whose signature does not cover its contents', async () => {
+    const transaction = deserializeTransaction(payment.payload.transaction as string);
+    (transaction.payload as { amount: bigint }).amount = 1_000_000n;
+    const tampered = { ...payment, payload: { transaction: Buffer.from(transaction.serialize()).toString('hex') } };
+
+    const result = await verifier.verify(tampered, { paymentRequirements: stxRequirements() });
+
+    expect(result).toMatchObject({ isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD });
+  });
+
+  it('rejects a payload that is not a transaction', async () => {
+    const result = await verifier.verify(
+      { ...payment, payload: { transaction: 'not-hex' } },
+      { paymentRequirements: stxRequirements() }
+    );
+    expect(result).toMatchObject({ isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD });
+  });
+
+  it('requires payment post-conditions when asked', async () => {
+    const strict = new X402PaymentVerifier('http://127.0.0.1:9', { mode: 'offline', requirePostConditions: true });
+    const result = await strict.verify(payment, { paymentRequirements: stxRequirements() });
+    // Payments signed by this library carry them
+    expect(result.isValid).toBe(true);
+  });
+});
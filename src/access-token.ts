@@ -0,0 +1,208 @@
+/**
+ * x402-stacks - Time-Boxed Access Tokens
+ * HMAC-signed bearer tokens that grant access for a while after a single payment
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NetworkV2, PaymentRequirementsV2 } from './types-v2';
+import { RateLimitStore, MemoryRateLimitStore } from './rate-limit-store';
+
+/**
+ * Header carrying an access token (response: issued token, request: token to redeem)
+ * Requests may also send the token as `Authorization: Bearer <token>`
+ */
+export const ACCESS_TOKEN_HEADER = 'payment-access-token';
+
+/**
+ * Access token settings for paymentMiddleware
+ */
+export interface AccessTokenConfig {
+  /** Secret used to sign tokens (HMAC-SHA256); share it across instances */
+  secret: string;
+
+  /** How long a token stays valid in seconds (default: 600) */
+  ttlSeconds?: number;
+
+  /** Maximum requests a token can be redeemed for, excluding the paid request (default: unlimited) */
+  maxRequests?: number;
+
+  /**
+   * Store counting redemptions of request-limited tokens (default: shared in-memory store)
+   * Use a shared store such as RedisRateLimitStore so maxRequests holds across instances
+   */
+  redemptionStore?: RateLimitStore;
+
+  /** Scope the token is bound to (default: the resource path) */
+  scope?: string;
+}
+
+/**
+ * Claims carried by an access token (JWT registered names where they exist)
+ */
+export interface AccessTokenClaims {
+  /** Payer address */
+  sub: string;
+  /** Route scope the token grants access to */
+  scope: string;
+  /** Network the payment was settled on */
+  net: NetworkV2;
+  /** Transaction ID of the payment that bought the token */
+  jti: string;
+  /** Issued at (Unix seconds) */
+  iat: number;
+  /** Expires at (Unix seconds) */
+  exp: number;
+  /** Maximum number of redemptions, if limited */
+  max?: number;
+  /** Requirements the payment was made against (set by the payment processor) */
+  req?: PaymentRequirementsV2;
+}
+
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Encode bytes or a string as base64url
+ */
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Compute the signature for a token's header and payload segments
+ */
+function sign(unsigned: string, secret: string): string {
+  return createHmac('sha256', secret).update(unsigned).digest('base64url');
+}
+
+/**
+ * Issue a signed access token
+ */
+export function issueAccessToken(claims: AccessTokenClaims, secret: string): string {
+  const unsigned = `${base64url(JSON.stringify(TOKEN_HEADER))}.${base64url(JSON.stringify(claims))}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * Read an access token's claims without checking its signature
+ * For clients deciding how long to cache a token; servers must use verifyAccessToken
+ */
+export function decodeAccessToken(token: string): AccessTokenClaims | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as AccessTokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an access token's signature, expiry and (optionally) scope
+ * Returns the claims, or null if the token is not valid
+ */
+export function verifyAccessToken(token: string, secret: string, scope?: string): AccessTokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`, secret));
+  const actual = Buffer.from(parts[2]);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const claims = decodeAccessToken(token);
+  if (!claims || typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    return null;
+  }
+
+  if (scope !== undefined && claims.scope !== scope) {
+    return null;
+  }
+
+  return claims;
+}
+
+let defaultRedemptionStore: RateLimitStore | null = null;
+
+/**
+ * Get the process-wide default redemption store (in-memory)
+ */
+function getDefaultRedemptionStore(): RateLimitStore {
+  if (!defaultRedemptionStore) {
+    defaultRedemptionStore = new MemoryRateLimitStore();
+  }
+  return defaultRedemptionStore;
+}
+
+/**
+ * Record a redemption of a token, resolving false once its request limit is used up
+ * The count is kept until the token expires
+ */
+export async function redeemAccessToken(
+  claims: AccessTokenClaims,
+  store: RateLimitStore = getDefaultRedemptionStore()
+): Promise<boolean> {
+  if (claims.max === undefined) {
+    return true;
+  }
+
+  const ttlMs = Math.max(claims.exp * 1000 - Date.now(), 1);
+  const { count } = await store.increment(`access-token:${claims.jti}`, ttlMs);
+  return count <= claims.max;
+}
+
+/**
+ * Client-side cache of access tokens, keyed by resource URL (origin and path)
+ */
+export class AccessTokenCache {
+  private tokens = new Map<string, { token: string; expiresAt: number }>();
+
+  /**
+   * Cache key for a URL: origin and path, ignoring the query string
+   */
+  private key(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get a still-valid token for a URL
+   */
+  get(url: string): string | undefined {
+    const key = this.key(url);
+    const entry = key ? this.tokens.get(key) : undefined;
+
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.tokens.delete(key as string);
+      return undefined;
+    }
+
+    return entry.token;
+  }
+
+  /**
+   * Remember a token issued for a URL
+   */
+  set(url: string, token: string): void {
+    const key = this.key(url);
+    const claims = decodeAccessToken(token);
+    if (!key || !claims || typeof claims.exp !== 'number') return;
+
+    this.tokens.set(key, { token, expiresAt: claims.exp * 1000 });
+  }
+
+  /**
+   * Forget the token for a URL (e.g. when the server no longer accepts it)
+   */
+  delete(url: string): void {
+    const key = this.key(url);
+    if (key) this.tokens.delete(key);
+  }
+}
@@ -4,19 +4,18 @@
  */
 
 import {
-  makeSTXTokenTransfer,
-  makeContractCall,
+  makeUnsignedSTXTokenTransfer,
+  makeUnsignedContractCall,
   broadcastTransaction,
   AnchorMode,
   PostConditionMode,
   TxBroadcastResult,
+  StacksTransaction as StacksTransactionInstance,
   uintCV,
   principalCV,
   someCV,
   noneCV,
   bufferCVFromString,
-  getAddressFromPrivateKey,
-  TransactionVersion,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet, StacksNetwork } from '@stacks/network';
 import axios, { AxiosInstance } from 'axios';
@@ -27,20 +26,30 @@ import {
   X402PaymentRequired,
   X402ClientConfig,
   NetworkType,
-  TokenType,
+  StacksSigner,
 } from './types';
+import { createPrivateKeySigner, assertSignerNetwork } from './signer';
+import { createPaymentPostConditions, applyPaymentPostConditions } from './post-conditions';
 
 /**
  * Payment client for making x402 payments on Stacks
  */
 export class X402PaymentClient {
   private network: StacksNetwork;
-  private privateKey: string;
+  private signer: StacksSigner;
   private httpClient: AxiosInstance;
 
   constructor(config: X402ClientConfig) {
     this.network = this.getNetworkInstance(config.network);
-    this.privateKey = config.privateKey;
+
+    if (config.signer) {
+      assertSignerNetwork(config.signer, config.network);
+      this.signer = config.signer;
+    } else if (config.privateKey) {
+      this.signer = createPrivateKeySigner(config.privateKey, config.network);
+    } else {
+      throw new Error('X402PaymentClient requires a privateKey or signer');
+    }
 
     this.httpClient = axios.create({
       timeout: config.timeout || 30000,
@@ -57,6 +66,108 @@ export class X402PaymentClient {
     return network === 'mainnet' ? new StacksMainnet() : new StacksTestnet();
   }
 
+  /**
+   * Resolve the Stacks network instance for payment details
+   */
+  private resolveNetwork(details: PaymentDetails): StacksNetwork {
+    return typeof details.network === 'string'
+      ? this.getNetworkInstance(details.network)
+      : details.network;
+  }
+
+  /**
+   * Build and sign an STX token transfer with the configured signer
+   */
+  private async buildSTXTransfer(details: PaymentDetails): Promise<StacksTransactionInstance> {
+    const unsignedTransaction = await makeUnsignedSTXTokenTransfer({
+      recipient: details.recipient,
+      amount: details.amount,
+      publicKey: this.signer.publicKey,
+      network: this.resolveNetwork(details),
+      memo: details.memo || '',
+      anchorMode: AnchorMode.Any,
+      ...(details.nonce !== undefined && { nonce: details.nonce }),
+      ...(details.fee !== undefined && { fee: details.fee }),
+    });
+    applyPaymentPostConditions(
+      unsignedTransaction,
+      createPaymentPostConditions(this.signer.address, details.amount)
+    );
+
+    return this.signer.signTransaction(unsignedTransaction);
+  }
+
+  /**
+   * Build and sign a SIP-010 token transfer (sBTC, USDCx) with the configured signer
+   */
+  private async buildTokenTransfer(
+    details: PaymentDetails,
+    tokenName: string
+  ): Promise<StacksTransactionInstance> {
+    // Validate token contract
+    if (!details.tokenContract) {
+      throw new Error(`Token contract required for ${tokenName} transfers`);
+    }
+
+    const { address: contractAddress, name: contractName } = details.tokenContract;
+
+    // Build function arguments for SIP-010 transfer
+    // transfer function signature: (amount uint) (sender principal) (recipient principal) (memo (optional (buff 34)))
+    const functionArgs = [
+      uintCV(details.amount.toString()),
+      principalCV(this.signer.address),
+      principalCV(details.recipient),
+      details.memo ? someCV(bufferCVFromString(details.memo)) : noneCV(),
+    ];
+
+    const unsignedTransaction = await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: 'transfer',
+      functionArgs,
+      publicKey: this.signer.publicKey,
+      network: this.resolveNetwork(details),
+      anchorMode: AnchorMode.Any,
+      // Deny any asset movement beyond the exact payment amount
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: createPaymentPostConditions(this.signer.address, details.amount, details.tokenContract),
+      ...(details.nonce !== undefined && { nonce: details.nonce }),
+      ...(details.fee !== undefined && { fee: details.fee }),
+    });
+
+    return this.signer.signTransaction(unsignedTransaction);
+  }
+
+  /**
+   * Broadcast a signed transaction and map the node response
+   */
+  private async broadcast(
+    transaction: StacksTransactionInstance,
+    details: PaymentDetails
+  ): Promise<PaymentResult> {
+    const broadcastResponse: TxBroadcastResult = await broadcastTransaction(
+      transaction,
+      this.resolveNetwork(details)
+    );
+
+    // Check for errors in broadcast response
+    const txRaw = Buffer.from(transaction.serialize()).toString('hex');
+    if ('error' in broadcastResponse) {
+      return {
+        txId: '',
+        txRaw,
+        success: false,
+        error: broadcastResponse.error,
+      };
+    }
+
+    return {
+      txId: broadcastResponse.txid,
+      txRaw,
+      success: true,
+    };
+  }
+
   /**
    * Sign a payment based on x402 payment request (without broadcasting)
    * Returns the signed transaction hex to be sent to the facilitator
@@ -69,7 +180,6 @@ export class X402PaymentClient {
       const paymentDetails: PaymentDetails = {
         recipient: paymentRequest.payTo,
         amount,
-        senderKey: this.privateKey,
         network: paymentRequest.network,
         memo: paymentRequest.nonce.substring(0, 34), // Max 34 bytes for Stacks memo
         tokenType,
@@ -104,7 +214,6 @@ export class X402PaymentClient {
       const paymentDetails: PaymentDetails = {
         recipient: paymentRequest.payTo,
         amount,
-        senderKey: this.privateKey,
         network: paymentRequest.network,
         memo: paymentRequest.nonce.substring(0, 34), // Max 34 bytes for Stacks memo
         tokenType,
@@ -133,39 +242,15 @@ export class X402PaymentClient {
    */
   async signSTXTransfer(details: PaymentDetails): Promise<SignedPaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Get sender address from private key
-      const senderAddress = getAddressFromPrivateKey(
-        details.senderKey,
-        network instanceof StacksMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      // Build transaction options
-      const txOptions = {
-        recipient: details.recipient,
-        amount: details.amount,
-        senderKey: this.privateKey,
-        network,
-        memo: details.memo || '',
-        anchorMode: AnchorMode.Any,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
       // Create transaction (signed but not broadcast)
-      const transaction = await makeSTXTokenTransfer(txOptions);
+      const transaction = await this.buildSTXTransfer(details);
 
       // Return the signed transaction hex
       const serialized = transaction.serialize();
       return {
         signedTransaction: Buffer.from(serialized).toString('hex'),
         success: true,
-        senderAddress,
+        senderAddress: this.signer.address,
       };
     } catch (error) {
       return {
@@ -181,56 +266,15 @@ export class X402PaymentClient {
    */
   async signSBTCTransfer(details: PaymentDetails): Promise<SignedPaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Get sender address from private key
-      const senderAddress = getAddressFromPrivateKey(
-        details.senderKey,
-        network instanceof StacksMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      // Validate token contract
-      if (!details.tokenContract) {
-        throw new Error('Token contract required for sBTC transfers');
-      }
-
-      const { address: contractAddress, name: contractName } = details.tokenContract;
-
-      // Build function arguments for SIP-010 transfer
-      const functionArgs = [
-        uintCV(details.amount.toString()),
-        principalCV(senderAddress),
-        principalCV(details.recipient),
-        details.memo ? someCV(bufferCVFromString(details.memo)) : noneCV(),
-      ];
-
-      // Build transaction options
-      const txOptions = {
-        contractAddress,
-        contractName,
-        functionName: 'transfer',
-        functionArgs,
-        senderKey: this.privateKey,
-        network,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Allow,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
       // Create transaction (signed but not broadcast)
-      const transaction = await makeContractCall(txOptions);
+      const transaction = await this.buildTokenTransfer(details, 'sBTC');
 
       // Return the signed transaction hex
       const serialized = transaction.serialize();
       return {
         signedTransaction: Buffer.from(serialized).toString('hex'),
         success: true,
-        senderAddress,
+        senderAddress: this.signer.address,
       };
     } catch (error) {
       return {
@@ -246,49 +290,9 @@ export class X402PaymentClient {
    */
   async sendSTXTransfer(details: PaymentDetails): Promise<PaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Build transaction options
-      const txOptions = {
-        recipient: details.recipient,
-        amount: details.amount,
-        senderKey: this.privateKey,
-        network,
-        memo: details.memo || '',
-        anchorMode: AnchorMode.Any,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
-      // Create transaction
-      const transaction = await makeSTXTokenTransfer(txOptions);
-
-      // Broadcast transaction
-      const broadcastResponse: TxBroadcastResult = await broadcastTransaction(
-        transaction,
-        network
-      );
-
-      // Check for errors in broadcast response
-      const txRaw = Buffer.from(transaction.serialize()).toString('hex');
-      if ('error' in broadcastResponse) {
-        return {
-          txId: '',
-          txRaw,
-          success: false,
-          error: broadcastResponse.error,
-        };
-      }
-
-      return {
-        txId: broadcastResponse.txid,
-        txRaw,
-        success: true,
-      };
+      // Create and broadcast transaction
+      const transaction = await this.buildSTXTransfer(details);
+      return await this.broadcast(transaction, details);
     } catch (error) {
       return {
         txId: '',
@@ -304,73 +308,9 @@ export class X402PaymentClient {
    */
   async sendSBTCTransfer(details: PaymentDetails): Promise<PaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Get sender address from private key
-      const senderAddress = getAddressFromPrivateKey(
-        details.senderKey,
-        network instanceof StacksMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      // Validate token contract
-      if (!details.tokenContract) {
-        throw new Error('Token contract required for sBTC transfers');
-      }
-
-      const { address: contractAddress, name: contractName } = details.tokenContract;
-
-      // Build function arguments for SIP-010 transfer
-      // transfer function signature: (amount uint) (sender principal) (recipient principal) (memo (optional (buff 34)))
-      const functionArgs = [
-        uintCV(details.amount.toString()),
-        principalCV(senderAddress),
-        principalCV(details.recipient),
-        details.memo ? someCV(bufferCVFromString(details.memo)) : noneCV(),
-      ];
-
-      // Build transaction options
-      const txOptions = {
-        contractAddress,
-        contractName,
-        functionName: 'transfer',
-        functionArgs,
-        senderKey: this.privateKey,
-        network,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Allow,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
-      // Create transaction
-      const transaction = await makeContractCall(txOptions);
-
-      // Broadcast transaction
-      const broadcastResponse: TxBroadcastResult = await broadcastTransaction(
-        transaction,
-        network
-      );
-
-      // Check for errors in broadcast response
-      const txRaw = Buffer.from(transaction.serialize()).toString('hex');
-      if ('error' in broadcastResponse) {
-        return {
-          txId: '',
-          txRaw,
-          success: false,
-          error: broadcastResponse.error,
-        };
-      }
-
-      return {
-        txId: broadcastResponse.txid,
-        txRaw,
-        success: true,
-      };
+      // Create and broadcast transaction
+      const transaction = await this.buildTokenTransfer(details, 'sBTC');
+      return await this.broadcast(transaction, details);
     } catch (error) {
       return {
         txId: '',
@@ -387,56 +327,15 @@ export class X402PaymentClient {
    */
   async signUSDCxTransfer(details: PaymentDetails): Promise<SignedPaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Get sender address from private key
-      const senderAddress = getAddressFromPrivateKey(
-        details.senderKey,
-        network instanceof StacksMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      // Validate token contract
-      if (!details.tokenContract) {
-        throw new Error('Token contract required for USDCx transfers');
-      }
-
-      const { address: contractAddress, name: contractName } = details.tokenContract;
-
-      // Build function arguments for SIP-010 transfer
-      const functionArgs = [
-        uintCV(details.amount.toString()),
-        principalCV(senderAddress),
-        principalCV(details.recipient),
-        details.memo ? someCV(bufferCVFromString(details.memo)) : noneCV(),
-      ];
-
-      // Build transaction options
-      const txOptions = {
-        contractAddress,
-        contractName,
-        functionName: 'transfer',
-        functionArgs,
-        senderKey: this.privateKey,
-        network,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Allow,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
       // Create transaction (signed but not broadcast)
-      const transaction = await makeContractCall(txOptions);
+      const transaction = await this.buildTokenTransfer(details, 'USDCx');
 
       // Return the signed transaction hex
       const serialized = transaction.serialize();
       return {
         signedTransaction: Buffer.from(serialized).toString('hex'),
         success: true,
-        senderAddress,
+        senderAddress: this.signer.address,
       };
     } catch (error) {
       return {
@@ -453,73 +352,9 @@ export class X402PaymentClient {
    */
   async sendUSDCxTransfer(details: PaymentDetails): Promise<PaymentResult> {
     try {
-      // Determine network
-      const network =
-        typeof details.network === 'string'
-          ? this.getNetworkInstance(details.network)
-          : details.network;
-
-      // Get sender address from private key
-      const senderAddress = getAddressFromPrivateKey(
-        details.senderKey,
-        network instanceof StacksMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet
-      );
-
-      // Validate token contract
-      if (!details.tokenContract) {
-        throw new Error('Token contract required for USDCx transfers');
-      }
-
-      const { address: contractAddress, name: contractName } = details.tokenContract;
-
-      // Build function arguments for SIP-010 transfer
-      // transfer function signature: (amount uint) (sender principal) (recipient principal) (memo (optional (buff 34)))
-      const functionArgs = [
-        uintCV(details.amount.toString()),
-        principalCV(senderAddress),
-        principalCV(details.recipient),
-        details.memo ? someCV(bufferCVFromString(details.memo)) : noneCV(),
-      ];
-
-      // Build transaction options
-      const txOptions = {
-        contractAddress,
-        contractName,
-        functionName: 'transfer',
-        functionArgs,
-        senderKey: this.privateKey,
-        network,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Allow,
-        ...(details.nonce !== undefined && { nonce: details.nonce }),
-        ...(details.fee !== undefined && { fee: details.fee }),
-      };
-
-      // Create transaction
-      const transaction = await makeContractCall(txOptions);
-
-      // Broadcast transaction
-      const broadcastResponse: TxBroadcastResult = await broadcastTransaction(
-        transaction,
-        network
-      );
-
-      // Check for errors in broadcast response
-      const txRaw = Buffer.from(transaction.serialize()).toString('hex');
-      if ('error' in broadcastResponse) {
-        return {
-          txId: '',
-          txRaw,
-          success: false,
-          error: broadcastResponse.error,
-        };
-      }
-
-      return {
-        txId: broadcastResponse.txid,
-        txRaw,
-        success: true,
-      };
+      // Create and broadcast transaction
+      const transaction = await this.buildTokenTransfer(details, 'USDCx');
+      return await this.broadcast(transaction, details);
     } catch (error) {
       return {
         txId: '',
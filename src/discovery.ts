@@ -0,0 +1,220 @@
+/**
+ * x402-stacks - Resource Discovery
+ * A well-known endpoint listing every paid resource, so clients can find out what a server
+ * sells without triggering a 402 on each path (after the x402 "bazaar" discovery idea)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { NetworkV2, PaymentRequirementsV2, ResourceInfo } from './types-v2';
+import { PaidRouteSource, PaywallRoute, getPaidRoutes } from './paywall';
+import { isUsdPriced, quotePaymentRequirements } from './payment-processor';
+import { assetFromV2, networkToCAIP2 } from './utils';
+
+/** Default path of the discovery endpoint */
+export const DISCOVERY_PATH = '/.well-known/x402';
+
+/**
+ * A paid resource as listed by the discovery endpoint
+ */
+export interface DiscoveredResourceV2 {
+  /** The resource (url is absolute; on parameterized routes it still holds the pattern segments) */
+  resource: ResourceInfo;
+  /** Route path pattern the resource is priced on (":param", "*" and "**" as in paywall routes) */
+  pathPattern: string;
+  /** Methods the resource is priced for (uppercase), or null for any method */
+  methods: string[] | null;
+  /** Payment options offered (USD-priced resources are quoted at request time) */
+  accepts: PaymentRequirementsV2[];
+}
+
+/**
+ * Response body of the discovery endpoint
+ */
+export interface DiscoveryResponseV2 {
+  /** Protocol version */
+  x402Version: 2;
+  /** One page of paid resources */
+  items: DiscoveredResourceV2[];
+  /** Position of the page within all matching resources */
+  pagination: {
+    limit: number;
+    offset: number;
+    total: number;
+  };
+}
+
+/**
+ * Query parameters accepted by the discovery endpoint
+ */
+export interface DiscoveryQuery {
+  /** Page size */
+  limit?: string | number;
+  /** Number of matching resources to skip */
+  offset?: string | number;
+  /** Only list options in this asset (V2 identifier or token symbol, e.g. "STX", "sBTC") */
+  asset?: string;
+  /** Only list options on this network (CAIP-2, "mainnet" or "testnet") */
+  network?: string;
+}
+
+/**
+ * Options for the discovery endpoint
+ */
+export interface DiscoveryOptions {
+  /** Path the endpoint answers on (default: "/.well-known/x402") */
+  path?: string;
+  /** Absolute origin prepended to route paths (default: the origin of the discovery request) */
+  baseUrl?: string;
+  /** Page size when the query sets none (default: 50) */
+  defaultLimit?: number;
+  /** Largest page size a query may ask for (default: 500) */
+  maxLimit?: number;
+}
+
+/**
+ * Parse a non-negative integer query value, falling back when absent or invalid
+ */
+function parseCount(value: string | number | undefined, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read a single query value (repeated parameters use the first occurrence)
+ */
+function queryValue(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+}
+
+/**
+ * Normalize a network filter to CAIP-2 ("mainnet" and "testnet" are accepted)
+ */
+function toNetworkFilter(network: string): NetworkV2 | string {
+  return network === 'mainnet' || network === 'testnet' ? networkToCAIP2(network) : network;
+}
+
+/**
+ * Check whether an option is in the asset a filter names
+ * Filters match the exact identifier, or the token type ("sBTC" matches any sBTC contract)
+ */
+function assetMatches(requirements: PaymentRequirementsV2, asset: string): boolean {
+  if (requirements.asset === asset) {
+    return true;
+  }
+  return assetFromV2(requirements.asset).tokenType.toLowerCase() === asset.toLowerCase();
+}
+
+/**
+ * Get the options a route offers right now (quoting USD-priced routes)
+ */
+async function getRouteAccepts(route: PaywallRoute): Promise<PaymentRequirementsV2[]> {
+  if (!isUsdPriced(route.config)) {
+    return route.requirements;
+  }
+
+  try {
+    return await quotePaymentRequirements(route.config);
+  } catch (error) {
+    console.error(`x402 discovery could not quote ${route.key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build a discovery response for the paid routes of an app
+ * Filters narrow each resource's accepts to matching options; resources left with none are omitted
+ *
+ * @param options.baseUrl - Absolute origin prepended to route paths (e.g. "https://api.example.com")
+ * @throws Error if baseUrl is not an absolute http(s) URL
+ */
+export async function listPaidResources(
+  source: PaidRouteSource,
+  query: DiscoveryQuery,
+  options: Omit<DiscoveryOptions, 'path' | 'baseUrl'> & { baseUrl: string }
+): Promise<DiscoveryResponseV2> {
+  const maxLimit = options.maxLimit ?? 500;
+  const limit = Math.min(parseCount(query.limit, options.defaultLimit ?? 50), maxLimit);
+  const offset = parseCount(query.offset, 0);
+  const network = query.network ? toNetworkFilter(query.network) : undefined;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  if (!/^https?:\/\/[^/]+/.test(baseUrl)) {
+    throw new Error(`x402 discovery baseUrl must be an absolute http(s) URL, got "${options.baseUrl}"`);
+  }
+
+  const resources = await Promise.all(
+    getPaidRoutes(source).map(async (route): Promise<DiscoveredResourceV2> => {
+      const accepts = (await getRouteAccepts(route)).filter(
+        (requirements) =>
+          (!network || requirements.network === network) &&
+          (!query.asset || assetMatches(requirements, query.asset))
+      );
+
+      return {
+        resource: {
+          url: `${baseUrl}${route.path}`,
+          ...(route.config.description && { description: route.config.description }),
+          ...(route.config.mimeType && { mimeType: route.config.mimeType }),
+        },
+        pathPattern: route.path,
+        methods: route.methods,
+        accepts,
+      };
+    })
+  );
+
+  // Unfiltered listings keep USD-priced routes whose quote failed, so they are still discoverable
+  const matching = network || query.asset ? resources.filter((resource) => resource.accepts.length > 0) : resources;
+
+  return {
+    x402Version: 2,
+    items: matching.slice(offset, offset + limit),
+    pagination: { limit, offset, total: matching.length },
+  };
+}
+
+/**
+ * Express middleware serving the discovery endpoint (GET /.well-known/x402 by default)
+ * Routes are read on every request, so the middleware can be mounted before the routes it lists
+ *
+ * Query parameters: limit, offset, asset ("STX", "sBTC" or a contract identifier),
+ * network ("stacks:1", "mainnet", ...)
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { paymentDiscovery, paymentMiddleware } from 'x402-stacks';
+ *
+ * const app = express();
+ * app.use(paymentDiscovery(app));
+ * app.get('/api/weather', paymentMiddleware({ payTo: 'SP...', amount: '1000', description: 'Weather' }), handler);
+ *
+ * // GET /.well-known/x402?network=mainnet&asset=STX&limit=10
+ * ```
+ */
+export function paymentDiscovery(source: PaidRouteSource, options: DiscoveryOptions = {}) {
+  const path = options.path || DISCOVERY_PATH;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.path !== path || (req.method !== 'GET' && req.method !== 'HEAD')) {
+      return next();
+    }
+
+    try {
+      const query: DiscoveryQuery = {
+        limit: queryValue(req.query.limit),
+        offset: queryValue(req.query.offset),
+        asset: queryValue(req.query.asset),
+        network: queryValue(req.query.network),
+      };
+      const body = await listPaidResources(source, query, {
+        ...options,
+        baseUrl: options.baseUrl || `${req.protocol}://${req.get('host')}`,
+      });
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * x402-stacks - Error Types
+ * Typed errors raised by x402 payment clients and wire-format validation
+ */
+
+import { PaymentRequiredV2, PaymentRequirementsV2, X402ErrorCode, X402_ERROR_CODES } from './types-v2';
+import type { SchemaIssue } from './schema-v2';
+
+/**
+ * What the client knew when a payment failed
+ */
+export interface X402ErrorContext {
+  /** The server's payment requirements (from the 402 response) */
+  paymentRequired?: PaymentRequiredV2;
+  /** The payment option selected for payment */
+  requirements?: PaymentRequirementsV2;
+  /** Error code reported by the server (usually one of X402_ERROR_CODES) */
+  errorReason?: X402ErrorCode | string;
+  /** The HTTP response that led to the error (AxiosResponse or fetch Response) */
+  response?: unknown;
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised by x402 payment clients
+ */
+export class X402Error extends Error {
+  /** The server's payment requirements (from the 402 response) */
+  readonly paymentRequired?: PaymentRequiredV2;
+  /** The payment option selected for payment */
+  readonly requirements?: PaymentRequirementsV2;
+  /** Error code reported by the server (usually one of X402_ERROR_CODES) */
+  readonly errorReason?: X402ErrorCode | string;
+  /** The HTTP response that led to the error (AxiosResponse or fetch Response) */
+  readonly response?: unknown;
+  /** The underlying error, if any */
+  readonly cause?: unknown;
+
+  constructor(message: string, context: X402ErrorContext = {}) {
+    super(message);
+    this.name = 'X402Error';
+    this.paymentRequired = context.paymentRequired;
+    this.requirements = context.requirements;
+    this.errorReason = context.errorReason;
+    this.response = context.response;
+    this.cause = context.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when none of the server's payment options can be paid by the client's account
+ * (e.g. every option is on a different network)
+ */
+export class NoCompatibleOptionError extends X402Error {
+  constructor(message: string, context: X402ErrorContext = {}) {
+    super(message, context);
+    this.name = 'NoCompatibleOptionError';
+  }
+}
+
+/**
+ * Thrown when the server refuses a signed payment (the paid request came back 402)
+ */
+export class PaymentRejectedError extends X402Error {
+  constructor(message: string, context: X402ErrorContext = {}) {
+    super(message, context);
+    this.name = 'PaymentRejectedError';
+  }
+}
+
+/**
+ * Thrown when the server accepted a payment but could not settle it on chain
+ */
+export class SettlementFailedError extends X402Error {
+  constructor(message: string, context: X402ErrorContext = {}) {
+    super(message, context);
+    this.name = 'SettlementFailedError';
+  }
+}
+
+/**
+ * Thrown when the payment transaction could not be signed
+ */
+export class SigningError extends X402Error {
+  constructor(message: string, context: X402ErrorContext = {}) {
+    super(message, context);
+    this.name = 'SigningError';
+  }
+}
+
+/**
+ * Reasons a payment can be refused by a client spending policy
+ */
+export type PolicyViolationReason =
+  | 'amount_exceeds_limit'
+  | 'budget_exceeded'
+  | 'pay_to_not_allowed'
+  | 'host_not_allowed'
+  | 'asset_not_allowed'
+  | 'invalid_splits'
+  | 'rejected_by_hook';
+
+/**
+ * Thrown when a server asks for a payment outside the client's spending policy
+ */
+export class PolicyViolationError extends X402Error {
+  /** Which policy rule refused the payment */
+  readonly reason: PolicyViolationReason;
+  /** The payment requirements that were refused */
+  declare readonly requirements: PaymentRequirementsV2;
+
+  constructor(
+    reason: PolicyViolationReason,
+    requirements: PaymentRequirementsV2,
+    message?: string,
+    context: Omit<X402ErrorContext, 'requirements'> = {}
+  ) {
+    super(message || `Payment refused by policy: ${reason}`, { ...context, requirements });
+    this.name = 'PolicyViolationError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Server error codes that mean the payment was accepted but settlement failed
+ */
+const SETTLEMENT_ERROR_CODES: ReadonlySet<string> = new Set([
+  X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
+  X402_ERROR_CODES.BROADCAST_FAILED,
+  X402_ERROR_CODES.TRANSACTION_FAILED,
+  X402_ERROR_CODES.TRANSACTION_NOT_FOUND,
+  X402_ERROR_CODES.TRANSACTION_PENDING,
+]);
+
+/**
+ * Build the error for a paid request the server did not fulfil
+ * Settlement error codes give a SettlementFailedError, anything else a PaymentRejectedError
+ */
+export function createPaymentFailureError(context: X402ErrorContext): PaymentRejectedError | SettlementFailedError {
+  const reason = context.errorReason || 'unknown';
+
+  return context.errorReason && SETTLEMENT_ERROR_CODES.has(context.errorReason)
+    ? new SettlementFailedError(`Payment settlement failed: ${reason}`, context)
+    : new PaymentRejectedError(`Payment rejected by server: ${reason}`, context);
+}
+
+/**
+ * Thrown when decoded x402 data does not match the V2 wire format
+ */
+export class SchemaValidationError extends Error {
+  /** Every validation failure, with the path of the offending value */
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(
+      `Invalid x402 data: ${issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}`
+    );
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
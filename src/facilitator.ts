@@ -0,0 +1,510 @@
+/**
+ * x402-stacks - Reference Facilitator (Coinbase Compatible)
+ * Self-hostable facilitator implementing the V2 /verify, /settle and /supported endpoints
+ */
+
+import type { Express, Request, Response } from 'express';
+import axios, { AxiosInstance } from 'axios';
+import { broadcastTransaction, deserializeTransaction, TxBroadcastResult } from '@stacks/transactions';
+import { StacksMainnet, StacksTestnet, StacksNetwork } from '@stacks/network';
+import {
+  NetworkV2,
+  PaymentRequirementsV2,
+  VerifyResponseV2,
+  SettlementResponseV2,
+  FacilitatorVerifyRequestV2,
+  FacilitatorSettleRequestV2,
+  SupportedResponse,
+  STACKS_NETWORKS,
+  X402_ERROR_CODES,
+} from './types-v2';
+import { PaymentStatus, StacksTransaction as StacksApiTransaction } from './types';
+import { networkFromCAIP2 } from './utils';
+import { validatePaymentPayload, decodePaymentTransaction } from './validator';
+import {
+  validateFacilitatorVerifyRequestV2,
+  validateFacilitatorSettleRequestV2,
+  formatSchemaIssues,
+} from './schema-v2';
+
+/**
+ * Result of broadcasting a signed transaction
+ */
+export interface BroadcastResult {
+  /** Whether the node accepted the transaction */
+  success: boolean;
+  /** Transaction ID (may be empty if rejected before an ID was assigned) */
+  txId: string;
+  /** Rejection reason if broadcast failed */
+  error?: string;
+}
+
+/**
+ * Chain backend used by the facilitator to broadcast and track transactions
+ * Implement this to route settlement through your own node or provider
+ */
+export interface ChainBackend {
+  /** Broadcast a signed transaction hex to the given network */
+  broadcast(transactionHex: string, network: NetworkV2): Promise<BroadcastResult>;
+
+  /** Get the current status of a transaction */
+  getTransactionStatus(txId: string, network: NetworkV2): Promise<PaymentStatus>;
+}
+
+/**
+ * Configuration for the Stacks API chain backend
+ */
+export interface StacksApiChainBackendConfig {
+  /** Custom Stacks API URLs per CAIP-2 network (defaults to Hiro public APIs) */
+  apiUrls?: Partial<Record<NetworkV2, string>>;
+
+  /** Request timeout in milliseconds (default: 15000) */
+  timeout?: number;
+}
+
+/**
+ * Chain backend that talks to a Stacks node / Hiro API
+ */
+export class StacksApiChainBackend implements ChainBackend {
+  private apiUrls: Partial<Record<NetworkV2, string>>;
+  private httpClient: AxiosInstance;
+
+  constructor(config: StacksApiChainBackendConfig = {}) {
+    this.apiUrls = config.apiUrls || {};
+
+    this.httpClient = axios.create({
+      timeout: config.timeout || 15000,
+    });
+  }
+
+  /**
+   * Get Stacks network instance for a CAIP-2 network, honouring custom API URLs
+   */
+  private getNetwork(network: NetworkV2): StacksNetwork {
+    const url = this.apiUrls[network];
+    const v1Network = networkFromCAIP2(network);
+
+    if (v1Network === 'mainnet') {
+      return url ? new StacksMainnet({ url }) : new StacksMainnet();
+    }
+    return url ? new StacksTestnet({ url }) : new StacksTestnet();
+  }
+
+  async broadcast(transactionHex: string, network: NetworkV2): Promise<BroadcastResult> {
+    const transaction = deserializeTransaction(
+      transactionHex.startsWith('0x') ? transactionHex.slice(2) : transactionHex
+    );
+
+    const broadcastResponse: TxBroadcastResult = await broadcastTransaction(
+      transaction,
+      this.getNetwork(network)
+    );
+
+    if ('error' in broadcastResponse) {
+      return {
+        success: false,
+        txId: broadcastResponse.txid || transaction.txid(),
+        error: broadcastResponse.reason || broadcastResponse.error,
+      };
+    }
+
+    return {
+      success: true,
+      txId: broadcastResponse.txid,
+    };
+  }
+
+  async getTransactionStatus(txId: string, network: NetworkV2): Promise<PaymentStatus> {
+    const apiUrl = this.getNetwork(network).coreApiUrl;
+    const normalizedTxId = txId.startsWith('0x') ? txId : `0x${txId}`;
+
+    try {
+      const response = await this.httpClient.get<StacksApiTransaction>(
+        `${apiUrl}/extended/v1/tx/${normalizedTxId}`
+      );
+
+      switch (response.data.tx_status) {
+        case 'success':
+          return 'success';
+        case 'pending':
+          return 'pending';
+        default:
+          return 'failed';
+      }
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return 'not_found';
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Configuration for the reference facilitator
+ */
+export interface FacilitatorConfig {
+  /** Networks this facilitator settles on (default: mainnet and testnet) */
+  networks?: NetworkV2[];
+
+  /** Chain backend for broadcasting and status checks (default: StacksApiChainBackend) */
+  chainBackend?: ChainBackend;
+
+  /** Wait for the transaction to confirm before reporting settlement (default: true) */
+  waitForConfirmation?: boolean;
+
+  /**
+   * Maximum time to wait for confirmation in milliseconds (default: 25000)
+   * Keep this below the verifier's 30s HTTP timeout
+   * Payments still pending at the deadline are reported as transaction_pending with their
+   * transaction ID; settling the same payment again resumes waiting instead of re-broadcasting
+   */
+  confirmationTimeoutMs?: number;
+
+  /** Interval between confirmation status checks in milliseconds (default: 2000) */
+  pollIntervalMs?: number;
+
+  /** Public signer addresses advertised via /supported */
+  signers?: Record<string, string[]>;
+
+  /**
+   * Reject payments without Deny-mode post-conditions pinning the payer to the exact amount
+   * (default: false)
+   */
+  requirePostConditions?: boolean;
+}
+
+/** How long a settlement reported as pending can be resumed (1 hour) */
+const PENDING_SETTLEMENT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Check that the requirements a client accepted are the ones being verified against
+ */
+function acceptedMatches(accepted: PaymentRequirementsV2, requirements: PaymentRequirementsV2): boolean {
+  return (
+    accepted.scheme === requirements.scheme &&
+    accepted.network === requirements.network &&
+    accepted.amount === requirements.amount &&
+    accepted.asset === requirements.asset &&
+    accepted.payTo === requirements.payTo
+  );
+}
+
+/**
+ * Reference facilitator for x402 v2 payments on Stacks
+ * Validates signed transactions against payment requirements and settles them on-chain
+ */
+export class X402Facilitator {
+  private networks: NetworkV2[];
+  private chainBackend: ChainBackend;
+  private waitForConfirmation: boolean;
+  private confirmationTimeoutMs: number;
+  private pollIntervalMs: number;
+  private signers: Record<string, string[]>;
+  private requirePostConditions: boolean;
+  /** Transactions reported as pending, with when they stop being resumable */
+  private pendingSettlements = new Map<string, number>();
+
+  constructor(config: FacilitatorConfig = {}) {
+    this.networks = config.networks || [STACKS_NETWORKS.MAINNET, STACKS_NETWORKS.TESTNET];
+    this.chainBackend = config.chainBackend || new StacksApiChainBackend();
+    this.waitForConfirmation = config.waitForConfirmation ?? true;
+    this.confirmationTimeoutMs = config.confirmationTimeoutMs || 25000;
+    this.pollIntervalMs = config.pollIntervalMs || 2000;
+    this.signers = config.signers || {};
+    this.requirePostConditions = config.requirePostConditions ?? false;
+  }
+
+  /**
+   * Get supported payment kinds (GET /supported)
+   */
+  getSupported(): SupportedResponse {
+    return {
+      kinds: this.networks.map((network) => ({
+        x402Version: 2,
+        scheme: 'exact',
+        network,
+      })),
+      extensions: [],
+      signers: this.signers,
+    };
+  }
+
+  /**
+   * Verify a payment without broadcasting it (POST /verify)
+   */
+  async verify(request: FacilitatorVerifyRequestV2): Promise<VerifyResponseV2> {
+    const { paymentPayload, paymentRequirements } = request;
+
+    if (!this.networks.includes(paymentRequirements.network)) {
+      return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_NETWORK };
+    }
+
+    if (!acceptedMatches(paymentPayload.accepted, paymentRequirements)) {
+      return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS };
+    }
+
+    return validatePaymentPayload(paymentPayload, paymentRequirements, {
+      requirePostConditions: this.requirePostConditions,
+    });
+  }
+
+  /**
+   * Verify, broadcast and (optionally) wait for confirmation (POST /settle)
+   * Settling a payment this facilitator reported as pending resumes waiting for its
+   * confirmation instead of broadcasting it again
+   */
+  async settle(request: FacilitatorSettleRequestV2): Promise<SettlementResponseV2> {
+    const { paymentPayload, paymentRequirements } = request;
+    const network = paymentRequirements.network;
+
+    const verifyResult = await this.verify(request);
+
+    if (!verifyResult.isValid) {
+      return {
+        success: false,
+        errorReason: verifyResult.invalidReason || X402_ERROR_CODES.UNEXPECTED_VERIFY_ERROR,
+        payer: verifyResult.payer,
+        transaction: '',
+        network,
+      };
+    }
+
+    const payer = verifyResult.payer;
+
+    let broadcastResult: BroadcastResult;
+    const resumedTxId = this.takePendingSettlement(paymentPayload.payload.transaction);
+    if (resumedTxId) {
+      broadcastResult = { success: true, txId: resumedTxId };
+    } else {
+      try {
+        broadcastResult = await this.chainBackend.broadcast(paymentPayload.payload.transaction, network);
+      } catch {
+        return {
+          success: false,
+          errorReason: X402_ERROR_CODES.BROADCAST_FAILED,
+          payer,
+          transaction: '',
+          network,
+        };
+      }
+    }
+
+    if (!broadcastResult.success) {
+      return {
+        success: false,
+        errorReason: broadcastResult.error === 'NotEnoughFunds'
+          ? X402_ERROR_CODES.INSUFFICIENT_FUNDS
+          : X402_ERROR_CODES.BROADCAST_FAILED,
+        payer,
+        transaction: broadcastResult.txId,
+        network,
+      };
+    }
+
+    if (!this.waitForConfirmation) {
+      return {
+        success: true,
+        payer,
+        transaction: broadcastResult.txId,
+        network,
+      };
+    }
+
+    const status = await this.pollTransactionStatus(broadcastResult.txId, network);
+
+    if (status === 'success') {
+      return {
+        success: true,
+        payer,
+        transaction: broadcastResult.txId,
+        network,
+      };
+    }
+
+    if (status !== 'failed') {
+      this.pendingSettlements.set(broadcastResult.txId, Date.now() + PENDING_SETTLEMENT_RETENTION_MS);
+    }
+
+    return {
+      success: false,
+      errorReason: status === 'failed'
+        ? X402_ERROR_CODES.TRANSACTION_FAILED
+        : X402_ERROR_CODES.TRANSACTION_PENDING,
+      payer,
+      transaction: broadcastResult.txId,
+      network,
+    };
+  }
+
+  /**
+   * Take a transaction this facilitator broadcast but reported pending, so its settlement resumes
+   * Returns the transaction ID, or undefined if the transaction has no unfinished settlement
+   */
+  private takePendingSettlement(transactionHex: string): string | undefined {
+    const now = Date.now();
+    for (const [txId, expiresAt] of this.pendingSettlements) {
+      if (expiresAt <= now) this.pendingSettlements.delete(txId);
+    }
+
+    if (this.pendingSettlements.size === 0) {
+      return undefined;
+    }
+
+    try {
+      const { txId } = decodePaymentTransaction(transactionHex);
+      return this.pendingSettlements.delete(txId) ? txId : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Poll the chain backend until the transaction leaves the pending state or the timeout expires
+   */
+  private async pollTransactionStatus(txId: string, network: NetworkV2): Promise<PaymentStatus> {
+    const deadline = Date.now() + this.confirmationTimeoutMs;
+    let status: PaymentStatus = 'pending';
+
+    while (Date.now() < deadline) {
+      try {
+        status = await this.chainBackend.getTransactionStatus(txId, network);
+      } catch {
+        // Transient API errors - keep polling until the deadline
+        status = 'pending';
+      }
+
+      if (status === 'success' || status === 'failed') {
+        return status;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    return status;
+  }
+}
+
+/**
+ * Check that a facilitator request body has the V2 shape
+ */
+function isValidFacilitatorRequest(body: unknown): body is FacilitatorVerifyRequestV2 {
+  if (!body || typeof body !== 'object') return false;
+
+  const request = body as Record<string, unknown>;
+
+  return (
+    typeof request.paymentPayload === 'object' &&
+    request.paymentPayload !== null &&
+    typeof request.paymentRequirements === 'object' &&
+    request.paymentRequirements !== null
+  );
+}
+
+/**
+ * Create an Express app exposing the facilitator endpoints
+ *
+ * @example
+ * ```typescript
+ * import { createFacilitatorServer } from 'x402-stacks';
+ *
+ * const app = createFacilitatorServer({ networks: ['stacks:2147483648'] });
+ * app.listen(8085);
+ * ```
+ */
+export function createFacilitatorServer(
+  config: FacilitatorConfig | X402Facilitator = {}
+): Express {
+  // Dynamic import to avoid requiring express at module load time
+  const express = require('express');
+  const app: Express = express();
+  app.use(express.json());
+
+  const facilitator = config instanceof X402Facilitator ? config : new X402Facilitator(config);
+
+  app.get('/supported', (_req: Request, res: Response) => {
+    res.json(facilitator.getSupported());
+  });
+
+  app.post('/verify', async (req: Request, res: Response) => {
+    if (!isValidFacilitatorRequest(req.body)) {
+      return res.status(400).json({
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD,
+      });
+    }
+
+    if (req.body.x402Version !== 2) {
+      return res.status(400).json({
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.INVALID_X402_VERSION,
+      });
+    }
+
+    const issues = validateFacilitatorVerifyRequestV2(req.body);
+    if (issues.length > 0) {
+      return res.status(400).json({
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD,
+        message: formatSchemaIssues(issues),
+      });
+    }
+
+    try {
+      res.json(await facilitator.verify(req.body));
+    } catch (error) {
+      console.error('x402 facilitator verify error:', error);
+      res.status(500).json({
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.UNEXPECTED_VERIFY_ERROR,
+      });
+    }
+  });
+
+  app.post('/settle', async (req: Request, res: Response) => {
+    const network = req.body?.paymentRequirements?.network || '';
+
+    if (!isValidFacilitatorRequest(req.body)) {
+      return res.status(400).json({
+        success: false,
+        errorReason: X402_ERROR_CODES.INVALID_PAYLOAD,
+        transaction: '',
+        network,
+      });
+    }
+
+    if (req.body.x402Version !== 2) {
+      return res.status(400).json({
+        success: false,
+        errorReason: X402_ERROR_CODES.INVALID_X402_VERSION,
+        transaction: '',
+        network,
+      });
+    }
+
+    const issues = validateFacilitatorSettleRequestV2(req.body);
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        errorReason: X402_ERROR_CODES.INVALID_PAYLOAD,
+        message: formatSchemaIssues(issues),
+        transaction: '',
+        network,
+      });
+    }
+
+    try {
+      res.json(await facilitator.settle(req.body));
+    } catch (error) {
+      console.error('x402 facilitator settle error:', error);
+      res.status(500).json({
+        success: false,
+        errorReason: X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
+        transaction: '',
+        network,
+      });
+    }
+  });
+
+  return app;
+}
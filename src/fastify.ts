@@ -0,0 +1,190 @@
+/**
+ * x402-stacks - Fastify Plugin (Coinbase Compatible)
+ * Route-level x402 payment gating for Fastify applications
+ */
+
+import type {
+  FastifyInstance,
+  FastifyPluginCallback,
+  FastifyReply,
+  FastifyRequest,
+  RouteOptions,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import { SettlementResponseV2, X402_HEADERS } from './types-v2';
+import {
+  PaymentMiddlewareConfig,
+  PaymentRequestLike,
+  createPaymentProcessor,
+  completeWhenSent,
+  toRawBody,
+  PaymentGated,
+  exposePaymentConfig,
+  getPaymentConfig,
+} from './payment-processor';
+import { PaymentUsage } from './upto';
+import { PaywallRoute, toPaywallRoute } from './paywall';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /** Routes gated by the x402 plugin, in registration order (read by getPaidRoutes) */
+    x402Routes: PaywallRoute[];
+  }
+
+  interface FastifyRequest {
+    /** Settlement result for a paid request (set by the x402 plugin) */
+    payment: SettlementResponseV2 | null;
+    /** Consumed amount to settle on "upto" routes (atomic units, set by the handler) */
+    paymentUsage: PaymentUsage | null;
+  }
+
+  interface FastifyContextConfig {
+    /** x402 pricing for this route, merged over the plugin defaults */
+    x402?: Partial<PaymentMiddlewareConfig>;
+  }
+}
+
+/**
+ * Options for the x402 Fastify plugin
+ * Defaults shared by every priced route (payTo, network, facilitatorUrl, ...)
+ */
+export type X402FastifyOptions = Partial<PaymentMiddlewareConfig>;
+
+/**
+ * Build the processor's view of a Fastify request
+ */
+function toPaymentRequest(request: FastifyRequest): PaymentRequestLike {
+  return {
+    url: `${request.protocol}://${request.hostname}${request.url}`,
+    method: request.method,
+    headers: request.headers,
+    rawBody: toRawBody(request.body, request.headers['content-type']),
+  };
+}
+
+/**
+ * Create a Fastify preHandler that requires x402 payment
+ * Use directly on a route, or let the plugin attach it from `config.x402`
+ *
+ * @example
+ * ```typescript
+ * fastify.get('/api/premium', {
+ *   preHandler: x402PreHandler({ payTo: 'SP...', amount: '1000000', network: 'mainnet' }),
+ * }, async (request) => ({ payer: request.payment?.payer }));
+ * ```
+ */
+export function x402PreHandler(config: PaymentMiddlewareConfig): PaymentGated<preHandlerAsyncHookHandler> {
+  const processPayment = createPaymentProcessor(config);
+
+  return exposePaymentConfig(async function x402PaymentPreHandler(request: FastifyRequest, reply: FastifyReply) {
+    const decision = await processPayment(toPaymentRequest(request));
+
+    reply.headers(decision.headers);
+
+    if (decision.type === 'rejected') {
+      return reply.code(decision.statusCode).send(decision.html ?? decision.body);
+    }
+
+    request.payment = decision.payment;
+
+    if (decision.type === 'verified') {
+      if (decision.delivery === 'trailer') {
+        reply.trailer(X402_HEADERS.PAYMENT_RESPONSE, async (trailerReply: FastifyReply) => {
+          if (trailerReply.statusCode >= 400) {
+            return '';
+          }
+          try {
+            const settlement = await decision.settle(request.paymentUsage ?? undefined);
+            return Buffer.from(JSON.stringify(settlement)).toString('base64');
+          } catch (error) {
+            // Fastify only logs trailer errors at debug level, and still ends the response
+            request.log.error({ err: error }, 'x402 trailer settlement error');
+            return '';
+          }
+        });
+      } else {
+        // Settle in the background once the response has gone out
+        completeWhenSent(
+          reply.raw,
+          decision,
+          () => decision.settle(request.paymentUsage ?? undefined),
+          (error) => request.log.error({ err: error }, 'x402 deferred settlement error')
+        );
+      }
+    }
+  }, config);
+}
+
+/**
+ * Describe the paid routes a Fastify route registers (one per gating preHandler)
+ * Fastify's trailing "*" wildcard spans segments, like the paywall "**" pattern
+ */
+function toPaidRoutes(routeOptions: RouteOptions): PaywallRoute[] {
+  const preHandlers = Array.isArray(routeOptions.preHandler) ? routeOptions.preHandler : [routeOptions.preHandler];
+  const declared = Array.isArray(routeOptions.method) ? routeOptions.method : [routeOptions.method];
+  const methods = declared.map((method) => method.toUpperCase());
+  const path = routeOptions.url.replace(/\*$/, '**');
+
+  return preHandlers
+    .map(getPaymentConfig)
+    .filter((config): config is PaymentMiddlewareConfig => config !== undefined)
+    .map((config) => toPaywallRoute(`${methods.join('|')} ${path}`, methods, path, config));
+}
+
+/**
+ * Fastify plugin that gates routes declaring `config.x402`
+ * Registered routes get an x402 preHandler and `request.payment` holds the settlement.
+ * Paid routes (including those using x402PreHandler directly) are recorded in `fastify.x402Routes`
+ *
+ * Register the plugin before declaring priced routes.
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { x402Fastify } from 'x402-stacks';
+ *
+ * const fastify = Fastify();
+ * fastify.register(x402Fastify, { payTo: 'SP...', network: 'mainnet' });
+ *
+ * fastify.get('/api/weather', {
+ *   config: { x402: { amount: '1000000', description: 'Weather data' } },
+ * }, async (request) => ({ paidBy: request.payment?.payer }));
+ * ```
+ */
+export const x402Fastify: FastifyPluginCallback<X402FastifyOptions> = (
+  fastify: FastifyInstance,
+  options: X402FastifyOptions,
+  done: (err?: Error) => void
+) => {
+  fastify.decorateRequest('payment', null);
+  fastify.decorateRequest('paymentUsage', null);
+
+  fastify.decorate('x402Routes', []);
+
+  fastify.addHook('onRoute', (routeOptions: RouteOptions) => {
+    const routeConfig = routeOptions.config?.x402;
+
+    if (routeConfig) {
+      const preHandler = x402PreHandler({ ...options, ...routeConfig } as PaymentMiddlewareConfig);
+
+      const existing = routeOptions.preHandler;
+      routeOptions.preHandler = existing
+        ? [preHandler, ...(Array.isArray(existing) ? existing : [existing])]
+        : [preHandler];
+    }
+
+    // The HEAD route Fastify adds for each GET route is covered by the GET route
+    const paidRoutes = toPaidRoutes(routeOptions).filter(
+      (paid) =>
+        paid.key !== `HEAD ${paid.path}` ||
+        !fastify.x402Routes.some((route) => route.path === paid.path && route.methods?.includes('GET'))
+    );
+    fastify.x402Routes.push(...paidRoutes);
+  });
+
+  done();
+};
+
+// Expose the decoration and hooks to the parent scope (same as wrapping with fastify-plugin)
+(x402Fastify as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')] = true;
+(x402Fastify as unknown as Record<symbol, unknown>)[Symbol.for('fastify.display-name')] = 'x402-stacks';
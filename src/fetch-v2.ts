@@ -0,0 +1,191 @@
+/**
+ * x402-stacks - Fetch Payment Wrapper (Coinbase Compatible)
+ * Provides automatic x402 payment handling for the standard fetch API
+ */
+
+import { StacksAccount, StacksSigner } from './types';
+import {
+  PaymentRequiredV2,
+  SettlementResponseV2,
+  X402_HEADERS,
+} from './types-v2';
+import {
+  decodePaymentRequired,
+  decodePaymentResponse,
+  encodePaymentPayload,
+  isValidPaymentRequestV2,
+  selectAndAuthorizePaymentOption,
+  rejectPaidRequest,
+  createPaymentPayloadV2,
+  PaymentClientOptions,
+} from './interceptor-v2';
+import { PaymentPolicyEnforcer } from './policy';
+import { AccessTokenCache, ACCESS_TOKEN_HEADER } from './access-token';
+import { X402Error, SigningError } from './errors';
+
+/**
+ * A fetch-compatible function
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Read payment requirements from a 402 response (header first, then JSON body)
+ */
+async function getPaymentRequired(response: Response): Promise<PaymentRequiredV2 | null> {
+  const paymentRequired = decodePaymentRequired(response.headers.get(X402_HEADERS.PAYMENT_REQUIRED));
+  if (paymentRequired) {
+    return paymentRequired;
+  }
+
+  try {
+    const body: unknown = await response.clone().json();
+    return isValidPaymentRequestV2(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the server's error code from a JSON response body
+ */
+async function getErrorReason(response: Response): Promise<string | undefined> {
+  try {
+    const body = (await response.clone().json()) as { error?: unknown };
+    return typeof body?.error === 'string' ? body.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wrap a fetch function with automatic x402 payment handling
+ * Compatible with Coinbase x402 protocol
+ *
+ * Payment is attempted once per call; if the paid retry also returns 402,
+ * it rejects with PaymentRejectedError or SettlementFailedError like the axios client.
+ *
+ * @example
+ * ```typescript
+ * import { wrapFetchWithPayment, privateKeyToAccount } from 'x402-stacks';
+ *
+ * const account = privateKeyToAccount(process.env.PRIVATE_KEY!, 'testnet');
+ * const fetchWithPayment = wrapFetchWithPayment(fetch, account);
+ *
+ * // Use normally - 402 handling is automatic
+ * const response = await fetchWithPayment('https://api.example.com/premium-data');
+ * console.log(await response.json());
+ * ```
+ */
+export function wrapFetchWithPayment(
+  fetchFn: FetchFunction,
+  account: StacksSigner | StacksAccount,
+  options: PaymentClientOptions = {}
+): FetchFunction {
+  const enforcer = options.policy ? new PaymentPolicyEnforcer(options.policy) : null;
+  const tokenCache = options.accessTokens === false ? null : new AccessTokenCache();
+
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    // Keep an unread copy of Request bodies so the request can be retried
+    const retryInput = input instanceof Request ? input.clone() : input;
+    const url = input instanceof Request ? input.url : input.toString();
+
+    // Send a cached access token instead of paying again
+    const cachedToken = tokenCache?.get(url);
+    const response = cachedToken
+      ? await fetchFn(input, { ...init, headers: withHeader(input, init, ACCESS_TOKEN_HEADER, cachedToken) })
+      : await fetchFn(input, init);
+
+    // Pass through anything that is not 402 Payment Required
+    if (response.status !== 402) {
+      rememberAccessToken(tokenCache, url, response);
+      return response;
+    }
+
+    // A token that no longer unlocks the resource is dropped before paying again
+    if (cachedToken) {
+      tokenCache?.delete(url);
+    }
+
+    const paymentRequired = await getPaymentRequired(response);
+
+    if (!paymentRequired) {
+      throw new X402Error('Invalid x402 v2 payment request from server', { response });
+    }
+
+    // Select a compatible payment option allowed by the spending policy
+    const { requirements: selectedOption, reservation } = await selectAndAuthorizePaymentOption(
+      paymentRequired,
+      account,
+      enforcer,
+      url,
+      response
+    );
+
+    let encodedPayload: string;
+    try {
+      // Sign the payment (don't broadcast - server will do that via facilitator)
+      const paymentPayload = await createPaymentPayloadV2(paymentRequired, selectedOption, account);
+
+      encodedPayload = encodePaymentPayload(paymentPayload);
+    } catch (paymentError) {
+      if (reservation) {
+        enforcer?.release(reservation);
+      }
+      throw new SigningError(
+        `Payment signing failed: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`,
+        { paymentRequired, requirements: selectedOption, response, cause: paymentError }
+      );
+    }
+
+    // Retry the request with the payment
+    const paidResponse = await fetchFn(retryInput, {
+      ...init,
+      headers: withHeader(retryInput, init, X402_HEADERS.PAYMENT_SIGNATURE, encodedPayload),
+    });
+
+    // A 402 for the paid retry means the payment was refused
+    if (paidResponse.status === 402) {
+      throw rejectPaidRequest(enforcer, {
+        paymentRequired: (await getPaymentRequired(paidResponse)) || undefined,
+        requirements: selectedOption,
+        errorReason: await getErrorReason(paidResponse),
+        response: paidResponse,
+        reservation,
+      });
+    }
+
+    rememberAccessToken(tokenCache, url, paidResponse);
+    return paidResponse;
+  };
+}
+
+/**
+ * Copy a request's headers (from init, or the Request itself) and set one more
+ */
+function withHeader(
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+  name: string,
+  value: string
+): Headers {
+  const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  headers.set(name, value);
+  return headers;
+}
+
+/**
+ * Cache an access token issued with a response
+ */
+function rememberAccessToken(tokenCache: AccessTokenCache | null, url: string, response: Response): void {
+  const token = response.headers.get(ACCESS_TOKEN_HEADER);
+  if (tokenCache && token) {
+    tokenCache.set(url, token);
+  }
+}
+
+/**
+ * Extract payment response from a fetch Response's headers
+ */
+export function getPaymentResponseFromFetch(response: Response): SettlementResponseV2 | null {
+  return decodePaymentResponse(response.headers.get(X402_HEADERS.PAYMENT_RESPONSE));
+}
@@ -18,12 +18,49 @@ export {
   decodePaymentRequired,
   encodePaymentPayload,
   getPaymentResponseFromHeaders,
+  createPaymentPayloadV2,
+  signUptoPaymentV2,
+  signSplitPaymentV2,
   // Backward compatibility aliases
   withPaymentInterceptorV2,
   createPaymentClientV2,
   privateKeyToAccountV2,
 } from './interceptor-v2';
 
+export type { PaymentClientOptions } from './interceptor-v2';
+
+// Signers
+export {
+  createPrivateKeySigner,
+  toStacksSigner,
+  isStacksSigner,
+  assertSignerNetwork,
+} from './signer';
+
+// Client spending policy
+export { PaymentPolicyEnforcer } from './policy';
+export type { PaymentPolicy, PaymentBudget, PaymentApprovalContext } from './policy';
+
+// Errors
+export {
+  X402Error,
+  NoCompatibleOptionError,
+  PaymentRejectedError,
+  SigningError,
+  PolicyViolationError,
+  SettlementFailedError,
+  SchemaValidationError,
+  createPaymentFailureError,
+} from './errors';
+export type { X402ErrorContext, PolicyViolationReason } from './errors';
+
+// Client (fetch wrapper)
+export {
+  wrapFetchWithPayment,
+  getPaymentResponseFromFetch,
+} from './fetch-v2';
+export type { FetchFunction } from './fetch-v2';
+
 // Server components
 export {
   X402PaymentVerifier,
@@ -34,7 +71,7 @@ export {
   X402PaymentVerifierV2,
   createVerifierV2,
 } from './verifier-v2';
-export type { VerifyOptionsV2, SettleOptionsV2 } from './verifier-v2';
+export type { VerifierMode, VerifierOptions, VerifyOptionsV2, SettleOptionsV2 } from './verifier-v2';
 
 // Middleware
 export {
@@ -44,9 +81,13 @@ export {
   conditionalPayment,
   tieredPayment,
   paymentRateLimit,
+  isPaymentGate,
   parsePaymentRequiredHeader,
   parsePaymentResponseHeader,
+  findMatchingRequirements,
+  buildPaymentRequirements,
   PaymentMiddlewareConfig,
+  PaymentOption,
   // Backward compatibility aliases
   x402PaymentRequiredV2,
   getPaymentV2,
@@ -55,7 +96,193 @@ export {
   tieredPaymentV2,
   paymentRateLimitV2,
 } from './middleware-v2';
-export type { X402MiddlewareConfigV2 } from './middleware-v2';
+export type {
+  X402MiddlewareConfigV2,
+  SettlementMode,
+  DeferredDelivery,
+  PaymentGateMiddleware,
+} from './middleware-v2';
+
+// Declarative route pricing
+export { createPaywall, compilePathPattern, compilePaywallRoutes, getPaidRoutes } from './paywall';
+export type {
+  PaywallConfig,
+  PaywallRoutePricing,
+  PaywallRoute,
+  PaywallMiddleware,
+  PaidRouteSource,
+  ExpressRouterLike,
+  KoaAppLike,
+  KoaRouterLike,
+  FastifyPaidRoutesLike,
+} from './paywall';
+
+// Paid resource discovery (/.well-known/x402)
+export { paymentDiscovery, listPaidResources, DISCOVERY_PATH } from './discovery';
+export type { DiscoveredResourceV2, DiscoveryResponseV2, DiscoveryQuery, DiscoveryOptions } from './discovery';
+
+// Browser paywall page
+export { renderPaywallPage, prefersHtml, createStacksPaymentUri, getTransactionsBundle } from './paywall-page';
+export type {
+  TransactionsBundle,
+  PaywallPageOptions,
+  PaywallPageContext,
+  PaywallPageOption,
+  PaywallPageRequest,
+  PaywallTheme,
+} from './paywall-page';
+
+// OpenAPI generation for paid routes
+export { generatePaymentOpenApi } from './openapi';
+export type { PaymentOpenApiOptions } from './openapi';
+
+// Framework-agnostic payment processor (Web Request/Response)
+export {
+  createPaymentProcessor,
+  processPayment,
+  withPayment,
+  createPaymentRequiredResponse,
+  quotePaymentRequirements,
+  isUsdPriced,
+  exposePaymentConfig,
+  toRawBody,
+} from './payment-processor';
+export type {
+  PaymentRequestLike,
+  PaymentDecision,
+  PaymentRejectedDecision,
+  PaymentSettledDecision,
+  PaymentVerifiedDecision,
+  PaymentProcessor,
+  PaymentGated,
+} from './payment-processor';
+
+// Metered payments ("upto" scheme)
+export {
+  UPTO_SCHEME,
+  DEFAULT_UPTO_STEPS,
+  getUptoAmounts,
+  validateUptoAuthorizations,
+  selectUptoAuthorization,
+} from './upto';
+export type { PaymentUsage } from './upto';
+
+// Split payments
+export {
+  computePaymentSplits,
+  getPaymentSplits,
+  validateSplitPayments,
+} from './splits';
+export type { PaymentSplit } from './splits';
+
+// USD pricing
+export { StaticPriceOracle, parseUsdPrice, usdToAtomicAmount, getAssetDecimals } from './price-oracle';
+export type { PriceOracle, PriceQuote, PaymentQuote } from './price-oracle';
+
+// Fastify plugin
+export { x402Fastify, x402PreHandler } from './fastify';
+export type { X402FastifyOptions } from './fastify';
+
+// Koa middleware
+export {
+  koaPaymentMiddleware,
+  koaConditionalPayment,
+  koaTieredPayment,
+  koaPaymentRateLimit,
+  getKoaPayment,
+} from './koa';
+
+// Access tokens (pay once, access for a while)
+export {
+  issueAccessToken,
+  verifyAccessToken,
+  decodeAccessToken,
+  AccessTokenCache,
+  ACCESS_TOKEN_HEADER,
+} from './access-token';
+export type { AccessTokenConfig, AccessTokenClaims } from './access-token';
+
+// Deferred settlement receipts
+export {
+  MemoryReceiptStore,
+  getDefaultReceiptStore,
+  createReceiptHandler,
+  PAYMENT_RECEIPT_HEADER,
+  DEFAULT_RECEIPT_PATH,
+} from './receipts';
+export type { SettlementReceipt, SettlementReceiptStatus, SettlementReceiptStore } from './receipts';
+
+// Facilitator (self-hosted settlement)
+export {
+  X402Facilitator,
+  StacksApiChainBackend,
+  createFacilitatorServer,
+} from './facilitator';
+export type {
+  FacilitatorConfig,
+  ChainBackend,
+  BroadcastResult,
+  StacksApiChainBackendConfig,
+} from './facilitator';
+
+// Replay protection
+export {
+  MemoryReplayStore,
+  FileReplayStore,
+  getDefaultReplayStore,
+  ReplayStoreFullError,
+  DEFAULT_REPLAY_RETENTION_MS,
+} from './replay-store';
+export type { PaymentReplayStore, PaymentReplayEntry } from './replay-store';
+
+// Rate limit counters
+export { MemoryRateLimitStore, RedisRateLimitStore } from './rate-limit-store';
+export type { RateLimitStore, RateLimitRecord, RedisLikeClient } from './rate-limit-store';
+
+// Transaction validation
+export {
+  decodePaymentTransaction,
+  validatePaymentPayload,
+  resolveAssetIdentifier,
+} from './validator';
+export type { DecodedPaymentTransaction, PaymentValidationOptions } from './validator';
+
+// Wire format validation
+export {
+  validateResourceInfo,
+  validatePaymentRequirementsV2,
+  validatePaymentRequiredV2,
+  validatePaymentSplitV2,
+  validatePaymentSplitLegV2,
+  validateStacksUptoAuthorizationV2,
+  validateStacksPayloadV2,
+  validatePaymentPayloadV2,
+  validateVerifyResponseV2,
+  validateSettlementResponseV2,
+  validateFacilitatorVerifyRequestV2,
+  validateFacilitatorSettleRequestV2,
+  validateSupportedKind,
+  validateSupportedResponse,
+  validateNetworkV2,
+  isValidAssetIdentifier,
+  isValidCAIP2,
+  assertSchema,
+  decodeSchemaHeader,
+  formatSchemaIssues,
+} from './schema-v2';
+export type { SchemaIssue, SchemaValidator } from './schema-v2';
+
+// JSON Schema / OpenAPI export
+export { getX402JsonSchemas, getX402OpenApiComponents } from './json-schema';
+export type { JsonSchema, X402SchemaName } from './json-schema';
+
+// Payment post-conditions
+export {
+  createPaymentPostConditions,
+  applyPaymentPostConditions,
+  hasPaymentPostConditions,
+  getFungibleAssetName,
+} from './post-conditions';
 
 // Types
 export type {
@@ -64,6 +291,9 @@ export type {
   PaymentRequirementsV2,
   PaymentRequiredV2,
   StacksPayloadV2,
+  StacksUptoAuthorizationV2,
+  PaymentSplitV2,
+  PaymentSplitLegV2,
   PaymentPayloadV2,
   VerifyResponseV2,
   SettlementResponseV2,
@@ -137,6 +367,7 @@ export type {
   FacilitatorSettleRequest,
   FacilitatorSettleResponse,
   StacksAccount,
+  StacksSigner,
   PaymentResponse,
 } from './types';
 
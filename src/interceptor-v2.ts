@@ -5,8 +5,8 @@
 
 import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import {
-  makeSTXTokenTransfer,
-  makeContractCall,
+  makeUnsignedSTXTokenTransfer,
+  makeUnsignedContractCall,
   AnchorMode,
   PostConditionMode,
   uintCV,
@@ -14,52 +14,81 @@ import {
   someCV,
   noneCV,
   bufferCVFromString,
-  getAddressFromPrivateKey,
-  TransactionVersion,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet, StacksNetwork } from '@stacks/network';
-import { StacksAccount, NetworkType, TokenContract } from './types';
+import { StacksAccount, StacksSigner, NetworkType, TokenContract } from './types';
 import {
   PaymentRequiredV2,
   PaymentPayloadV2,
   PaymentRequirementsV2,
   SettlementResponseV2,
+  StacksPayloadV2,
+  StacksUptoAuthorizationV2,
+  PaymentSplitLegV2,
   X402_HEADERS,
+  X402_ERROR_CODES,
   STACKS_NETWORKS,
   NetworkV2,
 } from './types-v2';
 import { networkFromCAIP2, assetFromV2 } from './utils';
+import { PaymentPolicy, PaymentPolicyEnforcer } from './policy';
+import {
+  X402Error,
+  NoCompatibleOptionError,
+  PolicyViolationError,
+  SigningError,
+  PaymentRejectedError,
+  SettlementFailedError,
+  createPaymentFailureError,
+} from './errors';
+import { createPrivateKeySigner, toStacksSigner } from './signer';
+import { createPaymentPostConditions, applyPaymentPostConditions } from './post-conditions';
+import { AccessTokenCache, ACCESS_TOKEN_HEADER } from './access-token';
+import { decodePaymentTransaction } from './validator';
+import { UPTO_SCHEME, getUptoAmounts } from './upto';
+import { getPaymentSplits, isSplitPlanBalanced, toSplitRequirements } from './splits';
+import {
+  decodeSchemaHeader,
+  validatePaymentRequiredV2,
+  validatePaymentPayloadV2,
+  validateSettlementResponseV2,
+} from './schema-v2';
+
+/**
+ * Options for automatic payment clients
+ */
+export interface PaymentClientOptions {
+  /** Spending policy; payments outside it reject with PolicyViolationError */
+  policy?: PaymentPolicy;
+
+  /** Cache access tokens issued by servers and send them instead of paying again (default: true) */
+  accessTokens?: boolean;
+}
 
 /**
  * Create a Stacks account from a private key
  * Similar to viem's privateKeyToAccount pattern
+ * The returned account is a StacksSigner backed by the in-memory key
  */
 export function privateKeyToAccount(
   privateKey: string,
   network: NetworkType = 'testnet'
-): StacksAccount {
-  const transactionVersion = network === 'mainnet'
-    ? TransactionVersion.Mainnet
-    : TransactionVersion.Testnet;
-
-  const address = getAddressFromPrivateKey(privateKey, transactionVersion);
-
+): StacksAccount & StacksSigner {
   return {
-    address,
+    ...createPrivateKeySigner(privateKey, network),
     privateKey,
-    network,
   };
 }
 
 /**
  * Decode the payment-response header from base64 JSON
+ * Returns null if the header is missing or not a valid SettlementResponseV2
  */
 export function decodePaymentResponse(header: string | null | undefined): SettlementResponseV2 | null {
   if (!header) return null;
 
   try {
-    const decoded = Buffer.from(header, 'base64').toString('utf-8');
-    return JSON.parse(decoded) as SettlementResponseV2;
+    return decodeSchemaHeader<SettlementResponseV2>(header, validateSettlementResponseV2);
   } catch {
     return null;
   }
@@ -67,13 +96,13 @@ export function decodePaymentResponse(header: string | null | undefined): Settle
 
 /**
  * Decode the payment-required header from base64 JSON
+ * Returns null if the header is missing or not a valid PaymentRequiredV2
  */
 export function decodePaymentRequired(header: string | null | undefined): PaymentRequiredV2 | null {
   if (!header) return null;
 
   try {
-    const decoded = Buffer.from(header, 'base64').toString('utf-8');
-    return JSON.parse(decoded) as PaymentRequiredV2;
+    return decodeSchemaHeader<PaymentRequiredV2>(header, validatePaymentRequiredV2);
   } catch {
     return null;
   }
@@ -123,86 +152,174 @@ function getTokenContractForAsset(asset: string, network: NetworkType): TokenCon
 /**
  * Sign a payment transaction based on x402 v2 payment requirements
  * Returns the signed transaction hex (does not broadcast)
+ * Nonce and fee are fetched from the network unless given
  */
-async function signPaymentV2(
+export async function signPaymentV2(
   paymentRequirements: PaymentRequirementsV2,
-  account: StacksAccount
+  account: StacksSigner | StacksAccount,
+  options: { nonce?: bigint; fee?: bigint } = {}
 ): Promise<string> {
+  const signer = toStacksSigner(account);
   const amount = BigInt(paymentRequirements.amount);
-  const { tokenType } = assetFromV2(paymentRequirements.asset);
   const network = getNetworkInstanceFromCAIP2(paymentRequirements.network);
-  const v1Network = networkFromCAIP2(paymentRequirements.network);
+  // Any contract asset is a SIP-010 transfer, including tokens other than sBTC and USDCx
+  const tokenContract = getTokenContractForAsset(
+    paymentRequirements.asset,
+    networkFromCAIP2(paymentRequirements.network)
+  );
 
   // Generate a short memo (max 34 bytes for Stacks)
   const memo = `x402:${Date.now().toString(36)}`.substring(0, 34);
 
-  if (tokenType === 'sBTC' || tokenType === 'USDCx') {
-    // SIP-010 token transfer
-    const tokenContract = getTokenContractForAsset(paymentRequirements.asset, v1Network);
-
-    if (!tokenContract) {
-      throw new Error(`Token contract required for ${tokenType} payments`);
-    }
+  if (tokenContract) {
+    // Fails before signing when the token's fungible asset name is unknown
+    const postConditions = createPaymentPostConditions(signer.address, amount, tokenContract);
 
     const functionArgs = [
       uintCV(amount.toString()),
-      principalCV(account.address),
+      principalCV(signer.address),
       principalCV(paymentRequirements.payTo),
       memo ? someCV(bufferCVFromString(memo)) : noneCV(),
     ];
 
-    const transaction = await makeContractCall({
+    const unsignedTransaction = await makeUnsignedContractCall({
       contractAddress: tokenContract.address,
       contractName: tokenContract.name,
       functionName: 'transfer',
       functionArgs,
-      senderKey: account.privateKey,
+      publicKey: signer.publicKey,
       network,
+      ...(options.nonce !== undefined && { nonce: options.nonce }),
+      ...(options.fee !== undefined && { fee: options.fee }),
       anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Allow,
+      // Deny any asset movement beyond the exact payment amount
+      postConditionMode: PostConditionMode.Deny,
+      postConditions,
     });
 
+    const transaction = await signer.signTransaction(unsignedTransaction);
     const serialized = transaction.serialize();
     return Buffer.from(serialized).toString('hex');
   } else {
     // STX transfer
-    const transaction = await makeSTXTokenTransfer({
+    const unsignedTransaction = await makeUnsignedSTXTokenTransfer({
       recipient: paymentRequirements.payTo,
       amount,
-      senderKey: account.privateKey,
+      publicKey: signer.publicKey,
       network,
       memo,
+      ...(options.nonce !== undefined && { nonce: options.nonce }),
+      ...(options.fee !== undefined && { fee: options.fee }),
       anchorMode: AnchorMode.Any,
     });
+    applyPaymentPostConditions(unsignedTransaction, createPaymentPostConditions(signer.address, amount));
 
+    const transaction = await signer.signTransaction(unsignedTransaction);
     const serialized = transaction.serialize();
     return Buffer.from(serialized).toString('hex');
   }
 }
 
 /**
- * Validate that a response body is a valid x402 v2 payment request
+ * Sign an "upto" payment: the transfer of every ladder step, all with one nonce and fee
+ * Only one of the transactions can ever be mined; the server settles the step covering its usage
  */
-function isValidPaymentRequestV2(data: unknown): data is PaymentRequiredV2 {
-  if (!data || typeof data !== 'object') return false;
+export async function signUptoPaymentV2(
+  paymentRequirements: PaymentRequirementsV2,
+  account: StacksSigner | StacksAccount
+): Promise<StacksPayloadV2> {
+  const amounts = getUptoAmounts(paymentRequirements);
+  const maximum = amounts[amounts.length - 1];
+
+  // Sign the maximum first to fix the nonce and fee shared by every step
+  const transaction = await signPaymentV2({ ...paymentRequirements, amount: maximum }, account);
+  const { spendingCondition } = decodePaymentTransaction(transaction).transaction.auth;
+  const options = { nonce: spendingCondition.nonce, fee: spendingCondition.fee };
+
+  const authorizations: StacksUptoAuthorizationV2[] = [];
+  for (const amount of amounts.slice(0, -1)) {
+    authorizations.push({
+      amount,
+      transaction: await signPaymentV2({ ...paymentRequirements, amount }, account, options),
+    });
+  }
+  authorizations.push({ amount: maximum, transaction });
 
-  const request = data as Record<string, unknown>;
+  return { transaction, authorizations };
+}
 
-  return (
-    request.x402Version === 2 &&
-    typeof request.resource === 'object' &&
-    Array.isArray(request.accepts) &&
-    request.accepts.length > 0
-  );
+/**
+ * Sign a split payment: one transfer per leg of extra.splits, with consecutive nonces and one fee
+ */
+export async function signSplitPaymentV2(
+  paymentRequirements: PaymentRequirementsV2,
+  account: StacksSigner | StacksAccount
+): Promise<StacksPayloadV2> {
+  const splits = getPaymentSplits(paymentRequirements);
+  if (!splits) {
+    throw new Error('Payment requirements do not list any splits');
+  }
+  if (!isSplitPlanBalanced(paymentRequirements, splits)) {
+    throw new Error(`Payment splits do not add up to the payment amount of ${paymentRequirements.amount}`);
+  }
+
+  const legs: PaymentSplitLegV2[] = [];
+  let options: { nonce: bigint; fee: bigint } | undefined;
+
+  for (const split of splits) {
+    const transaction = await signPaymentV2(toSplitRequirements(paymentRequirements, split), account, options);
+    legs.push({ ...split, transaction });
+
+    // The first leg fixes the starting nonce and the fee for the rest
+    const { spendingCondition } = decodePaymentTransaction(transaction).transaction.auth;
+    options = { nonce: spendingCondition.nonce + 1n, fee: spendingCondition.fee };
+  }
+
+  return { transaction: legs[0].transaction, splits: legs };
+}
+
+/**
+ * Sign a payment for the selected option and build the payload sent in payment-signature
+ * Shared by the axios and fetch clients
+ */
+export async function createPaymentPayloadV2(
+  paymentRequired: PaymentRequiredV2,
+  selectedOption: PaymentRequirementsV2,
+  account: StacksSigner | StacksAccount
+): Promise<PaymentPayloadV2> {
+  let payload: StacksPayloadV2;
+  if (selectedOption.scheme === UPTO_SCHEME) {
+    payload = await signUptoPaymentV2(selectedOption, account);
+  } else if (getPaymentSplits(selectedOption)) {
+    payload = await signSplitPaymentV2(selectedOption, account);
+  } else {
+    payload = { transaction: await signPaymentV2(selectedOption, account) };
+  }
+
+  return {
+    x402Version: 2,
+    resource: paymentRequired.resource,
+    accepted: selectedOption,
+    payload,
+  };
+}
+
+/**
+ * Validate that a response body is a valid x402 v2 payment request
+ * Use validatePaymentRequiredV2 to find out what is wrong with an invalid one
+ */
+export function isValidPaymentRequestV2(data: unknown): data is PaymentRequiredV2 {
+  return validatePaymentRequiredV2(data).length === 0;
 }
 
 /**
  * Select the best payment option from available accepts
- * Currently selects the first Stacks-compatible option
+ * Currently selects the first Stacks-compatible option (optionally also passing isAllowed)
  */
-function selectPaymentOption(
+export function selectPaymentOption(
   accepts: PaymentRequirementsV2[],
-  account: StacksAccount
+  account: StacksSigner | StacksAccount,
+  isAllowed?: (option: PaymentRequirementsV2) => boolean
 ): PaymentRequirementsV2 | null {
   // Find a compatible Stacks payment option
   const compatibleOption = accepts.find((opt) => {
@@ -212,15 +329,131 @@ function selectPaymentOption(
     }
 
     // Check if network matches account
-    const v1Network = networkFromCAIP2(opt.network);
-    return v1Network === account.network;
+    let v1Network: NetworkType;
+    try {
+      v1Network = networkFromCAIP2(opt.network);
+    } catch {
+      return false;
+    }
+    if (v1Network !== account.network) {
+      return false;
+    }
+
+    return isAllowed ? isAllowed(opt) : true;
   });
 
   return compatibleOption || null;
 }
 
-// Track which requests have already had payment attempted
-const paymentAttempted = new WeakSet<InternalAxiosRequestConfig>();
+/**
+ * Read payment requirements from an axios 402 response (header first, then body)
+ */
+function readPaymentRequired(response: AxiosResponse): PaymentRequiredV2 | null {
+  const paymentRequired = decodePaymentRequired(response.headers[X402_HEADERS.PAYMENT_REQUIRED]);
+  if (paymentRequired) {
+    return paymentRequired;
+  }
+
+  return isValidPaymentRequestV2(response.data) ? response.data : null;
+}
+
+/**
+ * Recover the requirements a request paid against from its payment-signature header
+ */
+function getSentRequirements(header: string): PaymentRequirementsV2 | undefined {
+  try {
+    return decodeSchemaHeader<PaymentPayloadV2>(header, validatePaymentPayloadV2).accepted;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A payment option the spending policy authorized
+ */
+export interface AuthorizedPaymentOption {
+  /** The selected option */
+  requirements: PaymentRequirementsV2;
+  /** Id of the budget reservation made for the payment (null without a policy) */
+  reservation: string | null;
+}
+
+/**
+ * Pick a payment option permitted by the policy, or reject with the reason the best option was refused
+ * Shared by the axios and fetch clients
+ * @throws NoCompatibleOptionError or PolicyViolationError
+ */
+export async function selectAndAuthorizePaymentOption(
+  paymentRequired: PaymentRequiredV2,
+  account: StacksSigner | StacksAccount,
+  enforcer: PaymentPolicyEnforcer | null,
+  url?: string,
+  response?: unknown
+): Promise<AuthorizedPaymentOption> {
+  const selectedOption = selectPaymentOption(
+    paymentRequired.accepts,
+    account,
+    enforcer ? (opt) => enforcer.check(opt, url) === null : undefined
+  );
+
+  if (!selectedOption) {
+    const compatibleOption = enforcer ? selectPaymentOption(paymentRequired.accepts, account) : null;
+
+    if (enforcer && compatibleOption) {
+      throw new PolicyViolationError(
+        enforcer.check(compatibleOption, url) || 'amount_exceeds_limit',
+        compatibleOption,
+        undefined,
+        { paymentRequired, response }
+      );
+    }
+
+    throw new NoCompatibleOptionError(
+      `No compatible payment option found. Available networks: ${paymentRequired.accepts.map((a) => a.network).join(', ')}`,
+      { paymentRequired, response }
+    );
+  }
+
+  const reservation = enforcer ? await enforcer.authorize(selectedOption, { url, paymentRequired, response }) : null;
+
+  return { requirements: selectedOption, reservation };
+}
+
+/**
+ * Server error codes after which the payer's funds are known not to have moved
+ */
+const UNSPENT_SETTLEMENT_CODES: ReadonlySet<string> = new Set([
+  X402_ERROR_CODES.BROADCAST_FAILED,
+  X402_ERROR_CODES.TRANSACTION_FAILED,
+]);
+
+/**
+ * Build the error for a paid request answered with another 402, releasing its budget reservation
+ * when the payment was not spent. Shared by the axios and fetch clients
+ */
+export function rejectPaidRequest(
+  enforcer: PaymentPolicyEnforcer | null,
+  context: {
+    paymentRequired?: PaymentRequiredV2;
+    requirements?: PaymentRequirementsV2;
+    errorReason?: string;
+    response: unknown;
+    /** Budget reservation of the paid request */
+    reservation?: string | null;
+  }
+): PaymentRejectedError | SettlementFailedError {
+  const { reservation, ...errorContext } = context;
+  const failure = createPaymentFailureError(errorContext);
+
+  const unspent =
+    failure instanceof PaymentRejectedError ||
+    (context.errorReason !== undefined && UNSPENT_SETTLEMENT_CODES.has(context.errorReason));
+  if (enforcer && reservation && unspent) {
+    enforcer.release(reservation);
+  }
+
+  return failure;
+}
 
 /**
  * Wrap an axios instance with automatic x402 payment handling
@@ -245,72 +478,104 @@ const paymentAttempted = new WeakSet<InternalAxiosRequestConfig>();
  */
 export function wrapAxiosWithPayment(
   axiosInstance: AxiosInstance,
-  account: StacksAccount
+  account: StacksSigner | StacksAccount,
+  options: PaymentClientOptions = {}
 ): AxiosInstance {
+  const enforcer = options.policy ? new PaymentPolicyEnforcer(options.policy) : null;
+  const tokenCache = options.accessTokens === false ? null : new AccessTokenCache();
+  // Budget reservations of paid retries in flight, by payment-signature header
+  const reservations = new Map<string, string>();
+
+  const takeReservation = (config: InternalAxiosRequestConfig | undefined): string | undefined => {
+    const sentPayment = config?.headers?.[X402_HEADERS.PAYMENT_SIGNATURE];
+    if (typeof sentPayment !== 'string') return undefined;
+
+    const reservation = reservations.get(sentPayment);
+    reservations.delete(sentPayment);
+    return reservation;
+  };
+
+  // Send a cached access token instead of paying again
+  if (tokenCache) {
+    axiosInstance.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+      const token = tokenCache.get(axiosInstance.getUri(config));
+      if (token && config.headers && !config.headers[ACCESS_TOKEN_HEADER]) {
+        config.headers[ACCESS_TOKEN_HEADER] = token;
+      }
+      return config;
+    });
+  }
+
   // Response interceptor to handle 402 Payment Required
   axiosInstance.interceptors.response.use(
-    // Pass through successful responses
-    (response: AxiosResponse) => response,
+    // Pass through successful responses, remembering any access token issued
+    (response: AxiosResponse) => {
+      takeReservation(response.config);
+      const token = response.headers?.[ACCESS_TOKEN_HEADER];
+      if (tokenCache && typeof token === 'string' && response.config) {
+        tokenCache.set(axiosInstance.getUri(response.config), token);
+      }
+      return response;
+    },
 
     // Handle errors (including 402)
     async (error) => {
       const originalRequest = error.config as InternalAxiosRequestConfig;
+      const reservation = takeReservation(originalRequest);
 
       // Check if this is a 402 response
       if (error.response?.status !== 402) {
         return Promise.reject(error);
       }
 
-      // Prevent infinite retry loops - only attempt payment once per request
-      if (paymentAttempted.has(originalRequest)) {
-        return Promise.reject(new Error('Payment already attempted for this request'));
-      }
-
-      // Mark this request as having payment attempted
-      paymentAttempted.add(originalRequest);
-
-      // Try to get payment requirements from header first, then body
-      let paymentRequired: PaymentRequiredV2 | null = null;
-
-      // Check header
-      const headerValue = error.response.headers[X402_HEADERS.PAYMENT_REQUIRED];
-      if (headerValue) {
-        paymentRequired = decodePaymentRequired(headerValue);
+      // Only attempt payment once per request: a 402 for a paid retry means the payment was refused
+      // (axios copies the config on retry, so the signature header is what marks the attempt)
+      const sentPayment = originalRequest.headers?.[X402_HEADERS.PAYMENT_SIGNATURE];
+      if (typeof sentPayment === 'string') {
+        const body = error.response.data as { error?: unknown } | undefined;
+        return Promise.reject(
+          rejectPaidRequest(enforcer, {
+            paymentRequired: readPaymentRequired(error.response) || undefined,
+            requirements: getSentRequirements(sentPayment),
+            errorReason: typeof body?.error === 'string' ? body.error : undefined,
+            response: error.response,
+            reservation,
+          })
+        );
       }
 
-      // Fall back to body
-      if (!paymentRequired && isValidPaymentRequestV2(error.response.data)) {
-        paymentRequired = error.response.data;
+      // A token that no longer unlocks the resource is dropped before paying again
+      if (tokenCache && originalRequest.headers?.[ACCESS_TOKEN_HEADER]) {
+        tokenCache.delete(axiosInstance.getUri(originalRequest));
+        delete originalRequest.headers[ACCESS_TOKEN_HEADER];
       }
 
+      // Get payment requirements from header first, then body
+      const paymentRequired = readPaymentRequired(error.response);
       if (!paymentRequired) {
-        return Promise.reject(new Error('Invalid x402 v2 payment request from server'));
+        return Promise.reject(
+          new X402Error('Invalid x402 v2 payment request from server', { response: error.response })
+        );
       }
 
-      // Select a compatible payment option
-      const selectedOption = selectPaymentOption(paymentRequired.accepts, account);
-
-      if (!selectedOption) {
-        return Promise.reject(
-          new Error(
-            `No compatible payment option found. Available networks: ${paymentRequired.accepts.map((a) => a.network).join(', ')}`
-          )
+      // Select a compatible payment option allowed by the spending policy
+      let authorized: AuthorizedPaymentOption;
+      try {
+        authorized = await selectAndAuthorizePaymentOption(
+          paymentRequired,
+          account,
+          enforcer,
+          axiosInstance.getUri(originalRequest),
+          error.response
         );
+      } catch (selectionError) {
+        return Promise.reject(selectionError);
       }
+      const selectedOption = authorized.requirements;
 
       try {
         // Sign the payment (don't broadcast - server will do that via facilitator)
-        const signedTransaction = await signPaymentV2(selectedOption, account);
-
-        // Create V2 payment payload
-        const paymentPayload: PaymentPayloadV2 = {
-          x402Version: 2,
-          resource: paymentRequired.resource,
-          accepted: selectedOption,
-          payload: {
-            transaction: signedTransaction,
-          },
-        };
+        const paymentPayload = await createPaymentPayloadV2(paymentRequired, selectedOption, account);
 
         // Encode payload as base64 for header
         const encodedPayload = encodePaymentPayload(paymentPayload);
@@ -318,13 +583,20 @@ export function wrapAxiosWithPayment(
         // Retry the request with the payment
         originalRequest.headers = originalRequest.headers || {};
         originalRequest.headers[X402_HEADERS.PAYMENT_SIGNATURE] = encodedPayload;
+        if (authorized.reservation) {
+          reservations.set(encodedPayload, authorized.reservation);
+        }
 
         // Make the retry request
         return axiosInstance.request(originalRequest);
       } catch (paymentError) {
+        if (authorized.reservation) {
+          enforcer?.release(authorized.reservation);
+        }
         return Promise.reject(
-          new Error(
-            `Payment signing failed: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`
+          new SigningError(
+            `Payment signing failed: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`,
+            { paymentRequired, requirements: selectedOption, response: error.response, cause: paymentError }
           )
         );
       }
@@ -349,13 +621,14 @@ export function wrapAxiosWithPayment(
  * ```
  */
 export function createPaymentClient(
-  account: StacksAccount,
-  config?: Parameters<typeof import('axios').default.create>[0]
+  account: StacksSigner | StacksAccount,
+  config?: Parameters<typeof import('axios').default.create>[0],
+  options?: PaymentClientOptions
 ): AxiosInstance {
   // Dynamic import to avoid requiring axios at module load time
   const axios = require('axios');
   const instance = axios.create(config);
-  return wrapAxiosWithPayment(instance, account);
+  return wrapAxiosWithPayment(instance, account, options);
 }
 
 // ===== Backward Compatibility Aliases =====
@@ -0,0 +1,383 @@
+/**
+ * x402-stacks - JSON Schema / OpenAPI Export
+ * Machine-readable definitions of the x402 V2 wire types, for integrations outside TypeScript
+ *
+ * The schemas describe the same rules enforced by the runtime validators in schema-v2.ts.
+ * Unknown properties are allowed, matching the validators.
+ */
+
+import { WIRE_PATTERNS } from './schema-v2';
+
+/**
+ * A JSON Schema object
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Names of the exported x402 V2 schemas
+ */
+export type X402SchemaName =
+  | 'NetworkV2'
+  | 'ResourceInfo'
+  | 'PaymentRequirementsV2'
+  | 'PaymentRequiredV2'
+  | 'PaymentSplitV2'
+  | 'PaymentSplitLegV2'
+  | 'StacksUptoAuthorizationV2'
+  | 'StacksPayloadV2'
+  | 'PaymentPayloadV2'
+  | 'VerifyResponseV2'
+  | 'SettlementResponseV2'
+  | 'FacilitatorVerifyRequestV2'
+  | 'FacilitatorSettleRequestV2'
+  | 'SupportedKind'
+  | 'SupportedResponse';
+
+/** JSON Schema dialect of the standalone documents */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Build the schema definitions, resolving references with the given function
+ * (JSON Schema documents and OpenAPI components keep definitions in different places)
+ */
+function buildDefinitions(ref: (name: X402SchemaName) => JsonSchema): Record<X402SchemaName, JsonSchema> {
+  const amount = (description: string): JsonSchema => ({
+    type: 'string',
+    pattern: WIRE_PATTERNS.amount,
+    description,
+  });
+  const principal = (description: string): JsonSchema => ({
+    type: 'string',
+    pattern: WIRE_PATTERNS.principal,
+    description,
+  });
+  const transactionHex: JsonSchema = {
+    type: 'string',
+    pattern: WIRE_PATTERNS.hex,
+    description: 'Signed transaction hex',
+  };
+  const x402Version: JsonSchema = { type: 'integer', enum: [2], description: 'Protocol version (must be 2)' };
+  const extensions: JsonSchema = { type: 'object', description: 'Protocol extensions data' };
+
+  return {
+    NetworkV2: {
+      type: 'string',
+      pattern: WIRE_PATTERNS.stacksNetwork,
+      description: 'CAIP-2 network identifier for Stacks ("stacks:1" mainnet, "stacks:2147483648" testnet)',
+      examples: ['stacks:1', 'stacks:2147483648'],
+    },
+
+    ResourceInfo: {
+      type: 'object',
+      description: 'Information about the protected resource',
+      required: ['url'],
+      properties: {
+        url: { type: 'string', minLength: 1, description: 'URL of the protected resource' },
+        description: { type: 'string', description: 'Human-readable description of the resource' },
+        mimeType: { type: 'string', description: 'MIME type of the expected response' },
+      },
+    },
+
+    PaymentRequirementsV2: {
+      type: 'object',
+      description: 'A payment method accepted for a resource',
+      required: ['scheme', 'network', 'amount', 'asset', 'payTo', 'maxTimeoutSeconds'],
+      properties: {
+        scheme: { type: 'string', minLength: 1, description: 'Payment scheme identifier ("exact" or "upto")' },
+        network: ref('NetworkV2'),
+        amount: amount('Required payment amount in atomic units (the maximum for "upto")'),
+        asset: {
+          type: 'string',
+          pattern: WIRE_PATTERNS.asset,
+          description: 'Asset identifier ("STX", "SBTC" or "USDCX" in any case, or "SP...address.contract-name")',
+        },
+        payTo: principal('Recipient address'),
+        maxTimeoutSeconds: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Maximum time allowed for payment completion',
+        },
+        extra: {
+          type: 'object',
+          description: 'Scheme-specific additional information',
+          properties: {
+            splits: {
+              type: 'array',
+              minItems: 1,
+              items: ref('PaymentSplitV2'),
+              description: 'Split payments only: one leg per recipient, primary recipient first',
+            },
+          },
+        },
+      },
+    },
+
+    PaymentRequiredV2: {
+      type: 'object',
+      description: 'Payment required response (402 body and base64 payment-required header)',
+      required: ['x402Version', 'resource', 'accepts'],
+      properties: {
+        x402Version,
+        error: { type: 'string', description: 'Human-readable error message' },
+        resource: ref('ResourceInfo'),
+        accepts: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            if: { required: ['network'], properties: { network: { type: 'string', pattern: '^stacks:' } } },
+            then: ref('PaymentRequirementsV2'),
+            else: {
+              type: 'object',
+              required: ['scheme', 'network', 'amount', 'asset', 'payTo', 'maxTimeoutSeconds'],
+              properties: {
+                scheme: { type: 'string', minLength: 1 },
+                network: { type: 'string', pattern: WIRE_PATTERNS.caip2 },
+                amount: { type: 'string', minLength: 1 },
+                asset: { type: 'string', minLength: 1 },
+                payTo: { type: 'string', minLength: 1 },
+                maxTimeoutSeconds: { type: 'integer', minimum: 0 },
+                extra: { type: 'object' },
+              },
+            },
+          },
+          description: 'Acceptable payment methods; options for other chains only need the generic x402 shape',
+        },
+        extensions,
+      },
+    },
+
+    PaymentSplitV2: {
+      type: 'object',
+      description: "One recipient's share of a split payment",
+      required: ['payTo', 'amount'],
+      properties: {
+        payTo: principal('Recipient address'),
+        amount: amount('Amount for this recipient in atomic units'),
+      },
+    },
+
+    PaymentSplitLegV2: {
+      type: 'object',
+      description: 'One leg of a split payment and its signed transaction',
+      required: ['payTo', 'amount', 'transaction'],
+      properties: {
+        payTo: principal('Recipient address'),
+        amount: amount('Amount for this recipient in atomic units'),
+        transaction: transactionHex,
+      },
+    },
+
+    StacksUptoAuthorizationV2: {
+      type: 'object',
+      description: 'One step of an "upto" payment: a signed transfer of a specific amount',
+      required: ['amount', 'transaction'],
+      properties: {
+        amount: amount('Amount transferred in atomic units'),
+        transaction: transactionHex,
+      },
+    },
+
+    StacksPayloadV2: {
+      type: 'object',
+      description: 'Stacks-specific payment data',
+      required: ['transaction'],
+      properties: {
+        transaction: transactionHex,
+        authorizations: {
+          type: 'array',
+          minItems: 1,
+          items: ref('StacksUptoAuthorizationV2'),
+          description: '"upto" scheme only: the payment signed at each step amount, all with the same nonce',
+        },
+        splits: {
+          type: 'array',
+          minItems: 1,
+          items: ref('PaymentSplitLegV2'),
+          description: 'Split payments only: one signed transfer per leg of extra.splits, with consecutive nonces',
+        },
+      },
+    },
+
+    PaymentPayloadV2: {
+      type: 'object',
+      description: 'Payment payload (base64 payment-signature header)',
+      required: ['x402Version', 'accepted', 'payload'],
+      properties: {
+        x402Version,
+        resource: ref('ResourceInfo'),
+        accepted: ref('PaymentRequirementsV2'),
+        payload: ref('StacksPayloadV2'),
+        extensions,
+      },
+    },
+
+    VerifyResponseV2: {
+      type: 'object',
+      description: 'Facilitator verification result',
+      required: ['isValid'],
+      properties: {
+        isValid: { type: 'boolean', description: 'Whether the payment authorization is valid' },
+        invalidReason: { type: 'string', description: 'Reason for invalidity (omitted if valid)' },
+        payer: { type: 'string', description: "Address of the payer's wallet" },
+      },
+    },
+
+    SettlementResponseV2: {
+      type: 'object',
+      description: 'Settlement result (facilitator /settle body and base64 payment-response header)',
+      required: ['success', 'transaction', 'network'],
+      properties: {
+        success: { type: 'boolean', description: 'Whether the payment settlement was successful' },
+        errorReason: { type: 'string', description: 'Error reason if settlement failed' },
+        payer: { type: 'string', description: "Address of the payer's wallet" },
+        transaction: { type: 'string', description: 'Blockchain transaction ID (empty if nothing was settled)' },
+        network: ref('NetworkV2'),
+        amount: amount('Amount charged in atomic units (set for "upto" payments)'),
+        splits: {
+          type: 'array',
+          description: 'Settled legs of a split payment (transaction is each leg\'s transaction ID)',
+          items: {
+            type: 'object',
+            required: ['payTo', 'amount', 'transaction'],
+            properties: {
+              payTo: principal('Recipient address'),
+              amount: amount('Amount for this recipient in atomic units'),
+              transaction: { type: 'string', description: 'Transaction ID' },
+            },
+          },
+        },
+      },
+    },
+
+    FacilitatorVerifyRequestV2: {
+      type: 'object',
+      description: 'Request body for POST /verify',
+      required: ['x402Version', 'paymentPayload', 'paymentRequirements'],
+      properties: {
+        x402Version,
+        paymentPayload: ref('PaymentPayloadV2'),
+        paymentRequirements: ref('PaymentRequirementsV2'),
+      },
+    },
+
+    FacilitatorSettleRequestV2: {
+      type: 'object',
+      description: 'Request body for POST /settle',
+      required: ['x402Version', 'paymentPayload', 'paymentRequirements'],
+      properties: {
+        x402Version,
+        paymentPayload: ref('PaymentPayloadV2'),
+        paymentRequirements: ref('PaymentRequirementsV2'),
+      },
+    },
+
+    SupportedKind: {
+      type: 'object',
+      description: 'A supported payment kind',
+      required: ['x402Version', 'scheme', 'network'],
+      properties: {
+        x402Version: { type: 'integer', minimum: 0, description: 'Protocol version supported' },
+        scheme: { type: 'string', minLength: 1, description: 'Payment scheme identifier' },
+        network: { type: 'string', pattern: WIRE_PATTERNS.caip2, description: 'CAIP-2 network identifier' },
+        extra: { type: 'object', description: 'Additional scheme-specific configuration' },
+      },
+    },
+
+    SupportedResponse: {
+      type: 'object',
+      description: 'Response from GET /supported',
+      required: ['kinds', 'extensions', 'signers'],
+      properties: {
+        kinds: { type: 'array', items: ref('SupportedKind'), description: 'Supported payment kinds' },
+        extensions: { type: 'array', items: { type: 'string' }, description: 'Supported extension identifiers' },
+        signers: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+          description: 'Map of CAIP-2 patterns to public signer addresses',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Names of the definitions a schema refers to, directly or indirectly
+ */
+function collectReferences(
+  name: X402SchemaName,
+  definitions: Record<X402SchemaName, JsonSchema>,
+  found: Set<X402SchemaName> = new Set()
+): Set<X402SchemaName> {
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const target = (value as { $ref?: unknown }).$ref;
+      if (typeof target === 'string') {
+        const referenced = target.slice(target.lastIndexOf('/') + 1) as X402SchemaName;
+        if (!found.has(referenced)) {
+          found.add(referenced);
+          collectReferences(referenced, definitions, found);
+        }
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(definitions[name]);
+  return found;
+}
+
+/**
+ * Get standalone JSON Schema (2020-12) documents for the x402 V2 wire types
+ * Each document carries the definitions it references under $defs
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'fs';
+ * import { getX402JsonSchemas } from 'x402-stacks';
+ *
+ * for (const [name, schema] of Object.entries(getX402JsonSchemas())) {
+ *   writeFileSync(`schemas/${name}.json`, JSON.stringify(schema, null, 2));
+ * }
+ * ```
+ */
+export function getX402JsonSchemas(): Record<X402SchemaName, JsonSchema> {
+  const definitions = buildDefinitions((name) => ({ $ref: `#/$defs/${name}` }));
+  const documents = {} as Record<X402SchemaName, JsonSchema>;
+
+  for (const name of Object.keys(definitions) as X402SchemaName[]) {
+    const referenced = [...collectReferences(name, definitions)].filter((other) => other !== name);
+    const $defs = Object.fromEntries(referenced.map((other) => [other, definitions[other]]));
+
+    documents[name] = {
+      $schema: JSON_SCHEMA_DIALECT,
+      title: name,
+      ...definitions[name],
+      ...(referenced.length > 0 && { $defs }),
+    };
+  }
+
+  return documents;
+}
+
+/**
+ * Get the x402 V2 wire types as OpenAPI 3.1 components, referencing each other
+ * through #/components/schemas
+ *
+ * @example
+ * ```typescript
+ * import { getX402OpenApiComponents } from 'x402-stacks';
+ *
+ * const components = getX402OpenApiComponents();
+ * const document = {
+ *   openapi: '3.1.0',
+ *   info: { title: 'My API', version: '1.0.0' },
+ *   paths: { ... },
+ *   components: { schemas: { ...mySchemas, ...components.schemas } },
+ * };
+ * ```
+ */
+export function getX402OpenApiComponents(): { schemas: Record<X402SchemaName, JsonSchema> } {
+  return { schemas: buildDefinitions((name) => ({ $ref: `#/components/schemas/${name}` })) };
+}
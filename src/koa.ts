@@ -0,0 +1,195 @@
+/**
+ * x402-stacks - Koa Middleware (Coinbase Compatible)
+ * Koa adapters for x402 payment gating, sharing the Express middleware configuration
+ */
+
+import type { Context, Middleware, Next } from 'koa';
+import { SettlementResponseV2, X402_HEADERS } from './types-v2';
+import {
+  PaymentMiddlewareConfig,
+  PaymentRequestLike,
+  createPaymentProcessor,
+  completeWhenSent,
+  toRawBody,
+  PaymentGated,
+  exposePaymentConfig,
+  createTierGates,
+} from './payment-processor';
+import { PaymentUsage, addUsage } from './upto';
+import { RateLimitStore, RateLimitRecord, MemoryRateLimitStore } from './rate-limit-store';
+
+/**
+ * Build the processor's view of a Koa context
+ */
+function toPaymentRequest(ctx: Context): PaymentRequestLike {
+  // koa-bodyparser keeps the raw text; other parsers only leave a parsed body
+  const { rawBody, body } = ctx.request as { rawBody?: string; body?: unknown };
+
+  return {
+    url: ctx.href,
+    method: ctx.method,
+    headers: ctx.headers,
+    rawBody: rawBody ?? toRawBody(body, ctx.get('content-type')),
+  };
+}
+
+/**
+ * Koa middleware for x402 payment requirements
+ * Sets ctx.state.payment and the payment-required / payment-response headers
+ *
+ * In deferred mode the handler runs first. With "receipt" delivery settlement happens
+ * after the response is sent; with "trailer" delivery Koa holds the response until
+ * settlement completes and sends payment-response as a regular header.
+ * On "upto" routes, handlers report the consumed amount in ctx.state.paymentUsage.
+ *
+ * @example
+ * ```typescript
+ * import Koa from 'koa';
+ * import { koaPaymentMiddleware } from 'x402-stacks';
+ *
+ * const app = new Koa();
+ * app.use(koaPaymentMiddleware({ payTo: 'SP...', amount: '1000000', network: 'mainnet' }));
+ * app.use((ctx) => {
+ *   ctx.body = { payer: ctx.state.payment.payer };
+ * });
+ * ```
+ */
+export function koaPaymentMiddleware(config: PaymentMiddlewareConfig): PaymentGated<Middleware> {
+  const processPayment = createPaymentProcessor(config);
+
+  return exposePaymentConfig(async (ctx: Context, next: Next) => {
+    const decision = await processPayment(toPaymentRequest(ctx));
+
+    if (decision.type === 'rejected') {
+      ctx.set(decision.headers);
+      ctx.status = decision.statusCode;
+      ctx.body = decision.html ?? decision.body;
+      return;
+    }
+
+    ctx.state.payment = decision.payment;
+
+    if (decision.type === 'settled') {
+      ctx.set(decision.headers);
+      await next();
+      return;
+    }
+
+    // "upto" handlers set ctx.state.paymentUsage, or add to it with ctx.state.reportUsage(amount)
+    ctx.state.reportUsage = (amount: PaymentUsage) => {
+      ctx.state.paymentUsage = addUsage(ctx.state.paymentUsage, amount);
+    };
+    const settle = () => decision.settle(ctx.state.paymentUsage);
+
+    if (decision.delivery === 'trailer') {
+      // Koa writes the response after the middleware chain, so settle now and use a header
+      try {
+        await next();
+      } catch (error) {
+        await decision.cancel();
+        throw error;
+      }
+
+      if (ctx.status < 400) {
+        try {
+          const settlement = await settle();
+          ctx.set(X402_HEADERS.PAYMENT_RESPONSE, Buffer.from(JSON.stringify(settlement)).toString('base64'));
+        } catch (error) {
+          // As with Express trailers, the handler's response is still sent, without payment-response
+          console.error('x402 trailer settlement error:', error);
+        }
+      }
+      return;
+    }
+
+    ctx.set(decision.headers);
+
+    try {
+      await next();
+    } catch (error) {
+      await decision.cancel();
+      throw error;
+    }
+
+    // Settle in the background once the response has gone out
+    completeWhenSent(ctx.res, decision, settle, (error) => console.error('x402 deferred settlement error:', error));
+  }, config);
+}
+
+/**
+ * Utility to get payment info from a Koa context
+ */
+export function getKoaPayment(ctx: Context): SettlementResponseV2 | undefined {
+  return ctx.state.payment;
+}
+
+/**
+ * Conditional payment middleware for Koa - only require payment if condition is met
+ */
+export function koaConditionalPayment(
+  condition: (ctx: Context) => boolean | Promise<boolean>,
+  config: PaymentMiddlewareConfig
+): PaymentGated<Middleware> {
+  const middleware = koaPaymentMiddleware(config);
+
+  return exposePaymentConfig(async (ctx: Context, next: Next) => {
+    const shouldRequirePayment = await condition(ctx);
+
+    if (shouldRequirePayment) {
+      return middleware(ctx, next);
+    }
+
+    await next();
+  }, config);
+}
+
+/**
+ * Tiered payment middleware for Koa - different amounts based on request
+ * One gate is created per tier and reused; a misconfigured baseConfig throws here
+ */
+export function koaTieredPayment(
+  getTier: (ctx: Context) => { amount: string | bigint; description?: string } | Promise<{ amount: string | bigint; description?: string }>,
+  baseConfig: Omit<PaymentMiddlewareConfig, 'amount' | 'description'>
+): PaymentGated<Middleware> {
+  const getGate = createTierGates(baseConfig, koaPaymentMiddleware);
+
+  // Errors from getTier reject the middleware and reach Koa's error handling
+  const middleware = async (ctx: Context, next: Next) => getGate(await getTier(ctx))(ctx, next);
+
+  // Priced per request, so the exposed configuration carries no amount
+  return exposePaymentConfig(middleware, baseConfig as PaymentMiddlewareConfig);
+}
+
+/**
+ * Rate limiting with payment for Koa - require payment after free tier
+ */
+export function koaPaymentRateLimit(config: {
+  freeRequests: number;
+  windowMs: number;
+  paymentConfig: PaymentMiddlewareConfig;
+  keyGenerator?: (ctx: Context) => string;
+  /** Counter store (default: in-memory); use a shared store behind a load balancer */
+  store?: RateLimitStore;
+}): PaymentGated<Middleware> {
+  const store = config.store || new MemoryRateLimitStore();
+  const middleware = koaPaymentMiddleware(config.paymentConfig);
+
+  return exposePaymentConfig(async (ctx: Context, next: Next) => {
+    const key = config.keyGenerator ? config.keyGenerator(ctx) : ctx.ip || 'unknown';
+
+    // Count this request; once past the free tier it must be paid for
+    let record: RateLimitRecord;
+    try {
+      record = await store.increment(key, config.windowMs);
+    } catch (error) {
+      console.error('x402 rate limit store error:', error);
+      return middleware(ctx, next);
+    }
+
+    if (record.count > config.freeRequests) {
+      return middleware(ctx, next);
+    }
+
+    await next();
+  }, config.paymentConfig);
+}
@@ -4,228 +4,156 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { X402PaymentVerifier } from './verifier-v2';
 import {
-  NetworkV2,
-  PaymentRequirementsV2,
   PaymentRequiredV2,
-  PaymentPayloadV2,
   SettlementResponseV2,
-  ResourceInfo,
   X402_HEADERS,
-  X402_ERROR_CODES,
 } from './types-v2';
-import { networkToCAIP2, assetToV2 } from './utils';
-import { NetworkType, TokenType, TokenContract, VerifiedPayment } from './types';
+import {
+  PaymentMiddlewareConfig,
+  PaymentRequestLike,
+  createPaymentProcessor,
+  completeWhenSent,
+  toRawBody,
+  exposePaymentConfig,
+  getPaymentConfig,
+  createTierGates,
+} from './payment-processor';
+import { PaymentUsage, addUsage } from './upto';
+import { RateLimitStore, RateLimitRecord, MemoryRateLimitStore } from './rate-limit-store';
+import { decodeSchemaHeader, validatePaymentRequiredV2, validateSettlementResponseV2 } from './schema-v2';
+
+export {
+  buildPaymentRequirements,
+  findMatchingRequirements,
+} from './payment-processor';
+export type {
+  PaymentMiddlewareConfig,
+  PaymentOption,
+  SettlementMode,
+  DeferredDelivery,
+} from './payment-processor';
 
 /**
- * Configuration for x402 payment middleware
+ * Build the processor's view of an Express request
  */
-export interface PaymentMiddlewareConfig {
-  /** Payment scheme (default: "exact") */
-  scheme?: string;
-
-  /** Network in CAIP-2 format or V1 format (will be converted) */
-  network: NetworkV2 | NetworkType;
-
-  /** Required payment amount in atomic units (microSTX, satoshis, etc.) */
-  amount: string | bigint;
-
-  /** Asset identifier ("STX", "SBTC", "USDCX", or contract identifier) */
-  asset?: string;
-
-  /** Token type for V1 compatibility (converted to asset) */
-  tokenType?: TokenType;
-
-  /** Token contract for V1 compatibility */
-  tokenContract?: TokenContract;
-
-  /** Recipient address */
-  payTo: string;
-
-  /** Maximum time allowed for payment completion (default: 300) */
-  maxTimeoutSeconds?: number;
-
-  /** Facilitator API URL */
-  facilitatorUrl?: string;
-
-  /** Resource description */
-  description?: string;
-
-  /** Resource MIME type */
-  mimeType?: string;
-
-  /** Custom payment validator */
-  paymentValidator?: (payment: SettlementResponseV2) => boolean | Promise<boolean>;
+function toPaymentRequest(req: Request): PaymentRequestLike {
+  return {
+    url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+    method: req.method,
+    headers: req.headers,
+    rawBody: toRawBody(req.body, req.get('content-type')),
+  };
+}
 
-  /** Additional scheme-specific data */
-  extra?: Record<string, unknown>;
+/**
+ * Express middleware returned by paymentMiddleware, exposing its configuration
+ * (read by getPaidRoutes to find the paid routes of an app)
+ */
+export interface PaymentGateMiddleware {
+  (req: Request, res: Response, next: NextFunction): Promise<unknown>;
+  /** The configuration the gate was created with */
+  paymentConfig: PaymentMiddlewareConfig;
 }
 
 /**
  * Express middleware for x402 payment requirements
  * Compatible with Coinbase x402 protocol
+ * Thin adapter over createPaymentProcessor
+ *
+ * On "upto" routes, handlers report the consumed amount in res.locals.paymentUsage
  */
-export function paymentMiddleware(config: PaymentMiddlewareConfig) {
-  const facilitatorUrl = config.facilitatorUrl || 'http://localhost:8085';
-  const verifier = new X402PaymentVerifier(facilitatorUrl);
+export function paymentMiddleware(config: PaymentMiddlewareConfig): PaymentGateMiddleware {
+  const processPayment = createPaymentProcessor(config);
 
-  // Normalize network to CAIP-2 format
-  const network: NetworkV2 = config.network.includes(':')
-    ? (config.network as NetworkV2)
-    : networkToCAIP2(config.network as NetworkType);
+  const middleware = (async (req: Request, res: Response, next: NextFunction) => {
+    const decision = await processPayment(toPaymentRequest(req));
 
-  // Normalize asset
-  const asset = config.asset || assetToV2(config.tokenType || 'STX', config.tokenContract);
-
-  return async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      // Check for payment in payment-signature header (V2 format, base64 encoded)
-      const paymentSignatureHeader = req.headers[X402_HEADERS.PAYMENT_SIGNATURE] as string;
-
-      // If no payment provided, return 402 Payment Required
-      if (!paymentSignatureHeader) {
-        return sendPaymentRequired(req, res, config, network, asset);
-      }
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
 
-      // Decode the payment payload from base64
-      let paymentPayload: PaymentPayloadV2;
-      try {
-        const decoded = Buffer.from(paymentSignatureHeader, 'base64').toString('utf-8');
-        paymentPayload = JSON.parse(decoded);
-      } catch (e) {
-        return res.status(400).json({
-          error: X402_ERROR_CODES.INVALID_PAYLOAD,
-          message: 'Invalid payment-signature header: failed to decode',
-        });
-      }
+    if (decision.type === 'rejected') {
+      return decision.html !== undefined
+        ? res.status(decision.statusCode).send(decision.html)
+        : res.status(decision.statusCode).json(decision.body);
+    }
 
-      // Validate x402 version
-      if (paymentPayload.x402Version !== 2) {
-        return res.status(400).json({
-          error: X402_ERROR_CODES.INVALID_X402_VERSION,
-          message: 'Only x402 v2 is supported',
-        });
-      }
+    // Payment is valid, attach payment info to request
+    (req as any).payment = decision.payment;
+    (req as any).paymentV2 = decision.payment;
 
-      // Build payment requirements
-      const paymentRequirements: PaymentRequirementsV2 = {
-        scheme: config.scheme || 'exact',
-        network,
-        amount: config.amount.toString(),
-        asset,
-        payTo: config.payTo,
-        maxTimeoutSeconds: config.maxTimeoutSeconds || 300,
-        extra: config.extra,
+    if (decision.type === 'verified') {
+      // "upto" handlers set res.locals.paymentUsage, or add to it with res.locals.reportUsage(amount)
+      res.locals.reportUsage = (amount: PaymentUsage) => {
+        res.locals.paymentUsage = addUsage(res.locals.paymentUsage, amount);
       };
+      const settle = () => decision.settle(res.locals.paymentUsage);
 
-      // Settle the payment via facilitator
-      const settlementResult = await verifier.settle(paymentPayload, { paymentRequirements });
-
-      // Check if settlement was successful
-      if (!settlementResult.success) {
-        // Return 402 with error info
-        const paymentRequired = createPaymentRequiredResponse(req, config, network, asset);
-
-        // Encode payment required response for header
-        const paymentRequiredHeader = Buffer.from(JSON.stringify(paymentRequired)).toString('base64');
-        res.setHeader(X402_HEADERS.PAYMENT_REQUIRED, paymentRequiredHeader);
-
-        return res.status(402).json({
-          error: settlementResult.errorReason || X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
-          payer: settlementResult.payer,
-          transaction: settlementResult.transaction,
-        });
-      }
-
-      // Custom validator if provided
-      if (config.paymentValidator) {
-        const customValid = await config.paymentValidator(settlementResult);
-        if (!customValid) {
-          return res.status(402).json({
-            error: 'custom_validation_failed',
-            message: 'Custom validation rejected the payment',
-          });
-        }
+      if (decision.delivery === 'trailer') {
+        deliverViaTrailer(res, settle);
+      } else {
+        // Settle in the background once the response has gone out
+        completeWhenSent(res, decision, settle, (error) => console.error('x402 deferred settlement error:', error));
       }
+    }
 
-      // Payment is valid, attach payment info to request
-      (req as any).payment = settlementResult;
-      (req as any).paymentV2 = settlementResult;
-
-      // Add payment-response header with settlement info (base64 encoded)
-      const paymentResponse = {
-        success: settlementResult.success,
-        payer: settlementResult.payer,
-        transaction: settlementResult.transaction,
-        network: settlementResult.network,
-      };
-      res.setHeader(
-        X402_HEADERS.PAYMENT_RESPONSE,
-        Buffer.from(JSON.stringify(paymentResponse)).toString('base64')
-      );
+    next();
+  }) as PaymentGateMiddleware;
 
-      next();
-    } catch (error) {
-      console.error('x402 v2 middleware error:', error);
-      return res.status(500).json({
-        error: X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
-        message: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  };
+  middleware.paymentConfig = config;
+  return middleware;
 }
 
 /**
- * Create payment required response object
+ * Check whether a handler is a payment gate (paymentMiddleware or one of its wrappers)
  */
-function createPaymentRequiredResponse(
-  req: Request,
-  config: PaymentMiddlewareConfig,
-  network: NetworkV2,
-  asset: string
-): PaymentRequiredV2 {
-  const resource: ResourceInfo = {
-    url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
-    description: config.description,
-    mimeType: config.mimeType,
-  };
-
-  const paymentRequirements: PaymentRequirementsV2 = {
-    scheme: config.scheme || 'exact',
-    network,
-    amount: config.amount.toString(),
-    asset,
-    payTo: config.payTo,
-    maxTimeoutSeconds: config.maxTimeoutSeconds || 300,
-    extra: config.extra,
-  };
-
-  return {
-    x402Version: 2,
-    resource,
-    accepts: [paymentRequirements],
-  };
+export function isPaymentGate(handler: unknown): handler is PaymentGateMiddleware {
+  return getPaymentConfig(handler) !== undefined;
 }
 
 /**
- * Send 402 Payment Required response
+ * Hold back the end of the response until settlement completes, then send payment-response as a trailer
+ * Trailers require chunked encoding, so any Content-Length set by the handler is dropped
+ * The wait is bounded by the processor's trailerTimeoutMs; a client that disconnects is not charged
+ * If settlement throws, the error is logged and the response still ends
  */
-function sendPaymentRequired(
-  req: Request,
-  res: Response,
-  config: PaymentMiddlewareConfig,
-  network: NetworkV2,
-  asset: string
-): void {
-  const paymentRequired = createPaymentRequiredResponse(req, config, network, asset);
-
-  // Set payment-required header (base64 encoded)
-  const paymentRequiredHeader = Buffer.from(JSON.stringify(paymentRequired)).toString('base64');
-  res.setHeader(X402_HEADERS.PAYMENT_REQUIRED, paymentRequiredHeader);
-
-  // Return JSON body as well for easier client consumption
-  res.status(402).json(paymentRequired);
+function deliverViaTrailer(res: Response, settle: () => Promise<SettlementResponseV2>): void {
+  const originalEnd = res.end.bind(res) as (...args: any[]) => Response;
+
+  res.end = function (...args: any[]) {
+    if (res.statusCode >= 400 || res.req.method === 'HEAD' || res.destroyed) {
+      return originalEnd(...args);
+    }
+
+    const callback = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+    const [chunk, encoding] = args;
+
+    if (!res.headersSent) {
+      res.removeHeader('Content-Length');
+    }
+    if (chunk !== undefined && chunk !== null) {
+      if (encoding) {
+        res.write(chunk, encoding);
+      } else {
+        res.write(chunk);
+      }
+    }
+
+    settle()
+      .then((settlement) => {
+        if (!res.destroyed) {
+          res.addTrailers({
+            [X402_HEADERS.PAYMENT_RESPONSE]: Buffer.from(JSON.stringify(settlement)).toString('base64'),
+          });
+        }
+      })
+      // The content is already written, so a failed settlement ends the response without a trailer
+      .catch((error) => console.error('x402 trailer settlement error:', error))
+      .finally(() => originalEnd(callback));
+
+    return res;
+  } as Response['end'];
 }
 
 /**
@@ -251,36 +179,45 @@ export function conditionalPayment(
 ) {
   const middleware = paymentMiddleware(config);
 
-  return async (req: Request, res: Response, next: NextFunction) => {
-    const shouldRequirePayment = await condition(req);
+  return exposePaymentConfig(async (req: Request, res: Response, next: NextFunction) => {
+    let shouldRequirePayment: boolean;
+    try {
+      shouldRequirePayment = await condition(req);
+    } catch (error) {
+      return next(error);
+    }
 
     if (shouldRequirePayment) {
       return middleware(req, res, next);
     }
 
     next();
-  };
+  }, config);
 }
 
 /**
  * Tiered payment middleware - different amounts based on request
+ * One gate is created per tier and reused; a misconfigured baseConfig throws here
  */
 export function tieredPayment(
   getTier: (req: Request) => { amount: string | bigint; description?: string } | Promise<{ amount: string | bigint; description?: string }>,
   baseConfig: Omit<PaymentMiddlewareConfig, 'amount' | 'description'>
 ) {
-  return async (req: Request, res: Response, next: NextFunction) => {
-    const tier = await getTier(req);
+  const getGate = createTierGates(baseConfig, paymentMiddleware);
 
-    const config: PaymentMiddlewareConfig = {
-      ...baseConfig,
-      amount: tier.amount,
-      description: tier.description,
-    };
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
+    let gate: PaymentGateMiddleware;
+    try {
+      gate = getGate(await getTier(req));
+    } catch (error) {
+      return next(error);
+    }
 
-    const middleware = paymentMiddleware(config);
-    return middleware(req, res, next);
+    return gate(req, res, next);
   };
+
+  // Priced per request, so the exposed configuration carries no amount
+  return exposePaymentConfig(middleware, baseConfig as PaymentMiddlewareConfig);
 }
 
 /**
@@ -291,39 +228,30 @@ export function paymentRateLimit(config: {
   windowMs: number;
   paymentConfig: PaymentMiddlewareConfig;
   keyGenerator?: (req: Request) => string;
+  /** Counter store (default: in-memory); use a shared store behind a load balancer */
+  store?: RateLimitStore;
 }) {
-  const requestCounts = new Map<string, { count: number; resetAt: number }>();
+  const store = config.store || new MemoryRateLimitStore();
   const middleware = paymentMiddleware(config.paymentConfig);
 
-  return async (req: Request, res: Response, next: NextFunction) => {
+  return exposePaymentConfig(async (req: Request, res: Response, next: NextFunction) => {
     const key = config.keyGenerator ? config.keyGenerator(req) : req.ip || 'unknown';
-    const now = Date.now();
-
-    let record = requestCounts.get(key);
 
-    // Reset if window expired
-    if (record && record.resetAt < now) {
-      record = undefined;
-    }
-
-    // Initialize record if needed
-    if (!record) {
-      record = {
-        count: 0,
-        resetAt: now + config.windowMs,
-      };
-      requestCounts.set(key, record);
+    // Count this request; once past the free tier it must be paid for
+    let record: RateLimitRecord;
+    try {
+      record = await store.increment(key, config.windowMs);
+    } catch (error) {
+      console.error('x402 rate limit store error:', error);
+      return middleware(req, res, next);
     }
 
-    // Check if over free tier
-    if (record.count >= config.freeRequests) {
+    if (record.count > config.freeRequests) {
       return middleware(req, res, next);
     }
 
-    // Increment count and continue
-    record.count++;
     next();
-  };
+  }, config.paymentConfig);
 }
 
 /**
@@ -331,8 +259,7 @@ export function paymentRateLimit(config: {
  */
 export function parsePaymentRequiredHeader(header: string): PaymentRequiredV2 | null {
   try {
-    const decoded = Buffer.from(header, 'base64').toString('utf-8');
-    return JSON.parse(decoded);
+    return decodeSchemaHeader<PaymentRequiredV2>(header, validatePaymentRequiredV2);
   } catch {
     return null;
   }
@@ -343,8 +270,7 @@ export function parsePaymentRequiredHeader(header: string): PaymentRequiredV2 |
  */
 export function parsePaymentResponseHeader(header: string): SettlementResponseV2 | null {
   try {
-    const decoded = Buffer.from(header, 'base64').toString('utf-8');
-    return JSON.parse(decoded);
+    return decodeSchemaHeader<SettlementResponseV2>(header, validateSettlementResponseV2);
   } catch {
     return null;
   }
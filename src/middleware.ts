@@ -11,6 +11,9 @@ import {
   X402PaymentRequired,
 } from './types';
 import { randomBytes } from 'crypto';
+import { decodePaymentTransaction } from './validator';
+import { DEFAULT_REPLAY_RETENTION_MS, getDefaultReplayStore } from './replay-store';
+import { RateLimitStore, RateLimitRecord, MemoryRateLimitStore } from './rate-limit-store';
 
 /**
  * Express middleware for x402 V1 payment requirements
@@ -20,6 +23,11 @@ export function paymentMiddlewareV1(config: X402MiddlewareConfig) {
   const facilitatorUrl = config.facilitatorUrl || 'http://localhost:8085';
   const verifier = new X402PaymentVerifierV1(facilitatorUrl, config.network);
 
+  const replayStore = config.replayStore === false
+    ? null
+    : config.replayStore || getDefaultReplayStore();
+  const replayRetentionMs = config.replayRetentionMs || DEFAULT_REPLAY_RETENTION_MS;
+
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Check for signed payment in X-PAYMENT header (x402 facilitator pattern)
@@ -43,66 +51,108 @@ export function paymentMiddlewareV1(config: X402MiddlewareConfig) {
         tokenType = 'USDCx';
       }
 
-      let verification;
-
+      // Reject transactions that have already paid for a request
+      let paymentTxId: string | undefined = legacyTxId;
       if (signedPayment) {
-        // New x402 facilitator pattern: settle the signed transaction
-        const settleOptions: SettleOptionsV1 = {
-          expectedRecipient: config.address,
-          minAmount: BigInt(config.amount),
-          tokenType,
-          resource: config.resource || req.path,
-          method: req.method,
-        };
-
-        verification = await verifier.settlePayment(signedPayment, settleOptions);
-      } else {
-        // Legacy flow: verify existing transaction by ID
-        verification = await verifier.verifyPayment(legacyTxId, {
-          expectedRecipient: config.address,
-          minAmount: BigInt(config.amount),
-          resource: config.resource || req.path,
-          method: req.method,
-          tokenType: config.tokenType,
-          tokenContract: config.tokenContract,
-        });
+        try {
+          paymentTxId = decodePaymentTransaction(signedPayment).txId;
+        } catch {
+          paymentTxId = undefined;
+        }
       }
 
-      // Check if payment is valid
-      if (!verification.isValid) {
+      // Claim the transaction before verifying it, so concurrent requests cannot both spend it
+      const claimed = replayStore && paymentTxId ? paymentTxId : undefined;
+      if (claimed && !(await replayStore!.claim(claimed, replayRetentionMs))) {
         return res.status(402).json({
-          error: 'Invalid payment',
-          details: verification.validationError,
-          paymentStatus: verification.status,
+          error: 'Payment already used',
+          details: 'This transaction has already been used to pay for a request',
+          paymentStatus: 'failed',
         });
       }
 
-      // Check payment status - must be confirmed
-      if (verification.status === 'pending') {
-        return res.status(402).json({
-          error: 'Payment not yet confirmed',
-          details: 'Please wait for transaction confirmation on the blockchain',
-          paymentStatus: 'pending',
-        });
-      }
+      // Payments that fail before they are recorded release the claim, so they can be retried
+      let verification;
+      let used = false;
+      try {
+        if (signedPayment) {
+          // New x402 facilitator pattern: settle the signed transaction
+          const settleOptions: SettleOptionsV1 = {
+            expectedRecipient: config.address,
+            minAmount: BigInt(config.amount),
+            tokenType,
+            resource: config.resource || req.path,
+            method: req.method,
+          };
+
+          verification = await verifier.settlePayment(signedPayment, settleOptions);
+        } else {
+          // Legacy flow: verify existing transaction by ID
+          verification = await verifier.verifyPayment(legacyTxId, {
+            expectedRecipient: config.address,
+            minAmount: BigInt(config.amount),
+            resource: config.resource || req.path,
+            method: req.method,
+            tokenType: config.tokenType,
+            tokenContract: config.tokenContract,
+          });
+        }
 
-      if (verification.status === 'failed') {
-        return res.status(402).json({
-          error: 'Payment failed',
-          details: 'Transaction failed on blockchain',
-          paymentStatus: 'failed',
-        });
-      }
+        // Check if payment is valid
+        if (!verification.isValid) {
+          return res.status(402).json({
+            error: 'Invalid payment',
+            details: verification.validationError,
+            paymentStatus: verification.status,
+          });
+        }
+
+        // Check payment status - must be confirmed
+        if (verification.status === 'pending') {
+          return res.status(402).json({
+            error: 'Payment not yet confirmed',
+            details: 'Please wait for transaction confirmation on the blockchain',
+            paymentStatus: 'pending',
+          });
+        }
 
-      // Custom validator if provided
-      if (config.paymentValidator) {
-        const customValid = await config.paymentValidator(verification);
-        if (!customValid) {
+        if (verification.status === 'failed') {
           return res.status(402).json({
-            error: 'Payment validation failed',
-            details: 'Custom validation rejected the payment',
+            error: 'Payment failed',
+            details: 'Transaction failed on blockchain',
+            paymentStatus: 'failed',
           });
         }
+
+        // Remember the transaction so it cannot unlock further requests
+        if (replayStore) {
+          const usedAt = Date.now();
+          const txIds = new Set([verification.txId, paymentTxId].filter(Boolean) as string[]);
+          for (const txId of txIds) {
+            await replayStore.add({
+              txId,
+              payer: verification.sender || undefined,
+              usedAt,
+              expiresAt: usedAt + replayRetentionMs,
+            });
+          }
+        }
+        used = true;
+
+        // Custom validator if provided
+        if (config.paymentValidator) {
+          const customValid = await config.paymentValidator(verification);
+          if (!customValid) {
+            return res.status(402).json({
+              error: 'Payment validation failed',
+              details: 'Custom validation rejected the payment',
+            });
+          }
+        }
+      } finally {
+        if (claimed && !used) {
+          await replayStore!.release(claimed);
+        }
       }
 
       // Payment is valid, attach payment info to request and continue
@@ -226,38 +276,28 @@ export function paymentRateLimitV1(config: {
   windowMs: number;
   paymentConfig: X402MiddlewareConfig;
   keyGenerator?: (req: Request) => string;
+  /** Counter store (default: in-memory); use a shared store behind a load balancer */
+  store?: RateLimitStore;
 }) {
-  const requestCounts = new Map<string, { count: number; resetAt: number }>();
-
+  const store = config.store || new MemoryRateLimitStore();
   const middleware = paymentMiddlewareV1(config.paymentConfig);
 
   return async (req: Request, res: Response, next: NextFunction) => {
     const key = config.keyGenerator ? config.keyGenerator(req) : req.ip || 'unknown';
-    const now = Date.now();
-
-    let record = requestCounts.get(key);
-
-    // Reset if window expired
-    if (record && record.resetAt < now) {
-      record = undefined;
-    }
 
-    // Initialize record if needed
-    if (!record) {
-      record = {
-        count: 0,
-        resetAt: now + config.windowMs,
-      };
-      requestCounts.set(key, record);
+    // Count this request; once past the free tier it must be paid for
+    let record: RateLimitRecord;
+    try {
+      record = await store.increment(key, config.windowMs);
+    } catch (error) {
+      console.error('x402 rate limit store error:', error);
+      return middleware(req, res, next);
     }
 
-    // Check if over free tier
-    if (record.count >= config.freeRequests) {
+    if (record.count > config.freeRequests) {
       return middleware(req, res, next);
     }
 
-    // Increment count and continue
-    record.count++;
     next();
   };
 }
@@ -0,0 +1,200 @@
+/**
+ * x402-stacks - OpenAPI Generation
+ * Describe the price of paid routes to API consumers as an OpenAPI document
+ */
+
+import { X402_HEADERS } from './types-v2';
+import { getX402OpenApiComponents, JsonSchema } from './json-schema';
+import { PaidRouteSource, PaywallRoute, getPaidRoutes } from './paywall';
+import { getUsdPriceOptions } from './payment-processor';
+
+/**
+ * Options for generatePaymentOpenApi
+ */
+export interface PaymentOpenApiOptions {
+  /** Document info (default: { title: 'x402 API', version: '1.0.0' }) */
+  info?: { title: string; version: string; description?: string };
+
+  /** Server URLs the paths are relative to */
+  servers?: { url: string; description?: string }[];
+
+  /**
+   * Existing OpenAPI document to annotate
+   * Its paths, operations and components are kept; paid operations gain the x402 annotations
+   */
+  document?: Record<string, unknown>;
+}
+
+/** Methods documented for routes that match any method */
+const ANY_METHOD_OPERATIONS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Methods OpenAPI has operations for */
+const OPENAPI_METHODS = new Set([...ANY_METHOD_OPERATIONS, 'head', 'options', 'trace']);
+
+/**
+ * Schema of a base64-encoded JSON header whose decoded content is an x402 component
+ * OpenAPI 3.0 has no contentSchema, so there the header is described as base64 bytes
+ */
+function base64JsonSchema(component: string, openapi: string): JsonSchema {
+  if (openapi.startsWith('3.0')) {
+    return { type: 'string', format: 'byte', description: `Base64-encoded JSON ${component}` };
+  }
+
+  return {
+    type: 'string',
+    contentEncoding: 'base64',
+    contentMediaType: 'application/json',
+    contentSchema: { $ref: `#/components/schemas/${component}` },
+  };
+}
+
+/**
+ * Convert a route path to an OpenAPI path (":id" becomes "{id}")
+ * Wildcards ("*", "**") have no OpenAPI equivalent and are kept as written
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+/**
+ * Path parameters of a route path
+ */
+function getPathParameters(path: string): JsonSchema[] {
+  return [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+}
+
+/**
+ * The x402 annotations for one paid operation, merged over any existing operation
+ */
+function annotateOperation(
+  route: PaywallRoute,
+  openapi: string,
+  existing: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const parameters = (existing.parameters as JsonSchema[] | undefined) || [];
+  const responses = (existing.responses as Record<string, Record<string, unknown>> | undefined) || {};
+  const declared = new Set(parameters.map((parameter) => `${parameter.in}:${parameter.name}`));
+  const usdPrices = getUsdPriceOptions(route.config);
+
+  const addedParameters = [
+    ...getPathParameters(route.path),
+    {
+      name: X402_HEADERS.PAYMENT_SIGNATURE,
+      in: 'header',
+      required: false,
+      description: 'Base64-encoded PaymentPayloadV2 paying for the request (sent after a 402)',
+      schema: base64JsonSchema('PaymentPayloadV2', openapi),
+    },
+  ].filter((parameter) => !declared.has(`${parameter.in}:${parameter.name}`));
+
+  // Every success response carries the settlement
+  const annotatedResponses: Record<string, Record<string, unknown>> = {};
+  const successCodes = Object.keys(responses).filter((code) => /^2/.test(code));
+  for (const code of successCodes.length > 0 ? successCodes : ['200']) {
+    const response = responses[code] || { description: 'Paid response' };
+    annotatedResponses[code] = {
+      ...response,
+      headers: {
+        ...(response.headers as Record<string, unknown> | undefined),
+        [X402_HEADERS.PAYMENT_RESPONSE]: {
+          description: 'Base64-encoded SettlementResponseV2 for the payment',
+          schema: base64JsonSchema('SettlementResponseV2', openapi),
+        },
+      },
+    };
+  }
+
+  return {
+    ...existing,
+    ...(route.config.description && !existing.summary && { summary: route.config.description }),
+    parameters: [...parameters, ...addedParameters],
+    responses: {
+      ...responses,
+      ...annotatedResponses,
+      '402': {
+        description: 'Payment required',
+        headers: {
+          [X402_HEADERS.PAYMENT_REQUIRED]: {
+            description: 'Base64-encoded PaymentRequiredV2 listing the accepted payment options',
+            schema: base64JsonSchema('PaymentRequiredV2', openapi),
+          },
+        },
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/PaymentRequiredV2' } },
+        },
+      },
+    },
+    'x-x402-accepts': route.requirements,
+    // USD-priced options are quoted per request, so their amounts can't be listed ahead of time
+    ...(usdPrices.length > 0 && { 'x-x402-price': usdPrices }),
+  };
+}
+
+/**
+ * Generate an OpenAPI document describing paid routes
+ * Each paid operation gets a 402 response, the payment-required, payment-signature and
+ * payment-response headers, and an x-x402-accepts extension listing its PaymentRequirementsV2
+ * The document is OpenAPI 3.1 unless the annotated document declares another version
+ *
+ * @param source - Express app or router, createPaywall middleware, paywall config, or routes
+ *
+ * @example
+ * ```typescript
+ * import { generatePaymentOpenApi } from 'x402-stacks';
+ *
+ * app.get('/api/weather', paymentMiddleware({ payTo: 'SP...', amount: '1000' }), handler);
+ *
+ * const openapi = generatePaymentOpenApi(app, { info: { title: 'Weather API', version: '1.0.0' } });
+ * app.get('/openapi.json', (req, res) => res.json(openapi));
+ * ```
+ */
+export function generatePaymentOpenApi(
+  source: PaidRouteSource,
+  options: PaymentOpenApiOptions = {}
+): Record<string, unknown> {
+  const document = options.document || {};
+  const openapi = typeof document.openapi === 'string' ? document.openapi : '3.1.0';
+  const paths: Record<string, Record<string, unknown>> = {
+    ...(document.paths as Record<string, Record<string, unknown>> | undefined),
+  };
+
+  for (const route of getPaidRoutes(source)) {
+    const path = toOpenApiPath(route.path);
+    const methods = route.methods
+      ? route.methods.map((method) => method.toLowerCase()).filter((method) => OPENAPI_METHODS.has(method))
+      : ANY_METHOD_OPERATIONS;
+    const item = { ...paths[path] };
+
+    for (const method of methods) {
+      // The first matching route prices a request, so later ones don't override it
+      const operation = item[method] as Record<string, unknown> | undefined;
+      if (!operation || !('x-x402-accepts' in operation)) {
+        item[method] = annotateOperation(route, openapi, operation);
+      }
+    }
+
+    paths[path] = item;
+  }
+
+  const components = (document.components as Record<string, unknown> | undefined) || {};
+
+  return {
+    ...document,
+    openapi,
+    info: options.info || document.info || { title: 'x402 API', version: '1.0.0' },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      ...components,
+      schemas: {
+        ...(components.schemas as Record<string, unknown> | undefined),
+        ...getX402OpenApiComponents().schemas,
+      },
+    },
+  };
+}
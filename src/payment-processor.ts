@@ -0,0 +1,1407 @@
+/**
+ * x402-stacks - Framework-Agnostic Payment Processor (Coinbase Compatible)
+ * The decode / verify / settle / encode flow behind every server adapter, on Web Request/Response
+ */
+
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+import { X402PaymentVerifier, VerifierMode } from './verifier-v2';
+import {
+  NetworkV2,
+  PaymentRequirementsV2,
+  PaymentRequiredV2,
+  PaymentPayloadV2,
+  SettlementResponseV2,
+  X402_HEADERS,
+  X402_ERROR_CODES,
+} from './types-v2';
+import { networkToCAIP2, assetToV2, isPaymentRequestExpired } from './utils';
+import { decodePaymentTransaction } from './validator';
+import {
+  PaymentReplayStore,
+  DEFAULT_REPLAY_RETENTION_MS,
+  getDefaultReplayStore,
+} from './replay-store';
+import {
+  SettlementReceiptStore,
+  PAYMENT_RECEIPT_HEADER,
+  DEFAULT_RECEIPT_PATH,
+  DEFAULT_RECEIPT_RETENTION_MS,
+  getDefaultReceiptStore,
+} from './receipts';
+import {
+  AccessTokenConfig,
+  ACCESS_TOKEN_HEADER,
+  issueAccessToken,
+  verifyAccessToken,
+  redeemAccessToken,
+} from './access-token';
+import {
+  PriceOracle,
+  PriceQuote,
+  PaymentQuote,
+  parseUsdPrice,
+  usdToAtomicAmount,
+  getAssetDecimals,
+} from './price-oracle';
+import {
+  UPTO_SCHEME,
+  PaymentUsage,
+  validateUptoAuthorizations,
+  selectUptoAuthorization,
+  addUsage,
+  toExactPayment,
+  toExactRequirements,
+} from './upto';
+import { PaymentSplit, splitPaymentRequirements } from './splits';
+import { validatePaymentPayloadV2, formatSchemaIssues } from './schema-v2';
+import { PaywallPageOptions, prefersHtml, renderPaywallPage, validatePaywallPageOptions } from './paywall-page';
+import { NetworkType, TokenType, TokenContract } from './types';
+
+/**
+ * When the middleware settles payments
+ * - "immediate": settle before running the handler (default)
+ * - "deferred": verify, run the handler, and settle only if it responds with a status below 400
+ */
+export type SettlementMode = 'immediate' | 'deferred';
+
+/**
+ * How the payment-response is delivered in deferred settlement mode
+ * - "receipt": respond immediately with a payment-receipt header pointing at the receipt endpoint
+ * - "trailer": stream the response and send payment-response as an HTTP trailer once settled
+ */
+export type DeferredDelivery = 'receipt' | 'trailer';
+
+/**
+ * How long trailer delivery holds the end of a response waiting for settlement
+ */
+const DEFAULT_TRAILER_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * A single price option advertised in the 402 accepts list
+ * Unset fields fall back to the middleware config
+ */
+export interface PaymentOption {
+  /** Payment scheme (default: config scheme or "exact") */
+  scheme?: string;
+
+  /** Network in CAIP-2 format or V1 format (default: config network) */
+  network?: NetworkV2 | NetworkType;
+
+  /** Required payment amount in atomic units of this option's asset; required unless a USD price applies */
+  amount?: string | bigint;
+
+  /** Price in USD (e.g. "$0.01"), converted to this option's asset per 402 (default: config price) */
+  price?: string | number;
+
+  /** Asset identifier ("STX", "SBTC", "USDCX", or contract identifier) */
+  asset?: string;
+
+  /** Token type for V1 compatibility (converted to asset) */
+  tokenType?: TokenType;
+
+  /** Token contract for V1 compatibility */
+  tokenContract?: TokenContract;
+
+  /** Token decimals for converting a USD price; required for tokens other than STX, sBTC and USDCx */
+  decimals?: number;
+
+  /** Recipient address (default: config payTo) */
+  payTo?: string;
+
+  /** Maximum time allowed for payment completion (default: config value or 300) */
+  maxTimeoutSeconds?: number;
+
+  /** Additional scheme-specific data (default: config extra) */
+  extra?: Record<string, unknown>;
+
+  /** Recipients sharing this option's payment with payTo (default: config splits) */
+  splits?: PaymentSplit[];
+}
+
+/**
+ * Configuration for x402 payment middleware
+ * Shared by the payment processor and every framework adapter
+ */
+export interface PaymentMiddlewareConfig {
+  /**
+   * Payment scheme (default: "exact")
+   * With "upto", amount is a maximum and only the usage reported by the handler is settled
+   */
+  scheme?: string;
+
+  /** Network in CAIP-2 format or V1 format (will be converted); required unless every option sets one */
+  network?: NetworkV2 | NetworkType;
+
+  /** Required payment amount in atomic units (microSTX, satoshis, etc.); required unless accepts or price is set */
+  amount?: string | bigint;
+
+  /**
+   * Price in USD (e.g. "$0.01") for options without an amount
+   * Converted to each accepted asset when the 402 is issued; requires priceOracle
+   */
+  price?: string | number;
+
+  /** Exchange rate source for USD prices; the quoted rate and expiry are sent in extra.quote */
+  priceOracle?: PriceOracle;
+
+  /**
+   * Price options offered to clients (e.g. STX, sBTC and USDCx on mainnet and testnet)
+   * When set, these replace the single amount/asset option
+   */
+  accepts?: PaymentOption[];
+
+  /** Asset identifier ("STX", "SBTC", "USDCX", or contract identifier) */
+  asset?: string;
+
+  /** Token type for V1 compatibility (converted to asset) */
+  tokenType?: TokenType;
+
+  /** Token contract for V1 compatibility */
+  tokenContract?: TokenContract;
+
+  /** Token decimals for converting a USD price; required for tokens other than STX, sBTC and USDCx */
+  decimals?: number;
+
+  /** Recipient address */
+  payTo: string;
+
+  /** Maximum time allowed for payment completion (default: 300) */
+  maxTimeoutSeconds?: number;
+
+  /** Facilitator API URL */
+  facilitatorUrl?: string;
+
+  /**
+   * Verification mode (default: "remote")
+   * "offline" checks the signed transaction locally and rejects bad payments before settlement
+   */
+  verifierMode?: VerifierMode;
+
+  /**
+   * Reject payments without Deny-mode post-conditions pinning the payer to the exact amount
+   * (default: false). Payments are verified before settlement when enabled.
+   */
+  requirePostConditions?: boolean;
+
+  /**
+   * Recipients taking a share or fixed part of each payment (e.g. a platform fee)
+   * payTo receives the remainder; clients sign one transfer per recipient
+   */
+  splits?: PaymentSplit[];
+
+  /** Resource description */
+  description?: string;
+
+  /** Resource MIME type */
+  mimeType?: string;
+
+  /** Custom payment validator */
+  paymentValidator?: (payment: SettlementResponseV2) => boolean | Promise<boolean>;
+
+  /** Additional scheme-specific data */
+  extra?: Record<string, unknown>;
+
+  /**
+   * Store of already-used payment transactions (default: shared in-memory LRU)
+   * Pass false to disable replay protection
+   */
+  replayStore?: PaymentReplayStore | false;
+
+  /** How long used transactions are remembered in milliseconds (default: 24 hours) */
+  replayRetentionMs?: number;
+
+  /** When to settle payments (default: "immediate") */
+  settlement?: SettlementMode;
+
+  /** How the payment-response reaches the client in deferred mode (default: "receipt") */
+  deferredDelivery?: DeferredDelivery;
+
+  /**
+   * How long trailer delivery waits for settlement before ending the response with a
+   * "transaction_pending" payment-response in milliseconds (default: 30 seconds)
+   * Settlement continues in the background and onSettlement still receives the result
+   */
+  trailerTimeoutMs?: number;
+
+  /** Store for deferred settlement receipts (default: shared in-memory store) */
+  receiptStore?: SettlementReceiptStore;
+
+  /** Path the receipt endpoint is mounted on (default: "/x402/receipts") */
+  receiptPath?: string;
+
+  /** Called with the settlement result once a deferred settlement completes */
+  onSettlement?: (settlement: SettlementResponseV2, request: PaymentRequestLike) => void | Promise<void>;
+
+  /**
+   * Pay once, access for a while: after settlement, issue a signed access token
+   * (payment-access-token header) accepted instead of payment-signature until it expires
+   * Requires immediate settlement
+   */
+  accessToken?: AccessTokenConfig;
+
+  /**
+   * Answer browsers (requests whose Accept header prefers text/html) with an HTML paywall page
+   * showing the price and paying with a connected Stacks wallet (default: disabled)
+   * Pass true for the default page, or options to theme it or replace its template
+   */
+  paywallPage?: PaywallPageOptions | boolean;
+}
+
+/**
+ * The parts of an HTTP request the processor reads
+ * Satisfied by a Web Request; adapters build one from their framework's request
+ */
+export interface PaymentRequestLike {
+  /** Absolute URL of the requested resource */
+  url: string;
+  /** HTTP method */
+  method?: string;
+  /** Request headers */
+  headers: Headers | Record<string, string | string[] | undefined>;
+  /**
+   * Request body as text, resent by the paywall page once paid (see toRawBody)
+   * Read from a Web Request when absent
+   */
+  rawBody?: string;
+}
+
+/**
+ * The request must not proceed; send this response instead
+ */
+export interface PaymentRejectedDecision {
+  type: 'rejected';
+  /** HTTP status to respond with (402, 400 or 500) */
+  statusCode: number;
+  /** Headers to set (e.g. payment-required) */
+  headers: Record<string, string>;
+  /** JSON response body */
+  body: unknown;
+  /** HTML page to send instead of the JSON body (browser requests, when paywallPage is enabled) */
+  html?: string;
+  /** The same response as a Web Response */
+  response: Response;
+}
+
+/**
+ * The payment was settled; run the handler
+ */
+export interface PaymentSettledDecision {
+  type: 'settled';
+  /** Settlement result */
+  payment: SettlementResponseV2;
+  /** The offered requirements the payment was made against */
+  paymentRequirements: PaymentRequirementsV2;
+  /** Headers to add to the handler's response (payment-response, payment-access-token) */
+  headers: Record<string, string>;
+}
+
+/**
+ * The payment was verified but settlement is deferred; run the handler, then settle or cancel
+ */
+export interface PaymentVerifiedDecision {
+  type: 'verified';
+  /** Provisional settlement; transaction is the payment transaction ID */
+  payment: SettlementResponseV2;
+  /** The offered requirements the payment was made against */
+  paymentRequirements: PaymentRequirementsV2;
+  /** Headers to add to the handler's response (payment-receipt or Trailer) */
+  headers: Record<string, string>;
+  /** How the payment-response is delivered once settled */
+  delivery: DeferredDelivery;
+  /**
+   * Settle the payment after the handler succeeded
+   * For "upto" payments, pass the consumed amount in atomic units (default: the maximum)
+   */
+  settle(usage?: PaymentUsage): Promise<SettlementResponseV2>;
+  /** Record that the handler failed and the payment will not be settled */
+  cancel(): Promise<void>;
+}
+
+/**
+ * Outcome of processing a request against a route's payment configuration
+ */
+export type PaymentDecision = PaymentRejectedDecision | PaymentSettledDecision | PaymentVerifiedDecision;
+
+/**
+ * Processes requests for one priced route
+ */
+export interface PaymentProcessor {
+  (request: PaymentRequestLike): Promise<PaymentDecision>;
+  /** The configuration the processor was created with */
+  paymentConfig: PaymentMiddlewareConfig;
+}
+
+/**
+ * A framework handler gated by a payment processor, exposing the processor's configuration
+ * (read by getPaidRoutes to find the paid routes of an app, whichever adapter gates them)
+ */
+export type PaymentGated<T> = T & { paymentConfig: PaymentMiddlewareConfig };
+
+/**
+ * A price tier chosen per request by the tiered payment adapters
+ */
+export interface PaymentTier {
+  amount: string | bigint;
+  description?: string;
+}
+
+/**
+ * Build the gate lookup of a tiered payment adapter: checks baseConfig now (with a placeholder amount)
+ * and creates each tier's gate once, on first use
+ * @throws Error if baseConfig is invalid
+ */
+export function createTierGates<T>(
+  baseConfig: Omit<PaymentMiddlewareConfig, 'amount' | 'description'>,
+  createGate: (config: PaymentMiddlewareConfig) => T
+): (tier: PaymentTier) => T {
+  createPaymentProcessor({ ...baseConfig, amount: '1' });
+
+  const gates = new Map<string, T>();
+  return (tier: PaymentTier) => {
+    const key = JSON.stringify([String(tier.amount), tier.description ?? null]);
+    let gate = gates.get(key);
+    if (!gate) {
+      gate = createGate({ ...baseConfig, amount: tier.amount, description: tier.description });
+      gates.set(key, gate);
+    }
+    return gate;
+  };
+}
+
+/**
+ * Expose the payment configuration of the processor behind a handler
+ */
+export function exposePaymentConfig<T extends object>(handler: T, paymentConfig: PaymentMiddlewareConfig): PaymentGated<T> {
+  return Object.assign(handler, { paymentConfig });
+}
+
+/**
+ * Get the payment configuration exposed by a gated handler, if any
+ */
+export function getPaymentConfig(handler: unknown): PaymentMiddlewareConfig | undefined {
+  const paymentConfig = typeof handler === 'function' ? (handler as { paymentConfig?: unknown }).paymentConfig : undefined;
+  return typeof paymentConfig === 'object' && paymentConfig !== null
+    ? (paymentConfig as PaymentMiddlewareConfig)
+    : undefined;
+}
+
+/**
+ * Encode a value as base64 JSON for an x402 header
+ */
+function encodeHeader(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+/**
+ * Read a header from Web Headers or a Node-style header record
+ */
+function getHeader(headers: PaymentRequestLike['headers'], name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Recover the text of a request body a framework has parsed, so the paywall page can resend it
+ * Strings and buffers are kept, JSON and form bodies are serialized again; anything else is unknown
+ */
+export function toRawBody(body: unknown, contentType: string | undefined): string | undefined {
+  if (typeof body === 'string') return body;
+  if (body instanceof Uint8Array) return Buffer.from(body).toString('utf8');
+  if (typeof body !== 'object' || body === null || !contentType) return undefined;
+
+  if (/[/+]json\b/i.test(contentType)) {
+    return JSON.stringify(body);
+  }
+  if (/^application\/x-www-form-urlencoded\b/i.test(contentType)) {
+    const values = Object.entries(body);
+    return values.every(([, value]) => typeof value === 'string')
+      ? new URLSearchParams(values as [string, string][]).toString()
+      : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the body the paywall page resends with a paid retry, if it is known
+ * Requests declaring no body have an empty one
+ */
+async function getReplayBody(request: PaymentRequestLike): Promise<string | undefined> {
+  if (request.rawBody !== undefined) {
+    return request.rawBody;
+  }
+  if (typeof (request as Request).clone === 'function' && !(request as Request).bodyUsed) {
+    return (request as Request).clone().text();
+  }
+  const length = getHeader(request.headers, 'content-length');
+  return !getHeader(request.headers, 'transfer-encoding') && (!length || length === '0') ? '' : undefined;
+}
+
+/**
+ * Extract the transaction ID from a payment payload, if the transaction can be decoded
+ */
+function getPaymentTxId(paymentPayload: PaymentPayloadV2): string | undefined {
+  return getTxId(paymentPayload.payload.transaction);
+}
+
+/**
+ * Decode a signed transaction's ID, if it can be decoded
+ */
+function getTxId(transaction: string | undefined): string | undefined {
+  try {
+    return decodePaymentTransaction(transaction || '').txId;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Transaction IDs a payment can spend: the payload's transaction and every split leg
+ */
+function getPaymentTxIds(paymentPayload: PaymentPayloadV2): string[] {
+  const legs = (paymentPayload.payload.splits || []).map((leg) => leg.transaction);
+  const txIds = [paymentPayload.payload.transaction, ...legs]
+    .map(getTxId)
+    .filter((txId): txId is string => txId !== undefined);
+  return [...new Set(txIds)];
+}
+
+/**
+ * Normalize a network to CAIP-2 format
+ */
+function normalizeNetwork(network: NetworkV2 | NetworkType): NetworkV2 {
+  return network.includes(':')
+    ? (network as NetworkV2)
+    : networkToCAIP2(network as NetworkType);
+}
+
+/**
+ * Get the price options for a route: the accepts list, or the single configured option
+ */
+function getPaymentOptions(config: PaymentMiddlewareConfig): PaymentOption[] {
+  return config.accepts && config.accepts.length > 0
+    ? config.accepts
+    : [
+        {
+          amount: config.amount,
+          asset: config.asset,
+          tokenType: config.tokenType,
+          tokenContract: config.tokenContract,
+          decimals: config.decimals,
+        },
+      ];
+}
+
+/**
+ * Get the USD price of an option, or undefined if it has an atomic amount
+ */
+function getUsdPrice(option: PaymentOption, config: PaymentMiddlewareConfig): string | number | undefined {
+  if (option.amount !== undefined && option.amount !== null) {
+    return undefined;
+  }
+  return option.price ?? config.price;
+}
+
+/**
+ * Check whether any of a route's options is priced in USD (and so quoted per 402)
+ */
+export function isUsdPriced(config: PaymentMiddlewareConfig): boolean {
+  return getPaymentOptions(config).some((option) => getUsdPrice(option, config) !== undefined);
+}
+
+/**
+ * USD price of one option, with the network and asset it will be quoted in
+ */
+export interface UsdPriceOption {
+  amount: string;
+  currency: 'USD';
+  network: NetworkV2;
+  asset: string;
+  payTo: string;
+}
+
+/**
+ * List the USD price of each USD-priced option of a route, without quoting it
+ * @throws Error if an option is missing its network
+ */
+export function getUsdPriceOptions(config: PaymentMiddlewareConfig): UsdPriceOption[] {
+  return getPaymentOptions(config).flatMap((option) => {
+    const price = getUsdPrice(option, config);
+    if (price === undefined) {
+      return [];
+    }
+
+    const { network, asset, payTo } = toPaymentRequirements(option, config, '0');
+    return [{ amount: parseUsdPrice(price), currency: 'USD' as const, network, asset, payTo }];
+  });
+}
+
+/**
+ * Build the requirements for one option at a given atomic amount
+ * @throws Error if the option is missing its network
+ */
+function toPaymentRequirements(
+  option: PaymentOption,
+  config: PaymentMiddlewareConfig,
+  amount: string
+): PaymentRequirementsV2 {
+  const network = option.network || config.network;
+
+  if (!network) {
+    throw new Error('x402 payment option requires a network');
+  }
+
+  return {
+    scheme: option.scheme || config.scheme || 'exact',
+    network: normalizeNetwork(network),
+    amount,
+    asset: option.asset || assetToV2(option.tokenType || 'STX', option.tokenContract),
+    payTo: option.payTo || config.payTo,
+    maxTimeoutSeconds: option.maxTimeoutSeconds || config.maxTimeoutSeconds || 300,
+    extra: option.extra || config.extra,
+  };
+}
+
+/**
+ * Price USD-denominated requirements at a quoted rate, embedding the quote in extra.quote
+ */
+function priceAtQuote(
+  requirements: PaymentRequirementsV2,
+  price: string | number,
+  quote: PriceQuote,
+  decimals?: number
+): PaymentRequirementsV2 {
+  const paymentQuote: PaymentQuote = {
+    price: parseUsdPrice(price),
+    currency: 'USD',
+    rate: quote.rate,
+    expiresAt: quote.expiresAt,
+  };
+
+  return {
+    ...requirements,
+    amount: usdToAtomicAmount(price, quote.rate, getAssetDecimals(requirements.asset, decimals)),
+    extra: { ...requirements.extra, quote: paymentQuote },
+  };
+}
+
+/**
+ * Add an option's revenue splits (extra.splits) once its amount is final
+ */
+function applySplits(
+  requirements: PaymentRequirementsV2,
+  option: PaymentOption,
+  config: PaymentMiddlewareConfig
+): PaymentRequirementsV2 {
+  const splits = option.splits || config.splits;
+  return splits && splits.length > 0 ? splitPaymentRequirements(requirements, splits) : requirements;
+}
+
+/**
+ * Read the USD quote embedded in payment requirements, if any
+ */
+function getPaymentQuote(requirements: PaymentRequirementsV2): PaymentQuote | undefined {
+  const quote = requirements.extra?.quote as PaymentQuote | undefined;
+
+  if (!quote || typeof quote.rate !== 'string' || typeof quote.expiresAt !== 'string') {
+    return undefined;
+  }
+  return quote;
+}
+
+/**
+ * Build the payment requirements offered for a route
+ * USD-priced options depend on the exchange rate; use quotePaymentRequirements for those
+ * @throws Error if an option is missing its amount or network
+ */
+export function buildPaymentRequirements(config: PaymentMiddlewareConfig): PaymentRequirementsV2[] {
+  return getPaymentOptions(config).map((option) => {
+    if (option.amount === undefined || option.amount === null) {
+      throw new Error(
+        getUsdPrice(option, config) !== undefined
+          ? 'x402 USD-priced payment options must be quoted with quotePaymentRequirements'
+          : 'x402 payment option requires an amount'
+      );
+    }
+
+    return applySplits(toPaymentRequirements(option, config, option.amount.toString()), option, config);
+  });
+}
+
+/**
+ * Build the payment requirements offered for a route, converting USD prices at current rates
+ * @throws Error if a USD-priced option has no priceOracle to quote it
+ */
+export async function quotePaymentRequirements(config: PaymentMiddlewareConfig): Promise<PaymentRequirementsV2[]> {
+  return Promise.all(
+    getPaymentOptions(config).map(async (option) => {
+      const price = getUsdPrice(option, config);
+
+      if (price === undefined) {
+        if (option.amount === undefined || option.amount === null) {
+          throw new Error('x402 payment option requires an amount');
+        }
+        return applySplits(toPaymentRequirements(option, config, option.amount.toString()), option, config);
+      }
+      if (!config.priceOracle) {
+        throw new Error('x402 USD pricing requires a priceOracle');
+      }
+
+      const requirements = toPaymentRequirements(option, config, '0');
+      const quote = await config.priceOracle.getQuote(requirements.asset, requirements.network);
+      return applySplits(priceAtQuote(requirements, price, quote, option.decimals), option, config);
+    })
+  );
+}
+
+/**
+ * Find the requirements a USD-priced payment was made against
+ * Each USD-priced option is re-priced at the rate quoted in the client's accepted extra.quote,
+ * so the amount must be exactly the route price at that rate
+ */
+function findQuotedRequirements(
+  accepted: PaymentRequirementsV2 | undefined,
+  config: PaymentMiddlewareConfig
+): PaymentRequirementsV2 | null {
+  if (!accepted || typeof accepted !== 'object') {
+    return null;
+  }
+
+  const quote = getPaymentQuote(accepted);
+  const candidates: PaymentRequirementsV2[] = [];
+
+  for (const option of getPaymentOptions(config)) {
+    const price = getUsdPrice(option, config);
+
+    try {
+      if (price === undefined) {
+        candidates.push(applySplits(toPaymentRequirements(option, config, String(option.amount)), option, config));
+      } else if (quote) {
+        const requirements = toPaymentRequirements(option, config, '0');
+        candidates.push(applySplits(priceAtQuote(requirements, price, quote, option.decimals), option, config));
+      }
+    } catch {
+      // An unparseable quoted rate cannot match
+    }
+  }
+
+  return findMatchingRequirements(accepted, candidates);
+}
+
+/**
+ * Compare two atomic amounts numerically, treating unparseable values as unequal
+ */
+function amountsEqual(a: string, b: string): boolean {
+  try {
+    return BigInt(a) === BigInt(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the offered requirements matching the client's accepted requirements
+ * Scheme, network, asset, amount and payTo must all match exactly
+ */
+export function findMatchingRequirements(
+  accepted: PaymentRequirementsV2 | undefined,
+  offered: PaymentRequirementsV2[]
+): PaymentRequirementsV2 | null {
+  if (!accepted || typeof accepted !== 'object') {
+    return null;
+  }
+
+  const match = offered.find(
+    (option) =>
+      option.scheme === accepted.scheme &&
+      option.network === accepted.network &&
+      option.asset === accepted.asset &&
+      option.payTo === accepted.payTo &&
+      typeof accepted.amount === 'string' &&
+      amountsEqual(option.amount, accepted.amount)
+  );
+
+  return match || null;
+}
+
+/**
+ * Create the 402 payment required response object for a resource
+ */
+export function createPaymentRequiredResponse(
+  resourceUrl: string,
+  config: PaymentMiddlewareConfig,
+  offered: PaymentRequirementsV2[]
+): PaymentRequiredV2 {
+  return {
+    x402Version: 2,
+    resource: {
+      url: resourceUrl,
+      description: config.description,
+      mimeType: config.mimeType,
+    },
+    accepts: offered,
+  };
+}
+
+/**
+ * Build a rejected decision, with a matching Web Response
+ */
+function reject(statusCode: number, body: unknown, headers: Record<string, string> = {}): PaymentRejectedDecision {
+  return {
+    type: 'rejected',
+    statusCode,
+    headers,
+    body,
+    response: new Response(JSON.stringify(body), {
+      status: statusCode,
+      headers: { ...headers, 'content-type': 'application/json' },
+    }),
+  };
+}
+
+/**
+ * Build a rejected decision answered with an HTML page, keeping the JSON body for callers
+ */
+function rejectWithPage(
+  statusCode: number,
+  body: unknown,
+  html: string,
+  headers: Record<string, string> = {}
+): PaymentRejectedDecision {
+  const pageHeaders = { ...headers, 'content-type': 'text/html; charset=utf-8' };
+
+  return {
+    type: 'rejected',
+    statusCode,
+    headers: pageHeaders,
+    body,
+    html,
+    response: new Response(html, { status: statusCode, headers: pageHeaders }),
+  };
+}
+
+/**
+ * Create a payment processor for one priced route
+ * The verifier, offered requirements and stores are set up once and reused per request
+ *
+ * @example
+ * ```typescript
+ * const processPayment = createPaymentProcessor({ payTo: 'SP...', amount: '1000000', network: 'mainnet' });
+ *
+ * export async function GET(request: Request) {
+ *   const decision = await processPayment(request);
+ *   if (decision.type === 'rejected') return decision.response;
+ *
+ *   return Response.json({ data: 'premium' }, { headers: decision.headers });
+ * }
+ * ```
+ */
+export function createPaymentProcessor(config: PaymentMiddlewareConfig): PaymentProcessor {
+  const facilitatorUrl = config.facilitatorUrl || 'http://localhost:8085';
+  const verifier = new X402PaymentVerifier(facilitatorUrl, {
+    mode: config.verifierMode,
+    requirePostConditions: config.requirePostConditions,
+  });
+
+  // Normalize every price option to V2 payment requirements; USD prices are quoted per 402
+  const usdPriced = isUsdPriced(config);
+  if (usdPriced && !config.priceOracle) {
+    throw new Error('x402 USD pricing requires a priceOracle');
+  }
+  for (const option of getPaymentOptions(config)) {
+    // Unknown token decimals fail here rather than on the first 402
+    if (getUsdPrice(option, config) !== undefined) {
+      getAssetDecimals(toPaymentRequirements(option, config, '0').asset, option.decimals);
+    }
+  }
+  const offered = usdPriced ? null : buildPaymentRequirements(config);
+
+  // Quotes handed out by this processor, honored until they expire
+  const issuedQuotes = new Map<string, number>();
+  const quoteKey = (requirements: PaymentRequirementsV2, quote: PaymentQuote) =>
+    [requirements.network, requirements.asset, requirements.payTo, requirements.amount, quote.rate, quote.expiresAt].join('|');
+
+  const getOffered = async (): Promise<PaymentRequirementsV2[]> => {
+    if (offered) return offered;
+
+    const quoted = await quotePaymentRequirements(config);
+    const now = Date.now();
+
+    for (const [key, expiresAt] of issuedQuotes) {
+      if (expiresAt <= now) issuedQuotes.delete(key);
+    }
+    for (const requirements of quoted) {
+      const quote = getPaymentQuote(requirements);
+      if (quote) issuedQuotes.set(quoteKey(requirements, quote), new Date(quote.expiresAt).getTime());
+    }
+
+    return quoted;
+  };
+
+  // A quote is honored if this processor issued it, or if it still covers the current price
+  const isQuoteHonored = async (requirements: PaymentRequirementsV2, quote: PaymentQuote): Promise<boolean> => {
+    if (issuedQuotes.has(quoteKey(requirements, quote))) return true;
+
+    const current = (await getOffered()).find(
+      (option) =>
+        option.scheme === requirements.scheme &&
+        option.network === requirements.network &&
+        option.asset === requirements.asset &&
+        option.payTo === requirements.payTo
+    );
+    return !!current && BigInt(requirements.amount) >= BigInt(current.amount);
+  };
+
+  const replayStore = config.replayStore === false
+    ? null
+    : config.replayStore || getDefaultReplayStore();
+  const replayRetentionMs = config.replayRetentionMs || DEFAULT_REPLAY_RETENTION_MS;
+
+  const accessToken = config.accessToken;
+  const metered = getPaymentOptions(config).filter((option) => (option.scheme || config.scheme) === UPTO_SCHEME);
+  if (accessToken && (config.settlement === 'deferred' || metered.length > 0)) {
+    throw new Error('x402 access tokens require immediate settlement');
+  }
+  if (metered.some((option) => (option.splits || config.splits)?.length)) {
+    throw new Error('x402 "upto" payments cannot be split between recipients');
+  }
+
+  // Tokens are bound to the configured scope, or the resource path
+  const getScope = (request: PaymentRequestLike): string => {
+    if (accessToken?.scope) return accessToken.scope;
+    try {
+      return new URL(request.url).pathname;
+    } catch {
+      return request.url;
+    }
+  };
+
+  const paywallPage = config.paywallPage === true ? {} : config.paywallPage || null;
+  if (paywallPage) {
+    validatePaywallPageOptions(paywallPage);
+  }
+
+  const paymentRequired = async (request: PaymentRequestLike, body?: unknown) => {
+    const required = createPaymentRequiredResponse(request.url, config, await getOffered());
+    const headers: Record<string, string> = {
+      [X402_HEADERS.PAYMENT_REQUIRED]: encodeHeader(required),
+    };
+
+    if (!paywallPage) {
+      return reject(402, body || required, headers);
+    }
+
+    // The 402 body depends on Accept, so caches must keep browser and API responses apart
+    headers.vary = 'Accept';
+    if (!prefersHtml(getHeader(request.headers, 'accept'))) {
+      return reject(402, body || required, headers);
+    }
+
+    const failure = body as { error?: string; message?: string } | undefined;
+    const method = (request.method || 'GET').toUpperCase();
+    const html = renderPaywallPage(required, paywallPage, {
+      method,
+      ...(method !== 'GET' &&
+        method !== 'HEAD' && {
+          body: await getReplayBody(request),
+          contentType: getHeader(request.headers, 'content-type'),
+        }),
+      error: failure?.message || failure?.error,
+    });
+    return rejectWithPage(402, body || required, html, headers);
+  };
+
+  const recordUsed = async (txIds: Array<string | undefined>, payer: string | undefined) => {
+    if (!replayStore) return;
+
+    const usedAt = Date.now();
+    for (const txId of new Set(txIds.filter(Boolean) as string[])) {
+      await replayStore.add({
+        txId,
+        payer,
+        usedAt,
+        expiresAt: usedAt + replayRetentionMs,
+      });
+    }
+  };
+
+  const processRequest = async (request: PaymentRequestLike): Promise<PaymentDecision> => {
+    try {
+      // Accept a previously issued access token in lieu of a new payment
+      if (accessToken) {
+        const bearer = getHeader(request.headers, 'authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+        const token = getHeader(request.headers, ACCESS_TOKEN_HEADER) || bearer;
+        const claims = token ? verifyAccessToken(token, accessToken.secret, getScope(request)) : null;
+
+        // The token names what was paid, so USD-priced routes need no quote to redeem it
+        const paidRequirements =
+          claims?.req || offered?.find((option) => option.network === claims?.net) || offered?.[0];
+
+        if (claims && paidRequirements) {
+          const payment: SettlementResponseV2 = {
+            success: true,
+            payer: claims.sub,
+            transaction: claims.jti,
+            network: claims.net,
+          };
+
+          if (config.paymentValidator && !(await config.paymentValidator(payment))) {
+            return reject(402, {
+              error: 'custom_validation_failed',
+              message: 'Custom validation rejected the payment',
+            });
+          }
+
+          if (await redeemAccessToken(claims, accessToken.redemptionStore)) {
+            return { type: 'settled', payment, paymentRequirements: paidRequirements, headers: {} };
+          }
+        }
+      }
+
+      // Check for payment in payment-signature header (V2 format, base64 encoded)
+      const paymentSignatureHeader = getHeader(request.headers, X402_HEADERS.PAYMENT_SIGNATURE);
+
+      // If no payment provided, return 402 Payment Required
+      if (!paymentSignatureHeader) {
+        return paymentRequired(request);
+      }
+
+      // Decode the payment payload from base64
+      let decodedPayload: unknown;
+      try {
+        const decoded = Buffer.from(paymentSignatureHeader, 'base64').toString('utf-8');
+        decodedPayload = JSON.parse(decoded);
+      } catch {
+        return reject(400, {
+          error: X402_ERROR_CODES.INVALID_PAYLOAD,
+          message: 'Invalid payment-signature header: failed to decode',
+        });
+      }
+
+      // Validate x402 version
+      if ((decodedPayload as { x402Version?: unknown } | null)?.x402Version !== 2) {
+        return reject(400, {
+          error: X402_ERROR_CODES.INVALID_X402_VERSION,
+          message: 'Only x402 v2 is supported',
+        });
+      }
+
+      // Validate the rest of the payload before trusting any of it
+      const payloadIssues = validatePaymentPayloadV2(decodedPayload);
+      if (payloadIssues.length > 0) {
+        return reject(400, {
+          error: X402_ERROR_CODES.INVALID_PAYLOAD,
+          message: `Invalid payment-signature header: ${formatSchemaIssues(payloadIssues)}`,
+        });
+      }
+      const paymentPayload = decodedPayload as PaymentPayloadV2;
+
+      // Match the client's chosen requirements against what this route offers
+      const paymentRequirements = offered
+        ? findMatchingRequirements(paymentPayload.accepted, offered)
+        : findQuotedRequirements(paymentPayload.accepted, config);
+
+      if (!paymentRequirements) {
+        return paymentRequired(request, {
+          error: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS,
+          message: 'Accepted payment requirements do not match any option offered for this resource',
+        });
+      }
+
+      // USD-priced payments must be made at an unexpired quote from this server
+      const quote = getPaymentQuote(paymentRequirements);
+      if (quote && !offered) {
+        if (isPaymentRequestExpired(quote.expiresAt)) {
+          return paymentRequired(request, {
+            error: X402_ERROR_CODES.QUOTE_EXPIRED,
+            message: 'Price quote has expired',
+          });
+        }
+
+        if (!(await isQuoteHonored(paymentRequirements, quote))) {
+          return paymentRequired(request, {
+            error: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS,
+            message: 'Price quote was not issued for this resource',
+          });
+        }
+      }
+
+      // Claim the transactions (every split leg) before verifying, so concurrent requests cannot both spend them
+      const paymentTxId = getPaymentTxId(paymentPayload);
+      const paymentTxIds = getPaymentTxIds(paymentPayload);
+      const claimed: string[] = [];
+      for (const txId of replayStore ? paymentTxIds : []) {
+        if (!(await replayStore!.claim(txId, replayRetentionMs))) {
+          await Promise.all(claimed.map((claimedTxId) => replayStore!.release(claimedTxId)));
+          return paymentRequired(request, {
+            error: X402_ERROR_CODES.INVALID_TRANSACTION_STATE,
+            message: 'Payment transaction has already been used',
+            transaction: txId,
+          });
+        }
+        claimed.push(txId);
+      }
+
+      // Payments that fail before they are recorded release the claim, so they can be retried
+      let used = false;
+      try {
+        // "upto" payments are verified at their maximum and settled once the handler reports usage
+        const upto = paymentRequirements.scheme === UPTO_SCHEME;
+        if (upto) {
+          const ladder = validateUptoAuthorizations(paymentPayload, paymentRequirements, {
+            requirePostConditions: config.requirePostConditions,
+          });
+
+          if (!ladder.isValid) {
+            return paymentRequired(request, {
+              error: ladder.invalidReason || X402_ERROR_CODES.INVALID_PAYLOAD,
+              payer: ladder.payer,
+            });
+          }
+        }
+
+        if (config.settlement === 'deferred' || upto) {
+          const verifyResult = upto
+            ? await verifier.verify(
+                toExactPayment(paymentPayload, paymentRequirements, {
+                  amount: paymentRequirements.amount,
+                  transaction: paymentPayload.payload.transaction,
+                }),
+                { paymentRequirements: toExactRequirements(paymentRequirements, paymentRequirements.amount) }
+              )
+            : await verifier.verify(paymentPayload, { paymentRequirements });
+
+          if (!verifyResult.isValid) {
+            return paymentRequired(request, {
+              error: verifyResult.invalidReason || X402_ERROR_CODES.UNEXPECTED_VERIFY_ERROR,
+              payer: verifyResult.payer,
+            });
+          }
+
+          // Keep the claim while serving; the payer is recorded with it
+          await recordUsed(paymentTxIds, verifyResult.payer);
+          used = true;
+
+          // Provisional settlement; the transaction ID is final once the transaction is broadcast
+          const provisional: SettlementResponseV2 = {
+            success: true,
+            payer: verifyResult.payer,
+            transaction: paymentTxId || '',
+            network: paymentRequirements.network,
+          };
+
+          if (config.paymentValidator && !(await config.paymentValidator(provisional))) {
+            return reject(402, {
+              error: 'custom_validation_failed',
+              message: 'Custom validation rejected the payment',
+            });
+          }
+
+          return deferSettlement(request, config, verifier, paymentPayload, paymentRequirements, provisional);
+        }
+
+        // Settle the payment via facilitator (verifying first in offline or strict post-condition mode)
+        const settlementResult = config.verifierMode === 'offline' || config.requirePostConditions
+          ? await verifier.verifyAndSettle(paymentPayload, { paymentRequirements })
+          : await verifier.settle(paymentPayload, { paymentRequirements });
+
+        // Legs already paid stay on chain, so a partly settled split can never be submitted again
+        if (settlementResult.errorReason === X402_ERROR_CODES.PARTIAL_SETTLEMENT) {
+          await recordUsed(paymentTxIds, settlementResult.payer);
+          used = true;
+        }
+
+        // Check if settlement was successful
+        if (!settlementResult.success) {
+          return paymentRequired(request, {
+            error: settlementResult.errorReason || X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
+            payer: settlementResult.payer,
+            transaction: settlementResult.transaction,
+            ...(settlementResult.splits && { splits: settlementResult.splits }),
+          });
+        }
+
+        // Remember the transaction so it cannot unlock further requests
+        await recordUsed([settlementResult.transaction, ...paymentTxIds], settlementResult.payer);
+        used = true;
+
+        // Custom validator if provided
+        if (config.paymentValidator && !(await config.paymentValidator(settlementResult))) {
+          return reject(402, {
+            error: 'custom_validation_failed',
+            message: 'Custom validation rejected the payment',
+          });
+        }
+
+        const headers: Record<string, string> = {
+          [X402_HEADERS.PAYMENT_RESPONSE]: encodeHeader({
+            success: settlementResult.success,
+            payer: settlementResult.payer,
+            transaction: settlementResult.transaction,
+            network: settlementResult.network,
+            ...(settlementResult.splits && { splits: settlementResult.splits }),
+          }),
+        };
+
+        if (accessToken && settlementResult.payer) {
+          const issuedAt = Math.floor(Date.now() / 1000);
+          headers[ACCESS_TOKEN_HEADER] = issueAccessToken(
+            {
+              sub: settlementResult.payer,
+              scope: getScope(request),
+              net: settlementResult.network,
+              jti: settlementResult.transaction,
+              iat: issuedAt,
+              exp: issuedAt + (accessToken.ttlSeconds || 600),
+              ...(accessToken.maxRequests !== undefined && { max: accessToken.maxRequests }),
+              req: paymentRequirements,
+            },
+            accessToken.secret
+          );
+        }
+
+        return {
+          type: 'settled',
+          payment: settlementResult,
+          paymentRequirements,
+          headers,
+        };
+      } finally {
+        if (!used) {
+          await Promise.all(claimed.map((txId) => replayStore!.release(txId)));
+        }
+      }
+    } catch (error) {
+      console.error('x402 v2 payment processing error:', error);
+      return reject(500, {
+        error: X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  return exposePaymentConfig(processRequest, config);
+}
+
+/**
+ * Build the decision for a verified payment whose settlement waits for the handler
+ */
+async function deferSettlement(
+  request: PaymentRequestLike,
+  config: PaymentMiddlewareConfig,
+  verifier: X402PaymentVerifier,
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  provisional: SettlementResponseV2
+): Promise<PaymentVerifiedDecision> {
+  const delivery: DeferredDelivery = config.deferredDelivery || 'receipt';
+  const headers: Record<string, string> = {};
+
+  const settle = async (usage?: PaymentUsage): Promise<SettlementResponseV2> => {
+    let settlement: SettlementResponseV2;
+    try {
+      settlement = paymentRequirements.scheme === UPTO_SCHEME
+        ? await settleUsage(verifier, paymentPayload, paymentRequirements, provisional, usage)
+        : await verifier.settle(paymentPayload, { paymentRequirements });
+    } catch {
+      settlement = {
+        success: false,
+        errorReason: X402_ERROR_CODES.UNEXPECTED_SETTLE_ERROR,
+        payer: provisional.payer,
+        transaction: provisional.transaction,
+        network: paymentRequirements.network,
+      };
+    }
+
+    if (!settlement.success) {
+      console.error('x402 deferred settlement failed:', settlement.errorReason, settlement.transaction);
+    }
+
+    if (config.onSettlement) {
+      try {
+        await config.onSettlement(settlement, request);
+      } catch (error) {
+        console.error('x402 onSettlement error:', error);
+      }
+    }
+
+    return settlement;
+  };
+
+  if (delivery === 'trailer') {
+    headers['Trailer'] = X402_HEADERS.PAYMENT_RESPONSE;
+    const timeoutMs = config.trailerTimeoutMs ?? DEFAULT_TRAILER_TIMEOUT_MS;
+
+    return {
+      type: 'verified',
+      payment: provisional,
+      paymentRequirements,
+      headers,
+      delivery,
+      settle: (usage?: PaymentUsage) => {
+        let timer: NodeJS.Timeout | undefined;
+        const pending = new Promise<SettlementResponseV2>((resolve) => {
+          timer = setTimeout(
+            () => resolve({ ...provisional, success: false, errorReason: X402_ERROR_CODES.TRANSACTION_PENDING }),
+            timeoutMs
+          );
+        });
+
+        return Promise.race([settle(usage), pending]).finally(() => clearTimeout(timer));
+      },
+      cancel: async () => undefined,
+    };
+  }
+
+  const store = config.receiptStore || getDefaultReceiptStore();
+  const id = provisional.transaction || randomUUID();
+  const createdAt = Date.now();
+  const expiresAt = createdAt + DEFAULT_RECEIPT_RETENTION_MS;
+
+  await store.set({ id, status: 'pending', createdAt, expiresAt });
+  headers[PAYMENT_RECEIPT_HEADER] = `${(config.receiptPath || DEFAULT_RECEIPT_PATH).replace(/\/$/, '')}/${id}`;
+
+  return {
+    type: 'verified',
+    payment: provisional,
+    paymentRequirements,
+    headers,
+    delivery,
+    settle: async (usage?: PaymentUsage) => {
+      const settlement = await settle(usage);
+      await store.set({
+        id,
+        status: settlement.success ? 'settled' : 'failed',
+        settlement,
+        createdAt,
+        expiresAt,
+      });
+      return settlement;
+    },
+    cancel: () => store.set({ id, status: 'cancelled', createdAt, expiresAt }),
+  };
+}
+
+/**
+ * Settle a deferred payment once a Node response has been sent in full, or cancel it when
+ * the handler failed (status 400 or above) or the client went away before the response finished
+ * Shared by the Express, Koa and Fastify adapters
+ */
+export function completeWhenSent(
+  res: ServerResponse,
+  decision: PaymentVerifiedDecision,
+  settle: () => Promise<SettlementResponseV2>,
+  onError: (error: unknown) => void
+): void {
+  res.once('finish', () => {
+    const completion = res.statusCode >= 400 ? decision.cancel() : settle();
+    completion.catch(onError);
+  });
+
+  res.once('close', () => {
+    if (!res.writableFinished) {
+      decision.cancel().catch(onError);
+    }
+  });
+}
+
+/**
+ * Settle the step of an "upto" payment covering the reported usage
+ * Returns a successful zero-amount settlement when nothing was consumed
+ */
+async function settleUsage(
+  verifier: X402PaymentVerifier,
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  provisional: SettlementResponseV2,
+  usage: PaymentUsage = paymentRequirements.amount
+): Promise<SettlementResponseV2> {
+  const authorization = selectUptoAuthorization(paymentPayload.payload.authorizations || [], usage);
+
+  if (!authorization) {
+    return { ...provisional, transaction: '', amount: '0' };
+  }
+
+  const settlement = await verifier.settle(toExactPayment(paymentPayload, paymentRequirements, authorization), {
+    paymentRequirements: toExactRequirements(paymentRequirements, authorization.amount),
+  });
+
+  return { ...settlement, amount: authorization.amount };
+}
+
+/**
+ * Process a single request against a payment configuration
+ * Convenience for one-off use; prefer createPaymentProcessor for routes handling many requests
+ */
+export function processPayment(
+  request: PaymentRequestLike,
+  config: PaymentMiddlewareConfig
+): Promise<PaymentDecision> {
+  return createPaymentProcessor(config)(request);
+}
+
+/**
+ * Wrap a Web handler (Request => Response) with x402 payment handling
+ * Works with Hono, Next.js route handlers, Bun.serve, Deno.serve and other fetch-style runtimes
+ *
+ * Deferred settlement uses receipt delivery; Web responses cannot carry trailers.
+ * On "upto" routes the handler reports the consumed amount with reportUsage.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withPayment(
+ *   { payTo: 'SP...', amount: '1000000', network: 'mainnet' },
+ *   async () => Response.json({ data: 'premium' })
+ * );
+ * ```
+ */
+export function withPayment(
+  config: PaymentMiddlewareConfig,
+  handler: (
+    request: Request,
+    payment: SettlementResponseV2,
+    reportUsage: (amount: PaymentUsage) => void
+  ) => Response | Promise<Response>
+): (request: Request) => Promise<Response> {
+  const processor = createPaymentProcessor({ ...config, deferredDelivery: 'receipt' });
+
+  return async (request: Request): Promise<Response> => {
+    const decision = await processor(request);
+
+    if (decision.type === 'rejected') {
+      return decision.response;
+    }
+
+    // "upto" routes settle the usage the handler reports (default: the maximum)
+    let usage: PaymentUsage | undefined;
+    const reportUsage = (amount: PaymentUsage) => {
+      usage = addUsage(usage, amount);
+    };
+
+    let response: Response;
+    try {
+      response = await handler(request, decision.payment, reportUsage);
+    } catch (error) {
+      if (decision.type === 'verified') {
+        await decision.cancel();
+      }
+      throw error;
+    }
+
+    if (decision.type === 'verified') {
+      const completion = response.status < 400 ? decision.settle(usage) : decision.cancel();
+      completion.catch((error) => console.error('x402 deferred settlement error:', error));
+    }
+
+    // Copy the response so headers can be added even if the original's are immutable
+    const paid = new Response(response.body, response);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      paid.headers.set(name, value);
+    }
+    return paid;
+  };
+}
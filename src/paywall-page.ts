@@ -0,0 +1,648 @@
+/**
+ * x402-stacks - Browser Paywall Page
+ * An HTML 402 page for people visiting a paid route in a browser: it shows the price, a
+ * payment QR code, and pays with a connected Stacks wallet (Leather, Xverse) before retrying
+ * the request with a payment-signature header
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { PaymentRequiredV2, PaymentRequirementsV2, X402_HEADERS } from './types-v2';
+import { NetworkType, TokenContract } from './types';
+import {
+  assetFromV2,
+  formatPaymentAmount,
+  getDefaultSBTCContract,
+  getDefaultUSDCxContract,
+  getTokenDecimals,
+  networkFromCAIP2,
+} from './utils';
+import { getFungibleAssetName } from './post-conditions';
+import { createQrCodeSvg } from './qr-code';
+import { UPTO_SCHEME } from './upto';
+
+/** Browser bundle of @stacks/transactions the wallet script builds transactions with (sets window.StacksTransactions) */
+const TRANSACTIONS_BUNDLE_PATH = '@stacks/transactions/dist/umd/index.js';
+
+let transactionsBundle: TransactionsBundle | null = null;
+
+/**
+ * Look of the default paywall page
+ * Values are trusted configuration and inserted into the page styles as written
+ */
+export interface PaywallTheme {
+  /** Page heading and title (default: "Payment required") */
+  title?: string;
+  /** Name of the site, shown above the heading */
+  appName?: string;
+  /** URL of a logo shown above the heading */
+  logoUrl?: string;
+  /** Color of buttons and links (default: "#5546ff") */
+  primaryColor?: string;
+  /** Page background color (default: "#f4f4f7") */
+  backgroundColor?: string;
+  /** Background color of the payment card (default: "#ffffff") */
+  cardColor?: string;
+  /** Text color (default: "#16161d") */
+  textColor?: string;
+  /** Font stack (default: the system UI font) */
+  fontFamily?: string;
+  /** Additional CSS appended to the page styles */
+  css?: string;
+}
+
+/**
+ * A payment option as shown on the paywall page
+ */
+export interface PaywallPageOption {
+  /** The payment requirements of the option */
+  requirements: PaymentRequirementsV2;
+  /** Price formatted for display (e.g. "0.001000 STX") */
+  price: string;
+  /** Network of the option */
+  network: NetworkType;
+  /**
+   * Whether the page can pay the option with a browser wallet
+   * Only single "exact" transfers can; split and "upto" options need an x402 client
+   */
+  walletPayable: boolean;
+  /** Stacks payment URI of the transfer (wallet-payable options only) */
+  paymentUri?: string;
+  /** SVG QR code of the payment URI (wallet-payable options only) */
+  qrCode?: string;
+}
+
+/**
+ * Everything a paywall template renders from
+ */
+export interface PaywallPageContext {
+  /** The 402 response the page stands in for */
+  paymentRequired: PaymentRequiredV2;
+  /** The payment options, in the order offered */
+  options: PaywallPageOption[];
+  /** The theme, with defaults applied */
+  theme: PaywallTheme & Required<Omit<PaywallTheme, 'appName' | 'logoUrl' | 'css'>>;
+  /** Why an earlier payment attempt failed, if it did */
+  error?: string;
+  /**
+   * Script tags paying with a wallet; custom templates include them to keep wallet payments
+   * The script binds clicks on elements with a data-x402-option="<index>" attribute
+   * and reports progress in the element with id "x402-status"
+   */
+  script: string;
+}
+
+/**
+ * Options for the browser paywall page
+ */
+export interface PaywallPageOptions {
+  /** Look of the default page */
+  theme?: PaywallTheme;
+
+  /** Replace the default page; returns the full HTML document */
+  template?: (context: PaywallPageContext) => string;
+
+  /**
+   * Same-origin URL serving the @stacks/transactions browser bundle, pinned by its SRI hash
+   * (see getTransactionsBundle). Recommended: without it, the bundle shipped with the package
+   * (about 160 KB) is inlined in every page
+   */
+  transactionsScript?: {
+    /** Path on this origin (e.g. "/x402/transactions.js") */
+    url: string;
+    /** Subresource Integrity hash of the bundle (e.g. "sha384-...") */
+    integrity: string;
+  };
+}
+
+/**
+ * The @stacks/transactions browser bundle used by the paywall page
+ */
+export interface TransactionsBundle {
+  /** Script source */
+  source: string;
+  /** Subresource Integrity hash of the source ("sha384-...") */
+  integrity: string;
+}
+
+/**
+ * The request being answered with the paywall page
+ */
+export interface PaywallPageRequest {
+  /** HTTP method the wallet script retries with (default: "GET") */
+  method?: string;
+  /**
+   * Body the wallet script resends with the paid retry, as text
+   * Requests with a body can only be paid from the page when it is known
+   */
+  body?: string;
+  /** Content type of the body */
+  contentType?: string;
+  /** Why an earlier payment attempt failed, if it did */
+  error?: string;
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Serialize data for an inline JSON script (cannot close the script element)
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Check whether a request's Accept header prefers HTML over JSON (i.e. it comes from a browser)
+ * Wildcards count towards JSON, so API clients accepting any type keep getting JSON
+ */
+export function prefersHtml(accept: string | undefined): boolean {
+  if (!accept) {
+    return false;
+  }
+
+  let html = { quality: 0, position: Infinity };
+  let json = { quality: 0, position: Infinity };
+
+  accept.split(',').forEach((range, position) => {
+    const [type, ...params] = range.trim().toLowerCase().split(';');
+    const qualityParam = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+    const quality = qualityParam ? Number(qualityParam.slice(2)) : 1;
+    if (!(quality > 0)) return;
+
+    if (type === 'text/html' || type === 'application/xhtml+xml') {
+      if (quality > html.quality) html = { quality, position };
+    } else if (type === 'application/json' || type === 'application/*' || type === '*/*') {
+      if (quality > json.quality) json = { quality, position };
+    }
+  });
+
+  return html.quality > 0 && (html.quality > json.quality || (html.quality === json.quality && html.position < json.position));
+}
+
+/**
+ * Create a Stacks payment URI for a transfer: stacks:<payTo>?amount=<atomic>&asset=<asset>&network=<CAIP-2>
+ *
+ * @example
+ * ```typescript
+ * createStacksPaymentUri(requirements);
+ * // "stacks:SP2...?amount=1000000&asset=STX&network=stacks%3A1"
+ * ```
+ */
+export function createStacksPaymentUri(requirements: PaymentRequirementsV2): string {
+  const query = new URLSearchParams({
+    amount: requirements.amount,
+    asset: requirements.asset,
+    network: requirements.network,
+  });
+  return `stacks:${requirements.payTo}?${query.toString()}`;
+}
+
+/**
+ * Get the SIP-010 contract an option pays in, or undefined for STX
+ */
+function getTokenContract(requirements: PaymentRequirementsV2, network: NetworkType): TokenContract | undefined {
+  const { tokenType, tokenContract } = assetFromV2(requirements.asset);
+
+  if (tokenContract) return tokenContract;
+  if (tokenType === 'sBTC') return getDefaultSBTCContract(network);
+  if (tokenType === 'USDCx') return getDefaultUSDCxContract(network);
+  return undefined;
+}
+
+/**
+ * Check that a token payment's fungible token name is known, so its post-condition can be built
+ */
+function hasKnownAssetName(requirements: PaymentRequirementsV2, network: NetworkType): boolean {
+  const tokenContract = getTokenContract(requirements, network);
+  try {
+    return !tokenContract || Boolean(getFungibleAssetName(tokenContract));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format the price of an option
+ * Unknown SIP-010 tokens are shown in atomic units with the contract name
+ */
+function formatPrice(requirements: PaymentRequirementsV2): string {
+  const { tokenType, tokenContract } = assetFromV2(requirements.asset);
+  const price =
+    tokenType === 'STX' && tokenContract
+      ? `${requirements.amount} ${tokenContract.name}`
+      : formatPaymentAmount(requirements.amount, { tokenType, decimals: getTokenDecimals(tokenType) });
+
+  return requirements.scheme === UPTO_SCHEME ? `Up to ${price}` : price;
+}
+
+/**
+ * Build the page option for each offered payment
+ */
+function toPageOptions(paymentRequired: PaymentRequiredV2, theme: PaywallPageContext['theme']): PaywallPageOption[] {
+  return paymentRequired.accepts.map((requirements) => {
+    const network = networkFromCAIP2(requirements.network);
+    const walletPayable =
+      requirements.scheme === 'exact' && !requirements.extra?.splits && hasKnownAssetName(requirements, network);
+    const paymentUri = walletPayable ? createStacksPaymentUri(requirements) : undefined;
+
+    return {
+      requirements,
+      price: formatPrice(requirements),
+      network,
+      walletPayable,
+      ...(paymentUri && {
+        paymentUri,
+        qrCode: createQrCodeSvg(paymentUri, { color: theme.textColor, background: theme.cardColor }),
+      }),
+    };
+  });
+}
+
+/**
+ * The wallet script: builds the transfer with @stacks/transactions, has the connected wallet
+ * sign it, and retries the request with the payment-signature header
+ */
+const WALLET_SCRIPT = `(function () {
+  var data = JSON.parse(document.getElementById('x402-data').textContent);
+  var status = document.getElementById('x402-status');
+  var buttons = Array.prototype.slice.call(document.querySelectorAll('[data-x402-option]'));
+
+  function show(message, isError) {
+    if (!status) return;
+    status.textContent = message;
+    status.className = isError ? 'x402-status x402-error' : 'x402-status';
+  }
+
+  function messageOf(error) {
+    return (error && (error.message || (error.error && error.error.message))) || String(error);
+  }
+
+  function getProvider() {
+    return window.LeatherProvider || (window.XverseProviders && window.XverseProviders.StacksProvider) || window.StacksProvider;
+  }
+
+  function toHex(bytes) {
+    return Array.prototype.map.call(bytes, function (byte) { return ('0' + byte.toString(16)).slice(-2); }).join('');
+  }
+
+  async function getAccount(provider, network) {
+    var response;
+    try {
+      response = await provider.request('stx_getAddresses');
+    } catch (error) {
+      response = await provider.request('getAddresses');
+    }
+    var addresses = (response && response.result && response.result.addresses) || [];
+    var account = addresses.find(function (entry) {
+      return entry.publicKey && /^S[PMTN]/.test(entry.address) && /^S[PM]/.test(entry.address) === (network === 'mainnet');
+    });
+    if (!account) throw new Error('Connect a wallet with a Stacks ' + network + ' account');
+    return account;
+  }
+
+  // The same transaction as the x402 clients sign: a SIP-010 transfer call for any token, else an STX transfer
+  async function buildTransaction(tx, option, account) {
+    var requirements = option.requirements;
+    var amount = BigInt(requirements.amount);
+    var memo = ('x402:' + Date.now().toString(36)).slice(0, 34);
+    var token = option.tokenContract;
+
+    if (token) {
+      return tx.makeUnsignedContractCall({
+        contractAddress: token.address,
+        contractName: token.name,
+        functionName: 'transfer',
+        functionArgs: [
+          tx.uintCV(amount),
+          tx.principalCV(account.address),
+          tx.principalCV(requirements.payTo),
+          tx.someCV(tx.bufferCVFromString(memo)),
+        ],
+        publicKey: account.publicKey,
+        network: option.network,
+        anchorMode: tx.AnchorMode.Any,
+        postConditionMode: tx.PostConditionMode.Deny,
+        postConditions: [
+          tx.makeStandardFungiblePostCondition(account.address, tx.FungibleConditionCode.Equal, amount,
+            tx.createAssetInfo(token.address, token.name, token.assetName)),
+        ],
+      });
+    }
+
+    var transfer = await tx.makeUnsignedSTXTokenTransfer({
+      recipient: requirements.payTo,
+      amount: amount,
+      publicKey: account.publicKey,
+      network: option.network,
+      memo: memo,
+      anchorMode: tx.AnchorMode.Any,
+    });
+    transfer.postConditionMode = tx.PostConditionMode.Deny;
+    transfer.postConditions = tx.createLPList([
+      tx.makeStandardSTXPostCondition(account.address, tx.FungibleConditionCode.Equal, amount),
+    ]);
+    return transfer;
+  }
+
+  async function showResponse(response) {
+    var type = response.headers.get('content-type') || '';
+    if (type.indexOf('text/html') === 0) {
+      var html = await response.text();
+      document.open();
+      document.write(html);
+      document.close();
+      return;
+    }
+    if (!response.ok) {
+      var failure = await response.json().catch(function () { return {}; });
+      throw new Error(failure.message || failure.error || 'Payment failed (HTTP ' + response.status + ')');
+    }
+    if (/^(application\\/json|text\\/)/.test(type)) {
+      var text = await response.text();
+      try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (error) {}
+      var result = document.createElement('pre');
+      result.className = 'x402-result';
+      result.textContent = text;
+      document.body.replaceChildren(result);
+      return;
+    }
+    location.href = URL.createObjectURL(await response.blob());
+  }
+
+  async function pay(option) {
+    var provider = getProvider();
+    if (!provider) {
+      show('No Stacks wallet found. Install Leather or Xverse to pay from this page.', true);
+      return;
+    }
+
+    buttons.forEach(function (button) { button.disabled = true; });
+    try {
+      show('Connecting to your wallet...');
+      var account = await getAccount(provider, option.network);
+      var tx = window.StacksTransactions;
+      if (!tx) throw new Error('The transaction library did not load');
+      var unsigned = await buildTransaction(tx, option, account);
+      var unsignedHex = toHex(unsigned.serialize());
+
+      show('Confirm the payment in your wallet...');
+      var signed = await provider.request('stx_signTransaction', { transaction: unsignedHex, txHex: unsignedHex, network: option.network });
+      var result = (signed && signed.result) || {};
+      var transaction = (result.transaction || result.txHex || '').replace(/^0x/, '');
+      if (!transaction) throw new Error('The wallet did not return a signed transaction');
+
+      var payload = {
+        x402Version: 2,
+        resource: data.paymentRequired.resource,
+        accepted: option.requirements,
+        payload: { transaction: transaction },
+      };
+      var headers = {};
+      headers[data.header] = btoa(unescape(encodeURIComponent(JSON.stringify(payload))));
+      if (data.contentType) headers['content-type'] = data.contentType;
+
+      show('Payment signed, loading...');
+      await showResponse(await fetch(location.href, {
+        method: data.method,
+        headers: headers,
+        body: data.body,
+        credentials: 'same-origin',
+      }));
+    } catch (error) {
+      show(messageOf(error), true);
+    } finally {
+      buttons.forEach(function (button) { button.disabled = false; });
+    }
+  }
+
+  // The request body is needed to resend the request once paid
+  if (!data.replayable) {
+    buttons.forEach(function (button) { button.disabled = true; });
+    show('This request cannot be resent from this page. Pay it with an x402 client.', true);
+    return;
+  }
+
+  buttons.forEach(function (button) {
+    button.addEventListener('click', function () {
+      pay(data.options[Number(button.getAttribute('data-x402-option'))]);
+    });
+  });
+})();`;
+
+/**
+ * Get the @stacks/transactions browser bundle shipped with the package and its SRI hash
+ * Serve it from your origin and set transactionsScript so browsers cache it; inlining it in
+ * every paywall page is only the fallback
+ *
+ * @example
+ * ```typescript
+ * const bundle = getTransactionsBundle();
+ * app.get('/x402/transactions.js', (req, res) => res.type('js').send(bundle.source));
+ *
+ * paywallPage: { transactionsScript: { url: '/x402/transactions.js', integrity: bundle.integrity } }
+ * ```
+ */
+export function getTransactionsBundle(): TransactionsBundle {
+  if (!transactionsBundle) {
+    const source = readFileSync(require.resolve(TRANSACTIONS_BUNDLE_PATH), 'utf8');
+    transactionsBundle = {
+      source,
+      integrity: `sha384-${createHash('sha384').update(source).digest('base64')}`,
+    };
+  }
+  return transactionsBundle;
+}
+
+/**
+ * Check the paywall page options
+ * @throws Error if transactionsScript is not a same-origin path with an SRI hash
+ */
+export function validatePaywallPageOptions(options: PaywallPageOptions): void {
+  const script = options.transactionsScript;
+  if (!script) return;
+
+  if (!script.url.startsWith('/') || script.url.startsWith('//')) {
+    throw new Error(`Paywall transactionsScript must be a path on this origin, got "${script.url}"`);
+  }
+  if (!/^sha(256|384|512)-[A-Za-z0-9+/]+={0,2}$/.test(script.integrity)) {
+    throw new Error('Paywall transactionsScript requires an SRI integrity hash (e.g. "sha384-...")');
+  }
+}
+
+/**
+ * Build the script tag loading @stacks/transactions: the configured same-origin bundle, or the
+ * packaged bundle inline (it cannot end the script element early)
+ */
+function buildTransactionsScript(options: PaywallPageOptions): string {
+  const script = options.transactionsScript;
+  if (script) {
+    return `<script src="${escapeHtml(script.url)}" integrity="${escapeHtml(script.integrity)}" crossorigin="anonymous"></script>`;
+  }
+  return `<script>${getTransactionsBundle().source.replace(/<\/(script)/gi, '<\\/$1')}</script>`;
+}
+
+/**
+ * Build the script tags of a page: its payment data and the wallet script
+ */
+function buildScript(
+  paymentRequired: PaymentRequiredV2,
+  options: PaywallPageOption[],
+  pageOptions: PaywallPageOptions,
+  request: PaywallPageRequest
+): string {
+  const method = (request.method || 'GET').toUpperCase();
+  const hasBody = method !== 'GET' && method !== 'HEAD';
+  const data = {
+    paymentRequired,
+    method,
+    ...(hasBody && request.body !== undefined && { body: request.body }),
+    ...(hasBody && request.contentType && { contentType: request.contentType }),
+    replayable: !hasBody || request.body !== undefined,
+    header: X402_HEADERS.PAYMENT_SIGNATURE,
+    options: options.map((option) => {
+      const tokenContract = option.walletPayable ? getTokenContract(option.requirements, option.network) : undefined;
+      return {
+        requirements: option.requirements,
+        network: option.network,
+        ...(tokenContract && { tokenContract: { ...tokenContract, assetName: getFungibleAssetName(tokenContract) } }),
+      };
+    }),
+  };
+
+  return (
+    `<script type="application/json" id="x402-data">${toScriptJson(data)}</script>\n` +
+    `${buildTransactionsScript(pageOptions)}\n` +
+    `<script>${WALLET_SCRIPT}</script>`
+  );
+}
+
+/**
+ * Remove characters that could end the style element from a theme value
+ */
+function cssValue(value: string): string {
+  return value.replace(/[<>]/g, '');
+}
+
+/**
+ * The default paywall page
+ */
+function defaultTemplate(context: PaywallPageContext): string {
+  const { paymentRequired, options, theme, error } = context;
+  const { resource } = paymentRequired;
+
+  const optionsHtml = options
+    .map((option, index) => {
+      const network = option.network === 'mainnet' ? 'Stacks mainnet' : 'Stacks testnet';
+      const payment = option.walletPayable
+        ? `<div class="x402-qr">${option.qrCode}</div>
+        <button type="button" data-x402-option="${index}">Pay with wallet</button>
+        <a class="x402-uri" href="${escapeHtml(option.paymentUri as string)}">Open in a wallet app</a>`
+        : `<p class="x402-note">Pay this option with an x402 client</p>`;
+
+      return `<section class="x402-option">
+        <div class="x402-price">${escapeHtml(option.price)}</div>
+        <div class="x402-network">${network}</div>
+        ${payment}
+      </section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(theme.title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; padding: 24px;
+    background: ${cssValue(theme.backgroundColor)}; color: ${cssValue(theme.textColor)}; font-family: ${cssValue(theme.fontFamily)}; }
+  .x402-card { width: 100%; max-width: 560px; padding: 32px; border-radius: 16px; background: ${cssValue(theme.cardColor)};
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.08); text-align: center; }
+  .x402-logo { max-height: 48px; margin-bottom: 12px; }
+  .x402-app { margin: 0 0 4px; font-size: 14px; opacity: 0.7; }
+  h1 { margin: 0 0 8px; font-size: 24px; }
+  .x402-description { margin: 0 0 4px; }
+  .x402-resource { margin: 0 0 24px; font-size: 13px; opacity: 0.6; word-break: break-all; }
+  .x402-options { display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); }
+  .x402-option { padding: 16px; border: 1px solid rgba(127, 127, 127, 0.25); border-radius: 12px; }
+  .x402-price { font-size: 20px; font-weight: 600; }
+  .x402-network { margin-bottom: 12px; font-size: 13px; opacity: 0.7; }
+  .x402-qr svg { width: 160px; height: 160px; }
+  button { display: block; width: 100%; margin: 12px 0 8px; padding: 10px 16px; border: 0; border-radius: 8px; cursor: pointer;
+    background: ${cssValue(theme.primaryColor)}; color: #fff; font: inherit; font-weight: 600; }
+  button:disabled { opacity: 0.6; cursor: progress; }
+  a { color: ${cssValue(theme.primaryColor)}; font-size: 14px; }
+  .x402-note { font-size: 14px; opacity: 0.7; }
+  .x402-status { min-height: 1.5em; margin: 20px 0 0; }
+  .x402-error { color: #c62828; }
+  .x402-result { margin: 0; padding: 24px; white-space: pre-wrap; word-break: break-word; }
+  ${theme.css ? theme.css.replace(/<\//g, '<\\/') : ''}
+</style>
+</head>
+<body>
+<main class="x402-card">
+  ${theme.logoUrl ? `<img class="x402-logo" src="${escapeHtml(theme.logoUrl)}" alt="">` : ''}
+  ${theme.appName ? `<p class="x402-app">${escapeHtml(theme.appName)}</p>` : ''}
+  <h1>${escapeHtml(theme.title)}</h1>
+  ${resource.description ? `<p class="x402-description">${escapeHtml(resource.description)}</p>` : ''}
+  <p class="x402-resource">${escapeHtml(resource.url)}</p>
+  <div class="x402-options">
+  ${optionsHtml}
+  </div>
+  <p id="x402-status" class="x402-status${error ? ' x402-error' : ''}" role="status">${error ? escapeHtml(error) : ''}</p>
+</main>
+${context.script}
+</body>
+</html>`;
+}
+
+/**
+ * Render the paywall page for a 402 response
+ * Uses options.template when set, the default page otherwise
+ *
+ * @example
+ * ```typescript
+ * const html = renderPaywallPage(paymentRequired, {
+ *   theme: { appName: 'Weather Pro', primaryColor: '#0a7cff' },
+ * });
+ * ```
+ */
+export function renderPaywallPage(
+  paymentRequired: PaymentRequiredV2,
+  options: PaywallPageOptions = {},
+  request: PaywallPageRequest = {}
+): string {
+  validatePaywallPageOptions(options);
+
+  const theme: PaywallPageContext['theme'] = {
+    title: 'Payment required',
+    primaryColor: '#5546ff',
+    backgroundColor: '#f4f4f7',
+    cardColor: '#ffffff',
+    textColor: '#16161d',
+    fontFamily: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    ...options.theme,
+  };
+  const pageOptions = toPageOptions(paymentRequired, theme);
+  const context: PaywallPageContext = {
+    paymentRequired,
+    options: pageOptions,
+    theme,
+    ...(request.error && { error: request.error }),
+    script: buildScript(paymentRequired, pageOptions, options, request),
+  };
+
+  return (options.template || defaultTemplate)(context);
+}
@@ -0,0 +1,453 @@
+/**
+ * x402-stacks - Declarative Route Pricing (Coinbase Compatible)
+ * One pricing table for every paid route, matched by method and path pattern
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PaymentMiddlewareConfig, buildPaymentRequirements, getPaymentConfig, isUsdPriced } from './payment-processor';
+import { paymentMiddleware, isPaymentGate } from './middleware-v2';
+import { PaymentRequirementsV2 } from './types-v2';
+
+/**
+ * Pricing for one route; unset fields fall back to the paywall defaults
+ */
+export type PaywallRoutePricing = Partial<PaymentMiddlewareConfig>;
+
+/**
+ * Configuration for createPaywall
+ * Plain data (aside from callbacks), so it can be loaded from JSON or YAML
+ */
+export interface PaywallConfig {
+  /**
+   * Priced routes keyed by "METHOD /path" (method optional, "GET|POST" and "*" allowed)
+   * Paths support ":param" (one segment), "*" (within a segment) and "**" (any number of segments)
+   * Paths match case-insensitively and with an optional trailing slash, like default Express routing,
+   * so a route is gated however Express would reach it. The first matching entry wins
+   */
+  routes: Record<string, PaywallRoutePricing>;
+
+  /** Settings shared by every route (payTo, network, facilitatorUrl, ...) */
+  defaults?: PaywallRoutePricing;
+}
+
+/**
+ * A compiled paywall route
+ */
+export interface PaywallRoute {
+  /** The route key as written in the config */
+  key: string;
+  /** Methods the route applies to (uppercase), or null for any method */
+  methods: string[] | null;
+  /** Path pattern as written in the config */
+  path: string;
+  /** Effective configuration (defaults merged with the route pricing) */
+  config: PaymentMiddlewareConfig;
+  /**
+   * Payment requirements offered for the route (empty for USD-priced routes, which are quoted per request,
+   * and tiered routes, which are priced per request)
+   */
+  requirements: PaymentRequirementsV2[];
+}
+
+/**
+ * Express middleware returned by createPaywall, exposing its compiled routes
+ */
+export interface PaywallMiddleware {
+  (req: Request, res: Response, next: NextFunction): Promise<void> | void;
+  /** Compiled routes in match order */
+  routes: PaywallRoute[];
+  /** Find the route a request method and path would be priced by */
+  match(method: string, path: string): PaywallRoute | null;
+}
+
+/**
+ * Parse a route key ("GET /api/weather", "GET|POST /api/*", "/api/**") into methods and path
+ * @throws Error if the key has no path
+ */
+function parseRouteKey(key: string): { methods: string[] | null; path: string } {
+  const parts = key.trim().split(/\s+/);
+
+  if (parts.length === 1 && parts[0].startsWith('/')) {
+    return { methods: null, path: parts[0] };
+  }
+
+  if (parts.length !== 2 || !parts[1].startsWith('/')) {
+    throw new Error(`Invalid x402 paywall route "${key}": expected "METHOD /path"`);
+  }
+
+  const methods = parts[0].toUpperCase().split('|');
+  return { methods: methods.includes('*') ? null : methods, path: parts[1] };
+}
+
+/**
+ * Compile a path pattern to a case-insensitive regular expression
+ * ":param" matches one segment, "*" anything within a segment, "**" anything across segments
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .split(/(\*\*|\*|:[A-Za-z0-9_]+)/)
+    .map((token) => {
+      if (token === '**') return '.*';
+      if (token === '*') return '[^/]*';
+      if (token.startsWith(':')) return '[^/]+';
+      return token.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  // Trailing slashes are optional; case is ignored as Express does unless "case sensitive routing" is set
+  return new RegExp(`^${source}/?$`, 'i');
+}
+
+/**
+ * Check whether a route applies to a request method (GET routes also cover HEAD)
+ */
+function methodMatches(methods: string[] | null, method: string): boolean {
+  if (!methods) return true;
+
+  const upper = method.toUpperCase();
+  return methods.includes(upper) || (upper === 'HEAD' && methods.includes('GET'));
+}
+
+/**
+ * Check whether a route's price is only known per request (USD-priced, or tiered with no fixed amount)
+ */
+function isPricedPerRequest(config: PaymentMiddlewareConfig): boolean {
+  return isUsdPriced(config) || (config.amount === undefined && !config.accepts?.length);
+}
+
+/**
+ * Describe one paid route
+ */
+export function toPaywallRoute(
+  key: string,
+  methods: string[] | null,
+  path: string,
+  config: PaymentMiddlewareConfig
+): PaywallRoute {
+  return {
+    key,
+    methods,
+    path,
+    config,
+    requirements: isPricedPerRequest(config) ? [] : buildPaymentRequirements(config),
+  };
+}
+
+/**
+ * Build the key of a collected route ("GET|POST /path", or the bare path for any method)
+ */
+function routeKey(methods: string[] | null, path: string): string {
+  return methods ? `${methods.join('|')} ${path}` : path;
+}
+
+/**
+ * Compile a paywall config into its routes, in match order
+ * @throws Error if a route key is malformed or a route has no payTo
+ */
+export function compilePaywallRoutes(config: PaywallConfig): PaywallRoute[] {
+  return Object.entries(config.routes).map(([key, pricing]) => {
+    const { methods, path } = parseRouteKey(key);
+    const routeConfig = { ...config.defaults, ...pricing } as PaymentMiddlewareConfig;
+
+    if (!routeConfig.payTo) {
+      throw new Error(`x402 paywall route "${key}" requires payTo`);
+    }
+
+    return toPaywallRoute(key, methods, path, routeConfig);
+  });
+}
+
+/**
+ * Create router-level middleware that prices routes from a single table
+ * Unlisted routes pass through free
+ *
+ * @example
+ * ```typescript
+ * import { createPaywall } from 'x402-stacks';
+ *
+ * app.use(createPaywall({
+ *   defaults: { payTo: 'SP...', network: 'mainnet', facilitatorUrl: 'https://facilitator.example.com' },
+ *   routes: {
+ *     'GET /api/weather': { amount: '1000', description: 'Weather data' },
+ *     'POST /api/ai/**': { amount: '50000' },
+ *     'GET /api/users/:id/report': { amount: '2000' },
+ *   },
+ * }));
+ * ```
+ */
+export function createPaywall(config: PaywallConfig): PaywallMiddleware {
+  const compiled = compilePaywallRoutes(config).map((route) => ({
+    route,
+    pattern: compilePathPattern(route.path),
+    middleware: paymentMiddleware(route.config),
+  }));
+
+  const find = (method: string, path: string) =>
+    compiled.find((entry) => methodMatches(entry.route.methods, method) && entry.pattern.test(path));
+
+  const paywall = ((req: Request, res: Response, next: NextFunction) => {
+    const entry = find(req.method, req.path);
+
+    if (!entry) {
+      return next();
+    }
+
+    return entry.middleware(req, res, next);
+  }) as PaywallMiddleware;
+
+  paywall.routes = compiled.map((entry) => entry.route);
+  paywall.match = (method: string, path: string) => find(method, path)?.route || null;
+
+  return paywall;
+}
+
+/**
+ * Where getPaidRoutes can find paid routes: an Express app or router, a Koa app or router,
+ * a Fastify instance with the x402 plugin, a paywall, a paywall config, or routes that were already collected
+ */
+export type PaidRouteSource =
+  | PaywallMiddleware
+  | PaywallConfig
+  | PaywallRoute[]
+  | ExpressRouterLike
+  | KoaAppLike
+  | KoaRouterLike
+  | FastifyPaidRoutesLike;
+
+/**
+ * The parts of an Express 4 app or router that getPaidRoutes reads
+ */
+export interface ExpressRouterLike {
+  _router?: { stack: ExpressLayerLike[] };
+  stack?: ExpressLayerLike[];
+}
+
+/**
+ * The parts of an Express router layer that getPaidRoutes reads
+ */
+interface ExpressLayerLike {
+  handle?: unknown;
+  regexp?: RegExp & { fast_slash?: boolean };
+  route?: {
+    path: unknown;
+    methods: Record<string, boolean>;
+    stack: { handle: unknown }[];
+  };
+}
+
+/**
+ * The parts of a Koa app that getPaidRoutes reads
+ */
+export interface KoaAppLike {
+  middleware: unknown[];
+}
+
+/**
+ * The parts of a @koa/router router that getPaidRoutes reads
+ */
+export interface KoaRouterLike {
+  stack: KoaLayerLike[];
+}
+
+/**
+ * The parts of a @koa/router layer that getPaidRoutes reads
+ */
+interface KoaLayerLike {
+  path: unknown;
+  methods: string[];
+  stack: unknown[];
+}
+
+/**
+ * A Fastify instance with the x402 plugin registered (the plugin records the routes it gates)
+ */
+export interface FastifyPaidRoutesLike {
+  x402Routes: PaywallRoute[];
+}
+
+/**
+ * Recover the static mount path of a router layer ("" at the root), or null if it has parameters
+ */
+function getMountPath(layer: ExpressLayerLike): string | null {
+  if (!layer.regexp || layer.regexp.fast_slash) {
+    return '';
+  }
+
+  // Express 4 mounts "/api" as /^\/api\/?(?=\/|$)/i
+  const path = layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+
+  return /^(\/[\w\-.~]+)+$/.test(path) ? path : null;
+}
+
+/**
+ * Join a mount path and a route path
+ */
+function joinPaths(prefix: string, path: string): string {
+  if (!prefix) return path;
+  return path === '/' ? prefix : `${prefix}${path}`;
+}
+
+/**
+ * Check whether a handler is a paywall created by createPaywall
+ */
+function isPaywall(handler: unknown): handler is PaywallMiddleware {
+  return (
+    typeof handler === 'function' &&
+    Array.isArray((handler as PaywallMiddleware).routes) &&
+    typeof (handler as PaywallMiddleware).match === 'function'
+  );
+}
+
+/**
+ * Collect the paid routes registered on an Express router stack
+ */
+function collectExpressRoutes(stack: ExpressLayerLike[], prefix: string, routes: PaywallRoute[]): void {
+  for (const layer of stack) {
+    if (layer.route) {
+      const gates = layer.route.stack.map((entry) => entry.handle).filter(isPaymentGate);
+      const paths = (Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path]).filter(
+        (path): path is string => typeof path === 'string'
+      );
+      const methods = layer.route.methods._all
+        ? null
+        : Object.keys(layer.route.methods).map((method) => method.toUpperCase());
+
+      for (const gate of gates) {
+        for (const routePath of paths) {
+          const path = joinPaths(prefix, routePath);
+          routes.push(toPaywallRoute(routeKey(methods, path), methods, path, gate.paymentConfig));
+        }
+      }
+      continue;
+    }
+
+    const mountPath = getMountPath(layer);
+    if (mountPath === null) {
+      continue;
+    }
+    const base = joinPaths(prefix, mountPath);
+    const handle = layer.handle;
+
+    if (isPaymentGate(handle)) {
+      // app.use(paymentMiddleware(...)) gates everything below its mount path
+      const path = joinPaths(base, '/**');
+      routes.push(toPaywallRoute(path, null, path, handle.paymentConfig));
+    } else if (isPaywall(handle)) {
+      routes.push(
+        ...handle.routes.map((route) => {
+          const path = joinPaths(base, route.path);
+          return { ...route, key: routeKey(route.methods, path), path };
+        })
+      );
+    } else if (typeof handle === 'function' && Array.isArray((handle as ExpressRouterLike).stack)) {
+      collectExpressRoutes((handle as ExpressRouterLike).stack!, base, routes);
+    }
+  }
+}
+
+/**
+ * Collect the paid routes registered on a @koa/router stack
+ * Layers without methods come from router.use and gate everything below their path
+ */
+function collectKoaRouterRoutes(stack: KoaLayerLike[], routes: PaywallRoute[]): void {
+  for (const layer of stack) {
+    const configs = layer.stack
+      .map(getPaymentConfig)
+      .filter((config): config is PaymentMiddlewareConfig => config !== undefined);
+    if (configs.length === 0 || typeof layer.path !== 'string') {
+      continue;
+    }
+
+    // The router adds HEAD to GET routes, which paid routes cover anyway
+    const declared = layer.methods.map((method) => method.toUpperCase());
+    const filtered = declared.includes('GET') ? declared.filter((method) => method !== 'HEAD') : declared;
+    const methods = filtered.length > 0 ? filtered : null;
+    // router.use without a path registers a catch-all pattern
+    const path = methods ? layer.path : joinPaths(/^(\/[^/()]+)+$/.test(layer.path) ? layer.path : '', '/**');
+
+    for (const config of configs) {
+      routes.push(toPaywallRoute(routeKey(methods, path), methods, path, config));
+    }
+  }
+}
+
+/**
+ * Collect the paid routes of a Koa app: app-level gates cover every path, and router.routes()
+ * middleware exposes its router
+ */
+function collectKoaRoutes(middleware: unknown[], routes: PaywallRoute[]): void {
+  for (const handler of middleware) {
+    const config = getPaymentConfig(handler);
+    const router = typeof handler === 'function' ? (handler as { router?: unknown }).router : undefined;
+
+    if (config) {
+      routes.push(toPaywallRoute('/**', null, '/**', config));
+    } else if (isKoaRouter(router)) {
+      collectKoaRouterRoutes(router.stack, routes);
+    }
+  }
+}
+
+/**
+ * Check whether a value looks like a @koa/router router
+ */
+function isKoaRouter(router: unknown): router is KoaRouterLike {
+  const stack = (router as KoaRouterLike | undefined)?.stack;
+  return (
+    Array.isArray(stack) &&
+    stack.every((layer) => Array.isArray(layer.methods) && Array.isArray(layer.stack))
+  );
+}
+
+/**
+ * List the paid routes of an app, for API docs and discovery
+ * Express apps are searched for payment gates (paymentMiddleware and its conditional, tiered and
+ * rate-limited wrappers), createPaywall middleware and nested routers (routers mounted on paths with
+ * parameters are skipped). Koa apps are searched for gates and @koa/router routes, and Fastify
+ * instances list the routes the x402 plugin gated (register the plugin before the routes)
+ *
+ * @example
+ * ```typescript
+ * app.get('/api/weather', paymentMiddleware({ payTo: 'SP...', amount: '1000' }), handler);
+ *
+ * getPaidRoutes(app);
+ * // [{ key: 'GET /api/weather', methods: ['GET'], path: '/api/weather', config, requirements }]
+ * ```
+ */
+export function getPaidRoutes(source: PaidRouteSource): PaywallRoute[] {
+  if (Array.isArray(source)) {
+    return source;
+  }
+
+  if (isPaywall(source)) {
+    return source.routes;
+  }
+
+  if (typeof source === 'object' && source !== null && 'routes' in source && !Array.isArray(source.routes)) {
+    return compilePaywallRoutes(source as PaywallConfig);
+  }
+
+  if (Array.isArray((source as FastifyPaidRoutesLike).x402Routes)) {
+    return [...(source as FastifyPaidRoutesLike).x402Routes];
+  }
+
+  const routes: PaywallRoute[] = [];
+
+  if (Array.isArray((source as KoaAppLike).middleware)) {
+    collectKoaRoutes((source as KoaAppLike).middleware, routes);
+    return routes;
+  }
+
+  if (isKoaRouter(source)) {
+    collectKoaRouterRoutes(source.stack, routes);
+    return routes;
+  }
+
+  const router = source as ExpressRouterLike;
+  collectExpressRoutes(router._router?.stack || router.stack || [], '', routes);
+  return routes;
+}
@@ -0,0 +1,228 @@
+/**
+ * x402-stacks - Client Spending Policy
+ * Limits what an automatic payment client is allowed to pay for
+ */
+
+import { PaymentRequiredV2, PaymentRequirementsV2 } from './types-v2';
+import { PolicyViolationError, PolicyViolationReason } from './errors';
+import { resolveAssetIdentifier } from './validator';
+import { getPaymentSplits, isSplitPlanBalanced } from './splits';
+
+/**
+ * A rolling spending budget for one asset
+ */
+export interface PaymentBudget {
+  /** Asset identifier ("STX", "SBTC", "USDCX", or contract identifier) */
+  asset: string;
+  /** Maximum total amount in atomic units within the window */
+  amount: string | bigint;
+  /** Rolling window length in milliseconds (e.g. 60 * 60 * 1000 for hourly) */
+  windowMs: number;
+}
+
+/**
+ * Context passed to the onBeforePay approval hook
+ */
+export interface PaymentApprovalContext {
+  /** Full URL of the request that triggered the payment (if known) */
+  url?: string;
+  /** The server's full 402 response */
+  paymentRequired: PaymentRequiredV2;
+  /** The 402 HTTP response (AxiosResponse or fetch Response), if known */
+  response?: unknown;
+}
+
+/**
+ * Spending policy for automatic payment clients
+ */
+export interface PaymentPolicy {
+  /** Maximum amount per request in atomic units, keyed by asset identifier */
+  maxAmountPerRequest?: Record<string, string | bigint>;
+
+  /** Rolling budgets (e.g. hourly and daily limits per asset) */
+  budgets?: PaymentBudget[];
+
+  /**
+   * Refuse assets that have neither a maxAmountPerRequest entry nor a budget (default: false,
+   * so unlisted assets are unlimited)
+   */
+  denyUnlistedAssets?: boolean;
+
+  /** Recipient addresses payments may be sent to */
+  allowedPayTo?: string[];
+
+  /** Hostnames payments may be made to (supports "*.example.com" wildcards) */
+  allowedHosts?: string[];
+
+  /** Final approval hook; return false to refuse the payment */
+  onBeforePay?: (
+    requirements: PaymentRequirementsV2,
+    context: PaymentApprovalContext
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * Resolve an asset to the identifier of what signPaymentV2 sends ("STX" or a contract identifier)
+ * Returns null if the asset can't be resolved on the requirements' network
+ */
+function assetKey(asset: string, requirements: PaymentRequirementsV2): string | null {
+  try {
+    return resolveAssetIdentifier(asset, requirements.network);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a hostname against an allow-list entry
+ */
+function hostMatches(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const rule = pattern.toLowerCase();
+
+  if (rule.startsWith('*.')) {
+    return host.endsWith(rule.slice(1));
+  }
+  return host === rule;
+}
+
+/**
+ * Enforces a payment policy and tracks spending against its budgets
+ */
+export class PaymentPolicyEnforcer {
+  private policy: PaymentPolicy;
+  private spends: Array<{ id: string; asset: string; amount: bigint; at: number }> = [];
+  private nextReservation = 0;
+
+  constructor(policy: PaymentPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Check the static policy rules for a payment option
+   * Returns the violated rule, or null if the option is allowed
+   */
+  check(requirements: PaymentRequirementsV2, url?: string): PolicyViolationReason | null {
+    const { maxAmountPerRequest, budgets, allowedPayTo, allowedHosts, denyUnlistedAssets } = this.policy;
+
+    // Limits apply to the asset that will actually be signed, so unresolvable assets are refused
+    const asset = assetKey(requirements.asset, requirements);
+    if (!asset) {
+      return 'asset_not_allowed';
+    }
+
+    let amount: bigint;
+    try {
+      amount = BigInt(requirements.amount);
+    } catch {
+      // An unparseable amount can't be shown to be within limits
+      return 'amount_exceeds_limit';
+    }
+
+    // Split payments go to every leg's recipient, and only add up to amount if the plan balances
+    const splits = getPaymentSplits(requirements);
+    if (splits && !isSplitPlanBalanced(requirements, splits)) {
+      return 'invalid_splits';
+    }
+
+    const recipients = splits ? splits.map((split) => split.payTo) : [requirements.payTo];
+    if (allowedPayTo && !recipients.every((payTo) => allowedPayTo.includes(payTo))) {
+      return 'pay_to_not_allowed';
+    }
+
+    if (allowedHosts) {
+      let hostname: string | undefined;
+      try {
+        hostname = url ? new URL(url).hostname : undefined;
+      } catch {
+        hostname = undefined;
+      }
+
+      if (!hostname || !allowedHosts.some((pattern) => hostMatches(hostname as string, pattern))) {
+        return 'host_not_allowed';
+      }
+    }
+
+    const limit = Object.entries(maxAmountPerRequest || {}).find(
+      ([limitAsset]) => assetKey(limitAsset, requirements) === asset
+    );
+    const assetBudgets = (budgets || []).filter((budget) => assetKey(budget.asset, requirements) === asset);
+
+    if (denyUnlistedAssets && !limit && assetBudgets.length === 0) {
+      return 'asset_not_allowed';
+    }
+
+    if (limit && amount > BigInt(limit[1])) {
+      return 'amount_exceeds_limit';
+    }
+
+    if (assetBudgets.length > 0) {
+      const now = Date.now();
+      for (const budget of assetBudgets) {
+
+        const spent = this.spends
+          .filter((spend) => spend.asset === asset && spend.at > now - budget.windowMs)
+          .reduce((total, spend) => total + spend.amount, BigInt(0));
+
+        if (spent + amount > BigInt(budget.amount)) {
+          return 'budget_exceeded';
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Authorize a payment: check the rules, run the approval hook and reserve the amount
+   * Returns the reservation's id, for release
+   * @throws PolicyViolationError if the payment is refused
+   */
+  async authorize(requirements: PaymentRequirementsV2, context: PaymentApprovalContext): Promise<string> {
+    const errorContext = { paymentRequired: context.paymentRequired, response: context.response };
+
+    const violation = this.check(requirements, context.url);
+    if (violation) {
+      throw new PolicyViolationError(violation, requirements, undefined, errorContext);
+    }
+
+    if (this.policy.onBeforePay) {
+      const approved = await this.policy.onBeforePay(requirements, context);
+      if (!approved) {
+        throw new PolicyViolationError('rejected_by_hook', requirements, undefined, errorContext);
+      }
+
+      // Re-check budgets in case other payments were reserved while awaiting approval
+      const recheck = this.check(requirements, context.url);
+      if (recheck) {
+        throw new PolicyViolationError(recheck, requirements, undefined, errorContext);
+      }
+    }
+
+    const id = String(++this.nextReservation);
+    this.spends.push({
+      id,
+      asset: assetKey(requirements.asset, requirements) as string,
+      amount: BigInt(requirements.amount),
+      at: Date.now(),
+    });
+    this.prune();
+    return id;
+  }
+
+  /**
+   * Release a reservation made by authorize (e.g. when signing failed)
+   */
+  release(reservationId: string): void {
+    this.spends = this.spends.filter((spend) => spend.id !== reservationId);
+  }
+
+  /**
+   * Drop spends older than the longest budget window
+   */
+  private prune(): void {
+    const longestWindow = Math.max(0, ...(this.policy.budgets || []).map((b) => b.windowMs));
+    const cutoff = Date.now() - longestWindow;
+    this.spends = this.spends.filter((spend) => spend.at > cutoff);
+  }
+}
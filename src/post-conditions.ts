@@ -0,0 +1,119 @@
+/**
+ * x402-stacks - Payment Post-Conditions
+ * Builds and checks the post-conditions that pin a payment to its exact amount
+ */
+
+import {
+  StacksTransaction,
+  PostCondition,
+  PostConditionMode,
+  PostConditionType,
+  PostConditionPrincipalID,
+  FungibleConditionCode,
+  makeStandardSTXPostCondition,
+  makeStandardFungiblePostCondition,
+  createAssetInfo,
+  createLPList,
+  addressToString,
+} from '@stacks/transactions';
+import { TokenContract } from './types';
+import type { DecodedPaymentTransaction } from './validator';
+
+/**
+ * Fungible token names of the built-in sBTC and USDCx contracts, keyed by contract identifier
+ */
+const KNOWN_ASSET_NAMES: Record<string, string> = {
+  'SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token': 'sbtc-token',
+  'ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT.sbtc-token': 'sbtc-token',
+  'SP120SBRBQJ00MCWS7TM5R8WJNTTKD5K0HFRC2CNE.usdcx': 'usdcx-token',
+  'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx': 'usdcx-token',
+};
+
+/**
+ * Get the name of the fungible token defined by a SIP-010 contract
+ * Uses tokenContract.assetName, then the built-in contracts' names
+ * @throws Error for other contracts without an assetName, since a wrong name makes
+ * a Deny-mode payment abort on-chain
+ */
+export function getFungibleAssetName(tokenContract: TokenContract): string {
+  const assetName =
+    tokenContract.assetName || KNOWN_ASSET_NAMES[`${tokenContract.address}.${tokenContract.name}`];
+
+  if (!assetName) {
+    throw new Error(
+      `Unknown fungible token name for ${tokenContract.address}.${tokenContract.name}: ` +
+        'set assetName or use the asset form "address.contract::token-name"'
+    );
+  }
+  return assetName;
+}
+
+/**
+ * Create post-conditions asserting the sender transfers exactly the payment amount
+ * Pass a token contract for SIP-010 payments; omit it for STX
+ */
+export function createPaymentPostConditions(
+  sender: string,
+  amount: bigint,
+  tokenContract?: TokenContract
+): PostCondition[] {
+  if (!tokenContract) {
+    return [makeStandardSTXPostCondition(sender, FungibleConditionCode.Equal, amount)];
+  }
+
+  return [
+    makeStandardFungiblePostCondition(
+      sender,
+      FungibleConditionCode.Equal,
+      amount,
+      createAssetInfo(tokenContract.address, tokenContract.name, getFungibleAssetName(tokenContract))
+    ),
+  ];
+}
+
+/**
+ * Attach payment post-conditions to an unsigned transaction and switch it to Deny mode
+ * Needed for STX transfers, whose builder does not accept post-conditions
+ */
+export function applyPaymentPostConditions(
+  transaction: StacksTransaction,
+  postConditions: PostCondition[]
+): StacksTransaction {
+  transaction.postConditionMode = PostConditionMode.Deny;
+  transaction.postConditions = createLPList(postConditions);
+  return transaction;
+}
+
+/**
+ * Check that a decoded payment runs in Deny mode with an exact post-condition
+ * on the payer for the transferred amount and asset
+ */
+export function hasPaymentPostConditions(decoded: DecodedPaymentTransaction): boolean {
+  const { transaction, payer, amount, asset } = decoded;
+
+  if (transaction.postConditionMode !== PostConditionMode.Deny) {
+    return false;
+  }
+
+  return (transaction.postConditions.values as PostCondition[]).some((postCondition) => {
+    if (
+      postCondition.principal.prefix !== PostConditionPrincipalID.Standard ||
+      addressToString(postCondition.principal.address) !== payer ||
+      postCondition.conditionCode !== FungibleConditionCode.Equal
+    ) {
+      return false;
+    }
+
+    if (postCondition.conditionType === PostConditionType.STX) {
+      return asset === 'STX' && postCondition.amount === amount;
+    }
+
+    if (postCondition.conditionType === PostConditionType.Fungible) {
+      const { assetInfo } = postCondition;
+      const contractId = `${addressToString(assetInfo.address)}.${assetInfo.contractName.content}`;
+      return contractId === asset && postCondition.amount === amount;
+    }
+
+    return false;
+  });
+}
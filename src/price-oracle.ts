@@ -0,0 +1,185 @@
+/**
+ * x402-stacks - USD Pricing
+ * Price oracles and fiat-to-atomic conversion for routes priced in dollars
+ */
+
+import { NetworkV2 } from './types-v2';
+import {
+  assetFromV2,
+  getTokenDecimals,
+  getDefaultSBTCContract,
+  getDefaultUSDCxContract,
+  createExpirationTimestamp,
+} from './utils';
+
+/**
+ * An exchange rate quoted by a price oracle
+ */
+export interface PriceQuote {
+  /** USD value of one whole token (decimal string, e.g. "0.85") */
+  rate: string;
+
+  /** ISO timestamp until which the rate is honored */
+  expiresAt: string;
+}
+
+/**
+ * Source of USD exchange rates for USD-priced routes
+ * Called whenever a 402 is issued, so implementations backed by an API should cache
+ */
+export interface PriceOracle {
+  /** Quote the USD value of one whole unit of an asset (V2 asset identifier) */
+  getQuote(asset: string, network: NetworkV2): Promise<PriceQuote>;
+}
+
+/**
+ * The quote embedded in payment requirements as extra.quote
+ */
+export interface PaymentQuote extends PriceQuote {
+  /** Route price in USD (decimal string) */
+  price: string;
+
+  /** Fiat currency of the price */
+  currency: 'USD';
+}
+
+/**
+ * Price oracle with fixed rates, for tests and assets pegged to the dollar
+ *
+ * @example
+ * ```typescript
+ * const oracle = new StaticPriceOracle({ STX: '0.85', sBTC: '65000', USDCx: '1' });
+ * ```
+ */
+export class StaticPriceOracle implements PriceOracle {
+  private rates: Record<string, string>;
+  private quoteTtlSeconds: number;
+
+  /**
+   * @param rates - USD per whole token, keyed by token type ("STX", "sBTC", "USDCx") or V2 asset identifier
+   * @param options.quoteTtlSeconds - How long quotes are honored (default: 60)
+   */
+  constructor(rates: Record<string, number | string>, options: { quoteTtlSeconds?: number } = {}) {
+    this.rates = {};
+    for (const [asset, rate] of Object.entries(rates)) {
+      this.rates[asset] = parseDecimal(rate, `rate for ${asset}`);
+    }
+    this.quoteTtlSeconds = options.quoteTtlSeconds || 60;
+  }
+
+  async getQuote(asset: string): Promise<PriceQuote> {
+    const rate = this.rates[asset] ?? this.rates[assetFromV2(asset).tokenType];
+
+    if (rate === undefined) {
+      throw new Error(`No USD rate configured for asset ${asset}`);
+    }
+
+    return { rate, expiresAt: createExpirationTimestamp(this.quoteTtlSeconds) };
+  }
+}
+
+/**
+ * Write a number in plain decimal notation, expanding exponent forms such as 1e-7
+ */
+function toPlainDecimal(value: number): string {
+  const match = /^(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(value.toString());
+  if (!match) {
+    return value.toString();
+  }
+
+  const [, whole, fraction = '', exponent] = match;
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+
+  if (point <= 0) {
+    return `0.${'0'.repeat(-point)}${digits}`;
+  }
+  if (point >= digits.length) {
+    return digits + '0'.repeat(point - digits.length);
+  }
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Normalize a non-negative decimal number or string
+ * @throws Error if the value is not a plain decimal
+ */
+function parseDecimal(value: number | string, label: string): string {
+  const text = typeof value === 'number' ? toPlainDecimal(value) : value.trim();
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+
+  return text;
+}
+
+/**
+ * Parse a USD price ("$0.01", "0.01", "0.01 USD" or 0.01) to a decimal string
+ * @throws Error if the price is not a valid amount
+ */
+export function parseUsdPrice(price: number | string): string {
+  const text = typeof price === 'number' ? price : price.trim().replace(/^\$/, '').replace(/\s*USD$/i, '');
+  return parseDecimal(text, 'USD price');
+}
+
+/**
+ * Split a decimal string into an integer and a power-of-ten scale
+ */
+function toScaled(decimal: string): { value: bigint; scale: number } {
+  const [whole, fraction = ''] = decimal.split('.');
+  return { value: BigInt(whole + fraction), scale: fraction.length };
+}
+
+/**
+ * Convert a USD price to atomic units of an asset at a quoted rate, rounding up
+ * @param price - Price in USD (see parseUsdPrice)
+ * @param rate - USD value of one whole token
+ * @param decimals - Token decimals (6 for STX and USDCx, 8 for sBTC)
+ * @throws Error if the rate is zero
+ */
+export function usdToAtomicAmount(price: number | string, rate: string, decimals: number): string {
+  const usd = toScaled(parseUsdPrice(price));
+  const perToken = toScaled(parseDecimal(rate, 'rate'));
+
+  if (perToken.value === 0n) {
+    throw new Error('USD rate must be greater than zero');
+  }
+
+  // atomic = usd * 10^decimals / rate, with both decimals scaled to integers
+  const numerator = usd.value * 10n ** BigInt(decimals + perToken.scale);
+  const denominator = perToken.value * 10n ** BigInt(usd.scale);
+  const atomic = (numerator + denominator - 1n) / denominator;
+
+  return atomic.toString();
+}
+
+/**
+ * Check whether a token contract is the built-in sBTC or USDCx contract of either network
+ */
+function isBuiltInContract(address: string, name: string): boolean {
+  return [
+    getDefaultSBTCContract('mainnet'),
+    getDefaultSBTCContract('testnet'),
+    getDefaultUSDCxContract('mainnet'),
+    getDefaultUSDCxContract('testnet'),
+  ].some((contract) => contract.address === address && contract.name === name);
+}
+
+/**
+ * Get the decimals of a V2 asset identifier
+ * Known for STX, sBTC and USDCx; other tokens must pass their decimals
+ * @throws Error if the asset is not built in and no decimals are given
+ */
+export function getAssetDecimals(asset: string, decimals?: number): number {
+  if (decimals !== undefined) {
+    return decimals;
+  }
+
+  const { tokenType, tokenContract } = assetFromV2(asset);
+  if (tokenContract && !isBuiltInContract(tokenContract.address, tokenContract.name)) {
+    throw new Error(`Token decimals required to price ${asset} in USD`);
+  }
+
+  return getTokenDecimals(tokenType);
+}
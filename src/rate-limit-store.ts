@@ -0,0 +1,134 @@
+/**
+ * x402-stacks - Rate Limit Stores
+ * Counters for the free tier of paymentRateLimit, shareable across processes
+ */
+
+/**
+ * Request count for a key within the current window
+ */
+export interface RateLimitRecord {
+  /** Requests counted in the current window */
+  count: number;
+  /** Unix timestamp (ms) when the window ends and the count resets */
+  resetAt: number;
+}
+
+/**
+ * Pluggable store of rate limit counters
+ * Implement this (or use RedisRateLimitStore) to share limits behind a load balancer
+ */
+export interface RateLimitStore {
+  /** Increment the counter for a key, starting a new window of windowMs if none is active */
+  increment(key: string, windowMs: number): Promise<RateLimitRecord>;
+
+  /** Get the counter for a key, or null if no window is active */
+  get(key: string): Promise<RateLimitRecord | null>;
+}
+
+/**
+ * In-memory rate limit store
+ * Expired windows are swept periodically so idle keys don't accumulate
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>();
+  private sweepIntervalMs: number;
+  private nextSweepAt: number;
+
+  constructor(options: { sweepIntervalMs?: number } = {}) {
+    this.sweepIntervalMs = options.sweepIntervalMs || 60 * 1000;
+    this.nextSweepAt = Date.now() + this.sweepIntervalMs;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const now = Date.now();
+    this.sweep(now);
+
+    let record = this.records.get(key);
+
+    if (!record || record.resetAt <= now) {
+      record = { count: 0, resetAt: now + windowMs };
+      this.records.set(key, record);
+    }
+
+    record.count++;
+    return { ...record };
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const record = this.records.get(key);
+
+    if (!record || record.resetAt <= Date.now()) {
+      return null;
+    }
+
+    return { ...record };
+  }
+
+  /**
+   * Drop expired windows, at most once per sweep interval
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    for (const [key, record] of this.records) {
+      if (record.resetAt <= now) {
+        this.records.delete(key);
+      }
+    }
+    this.nextSweepAt = now + this.sweepIntervalMs;
+  }
+}
+
+/**
+ * The subset of a Redis client used by RedisRateLimitStore
+ * Matches ioredis; wrap other clients (e.g. node-redis pExpire/pTTL) to this shape
+ */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  pttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+}
+
+/**
+ * Rate limit store backed by a Redis-like client
+ * Uses INCR with a PEXPIRE set when a window starts, so counters expire on their own
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisLikeClient;
+  private keyPrefix: string;
+
+  constructor(client: RedisLikeClient, options: { keyPrefix?: string } = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'x402:ratelimit:';
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const redisKey = this.keyPrefix + key;
+    const count = await this.client.incr(redisKey);
+
+    let ttl = await this.client.pttl(redisKey);
+
+    // First request of a window, or a key left without an expiry
+    if (count === 1 || ttl < 0) {
+      await this.client.pexpire(redisKey, windowMs);
+      ttl = windowMs;
+    }
+
+    return { count, resetAt: Date.now() + ttl };
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const redisKey = this.keyPrefix + key;
+    const value = await this.client.get(redisKey);
+
+    if (value === null) {
+      return null;
+    }
+
+    const ttl = await this.client.pttl(redisKey);
+    return { count: Number(value), resetAt: Date.now() + Math.max(ttl, 0) };
+  }
+}
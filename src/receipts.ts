@@ -0,0 +1,141 @@
+/**
+ * x402-stacks - Settlement Receipts
+ * Tracks deferred settlements so clients can fetch the payment response after being served
+ */
+
+import type { Request, Response } from 'express';
+import { SettlementResponseV2, X402_HEADERS } from './types-v2';
+
+/**
+ * Response header carrying the receipt URL for a deferred settlement
+ */
+export const PAYMENT_RECEIPT_HEADER = 'payment-receipt';
+
+/**
+ * Default path the receipt endpoint is mounted on
+ */
+export const DEFAULT_RECEIPT_PATH = '/x402/receipts';
+
+/**
+ * Default time settlement receipts are kept (1 hour)
+ */
+export const DEFAULT_RECEIPT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Lifecycle of a deferred settlement
+ * - "pending": the request was served, settlement has not completed
+ * - "settled": settlement succeeded
+ * - "failed": settlement was attempted and failed
+ * - "cancelled": the handler failed, so the payment was never settled
+ */
+export type SettlementReceiptStatus = 'pending' | 'settled' | 'failed' | 'cancelled';
+
+/**
+ * Receipt for a deferred settlement
+ */
+export interface SettlementReceipt {
+  /** Receipt identifier (the payment transaction ID) */
+  id: string;
+  /** Current settlement status */
+  status: SettlementReceiptStatus;
+  /** Settlement result, once settlement has been attempted */
+  settlement?: SettlementResponseV2;
+  /** Unix timestamp (ms) when the receipt was created */
+  createdAt: number;
+  /** Unix timestamp (ms) after which the receipt may be forgotten */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable store of settlement receipts
+ * Implement this to serve receipts from any instance (e.g. Redis, SQL)
+ */
+export interface SettlementReceiptStore {
+  /** Get a receipt by ID, or null if unknown or expired */
+  get(id: string): Promise<SettlementReceipt | null>;
+
+  /** Create or replace a receipt */
+  set(receipt: SettlementReceipt): Promise<void>;
+}
+
+/**
+ * In-memory settlement receipt store
+ */
+export class MemoryReceiptStore implements SettlementReceiptStore {
+  private receipts = new Map<string, SettlementReceipt>();
+
+  async get(id: string): Promise<SettlementReceipt | null> {
+    const receipt = this.receipts.get(id);
+
+    if (!receipt) {
+      return null;
+    }
+
+    if (receipt.expiresAt <= Date.now()) {
+      this.receipts.delete(id);
+      return null;
+    }
+
+    return receipt;
+  }
+
+  async set(receipt: SettlementReceipt): Promise<void> {
+    this.receipts.set(receipt.id, receipt);
+
+    const now = Date.now();
+    for (const [id, existing] of this.receipts) {
+      if (existing.expiresAt <= now) {
+        this.receipts.delete(id);
+      }
+    }
+  }
+}
+
+let defaultReceiptStore: SettlementReceiptStore | undefined;
+
+/**
+ * Get the process-wide default receipt store (in-memory)
+ * Shared so the receipt endpoint sees receipts from every middleware instance
+ */
+export function getDefaultReceiptStore(): SettlementReceiptStore {
+  if (!defaultReceiptStore) {
+    defaultReceiptStore = new MemoryReceiptStore();
+  }
+  return defaultReceiptStore;
+}
+
+/**
+ * Express handler serving settlement receipts
+ * Mount it at `${receiptPath}/:id` (default: /x402/receipts/:id)
+ *
+ * Responds 202 while settlement is pending, and 200 with the payment-response
+ * header once it has settled or failed.
+ *
+ * @example
+ * ```typescript
+ * app.get('/x402/receipts/:id', createReceiptHandler());
+ * ```
+ */
+export function createReceiptHandler(store: SettlementReceiptStore = getDefaultReceiptStore()) {
+  return async (req: Request, res: Response) => {
+    try {
+      const receipt = await store.get(req.params.id);
+
+      if (!receipt) {
+        return res.status(404).json({ error: 'receipt_not_found' });
+      }
+
+      if (receipt.settlement) {
+        res.setHeader(
+          X402_HEADERS.PAYMENT_RESPONSE,
+          Buffer.from(JSON.stringify(receipt.settlement)).toString('base64')
+        );
+      }
+
+      return res.status(receipt.status === 'pending' ? 202 : 200).json(receipt);
+    } catch (error) {
+      console.error('x402 receipt lookup error:', error);
+      return res.status(500).json({ error: 'receipt_lookup_failed' });
+    }
+  };
+}
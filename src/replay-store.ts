@@ -0,0 +1,262 @@
+/**
+ * x402-stacks - Payment Replay Protection
+ * Stores for remembering which transactions have already been used to pay for a request
+ */
+
+import { promises as fs } from 'fs';
+
+/**
+ * A settled payment recorded for replay protection
+ */
+export interface PaymentReplayEntry {
+  /** Transaction ID used for the payment */
+  txId: string;
+  /** Address of the payer (if known) */
+  payer?: string;
+  /** Unix timestamp (ms) when the payment was recorded */
+  usedAt: number;
+  /** Unix timestamp (ms) after which the entry may be forgotten */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable store of already-used payment transactions
+ * Implement this to share replay state across processes (e.g. Redis, SQL)
+ */
+export interface PaymentReplayStore {
+  /** Get the entry for a transaction, or null if it has not been used */
+  get(txId: string): Promise<PaymentReplayEntry | null>;
+
+  /** Record a transaction as used (replacing its entry, e.g. to add the payer) */
+  add(entry: PaymentReplayEntry): Promise<void>;
+
+  /**
+   * Record a transaction as used for ttlMs unless it already is, as one atomic step
+   * (set-if-absent, e.g. Redis SET NX PX). Resolves false if the transaction was already used.
+   * Middleware claims a transaction before verifying it, so concurrent requests cannot share it
+   */
+  claim(txId: string, ttlMs: number): Promise<boolean>;
+
+  /** Forget a claimed transaction whose payment failed, so it can be retried */
+  release(txId: string): Promise<void>;
+}
+
+/**
+ * Default retention window for replay entries (24 hours)
+ */
+export const DEFAULT_REPLAY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a transaction ID for use as a store key (lowercase, no 0x prefix)
+ */
+export function normalizeTxId(txId: string): string {
+  const lower = txId.toLowerCase();
+  return lower.startsWith('0x') ? lower.slice(2) : lower;
+}
+
+/**
+ * Thrown when a replay store has no room left for unexpired entries
+ * Payments are refused rather than forgetting transactions still inside the retention window
+ */
+export class ReplayStoreFullError extends Error {
+  constructor(maxEntries: number) {
+    super(`Replay store is full (${maxEntries} unexpired entries)`);
+    this.name = 'ReplayStoreFullError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * In-memory replay store
+ * Expired entries are evicted when the store fills up; unexpired ones are never dropped,
+ * so a full store refuses new payments (ReplayStoreFullError) instead of reopening replays
+ */
+export class MemoryReplayStore implements PaymentReplayStore {
+  private entries = new Map<string, PaymentReplayEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries || 100000;
+  }
+
+  async get(txId: string): Promise<PaymentReplayEntry | null> {
+    const key = normalizeTxId(txId);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async add(entry: PaymentReplayEntry): Promise<void> {
+    this.set({ ...entry, txId: normalizeTxId(entry.txId) });
+  }
+
+  async claim(txId: string, ttlMs: number): Promise<boolean> {
+    const key = normalizeTxId(txId);
+    const existing = this.entries.get(key);
+    const now = Date.now();
+
+    // Check and set run in one synchronous step, so no other request can interleave
+    if (existing && existing.expiresAt > now) {
+      return false;
+    }
+
+    this.set({ txId: key, usedAt: now, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async release(txId: string): Promise<void> {
+    this.entries.delete(normalizeTxId(txId));
+  }
+
+  /**
+   * Store an entry, evicting expired entries if the store is full
+   */
+  private set(entry: PaymentReplayEntry): void {
+    if (!this.entries.has(entry.txId) && this.entries.size >= this.maxEntries) {
+      const now = Date.now();
+      for (const [key, existing] of this.entries) {
+        if (existing.expiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+
+      if (this.entries.size >= this.maxEntries) {
+        throw new ReplayStoreFullError(this.maxEntries);
+      }
+    }
+
+    this.entries.set(entry.txId, entry);
+  }
+}
+
+/**
+ * File-backed replay store that persists entries as JSON
+ * Suitable for single-instance deployments that must survive restarts
+ */
+export class FileReplayStore implements PaymentReplayStore {
+  private filePath: string;
+  private entries: Promise<Map<string, PaymentReplayEntry>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load entries from disk on first use (concurrent callers share one load)
+   */
+  private load(): Promise<Map<string, PaymentReplayEntry>> {
+    if (!this.entries) {
+      this.entries = this.read();
+      this.entries.catch(() => {
+        this.entries = null;
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * Read entries from disk
+   */
+  private async read(): Promise<Map<string, PaymentReplayEntry>> {
+    const entries = new Map<string, PaymentReplayEntry>();
+
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf-8');
+      const stored = JSON.parse(contents) as PaymentReplayEntry[];
+      for (const entry of stored) {
+        entries.set(normalizeTxId(entry.txId), entry);
+      }
+    } catch (error: unknown) {
+      // A missing file just means no payments have been recorded yet
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return entries;
+  }
+
+  async get(txId: string): Promise<PaymentReplayEntry | null> {
+    const entries = await this.load();
+    const entry = entries.get(normalizeTxId(txId));
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return entry;
+  }
+
+  async add(entry: PaymentReplayEntry): Promise<void> {
+    const entries = await this.load();
+    const key = normalizeTxId(entry.txId);
+    entries.set(key, { ...entry, txId: key });
+    return this.persist(entries);
+  }
+
+  async claim(txId: string, ttlMs: number): Promise<boolean> {
+    const entries = await this.load();
+    const key = normalizeTxId(txId);
+    const existing = entries.get(key);
+    const now = Date.now();
+
+    // Entries live in memory once loaded, so check and set happen in one synchronous step
+    if (existing && existing.expiresAt > now) {
+      return false;
+    }
+
+    entries.set(key, { txId: key, usedAt: now, expiresAt: now + ttlMs });
+    await this.persist(entries);
+    return true;
+  }
+
+  async release(txId: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(normalizeTxId(txId))) {
+      await this.persist(entries);
+    }
+  }
+
+  /**
+   * Drop expired entries and write the rest to disk
+   */
+  private persist(entries: Map<string, PaymentReplayEntry>): Promise<void> {
+    const now = Date.now();
+    for (const [existingKey, existing] of entries) {
+      if (existing.expiresAt <= now) {
+        entries.delete(existingKey);
+      }
+    }
+
+    // Serialize writes so concurrent adds don't interleave
+    const snapshot = JSON.stringify(Array.from(entries.values()));
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => fs.writeFile(this.filePath, snapshot, 'utf-8'));
+
+    return this.writeQueue;
+  }
+}
+
+let defaultReplayStore: PaymentReplayStore | undefined;
+
+/**
+ * Get the process-wide default replay store (in-memory)
+ * Shared across middleware instances so per-request middleware still sees earlier payments
+ */
+export function getDefaultReplayStore(): PaymentReplayStore {
+  if (!defaultReplayStore) {
+    defaultReplayStore = new MemoryReplayStore();
+  }
+  return defaultReplayStore;
+}
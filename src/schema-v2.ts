@@ -0,0 +1,436 @@
+/**
+ * x402-stacks - V2 Runtime Validation
+ * Validators for every x402 V2 wire type, used wherever a header or body is decoded
+ *
+ * Validation is strict about the fields the protocol defines (types, CAIP-2 networks,
+ * numeric-string amounts, asset identifiers) and ignores unknown fields, so newer
+ * peers that add properties are still accepted.
+ */
+
+import { SchemaValidationError } from './errors';
+
+/**
+ * A single validation failure
+ */
+export interface SchemaIssue {
+  /** Location of the invalid value (e.g. "paymentRequired.accepts[0].amount") */
+  path: string;
+  /** What was expected */
+  message: string;
+}
+
+/**
+ * Validates a decoded value, returning every issue found (empty when valid)
+ */
+export type SchemaValidator = (value: unknown, path?: string) => SchemaIssue[];
+
+type Check = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+/** Stacks c32check address */
+const ADDRESS = 'S[PMTN][0-9A-HJKMNP-TV-Z]{38,39}';
+
+/** Clarity contract or asset name */
+const CLARITY_NAME = '[a-zA-Z][a-zA-Z0-9\\-_!?+<>=/*]{0,127}';
+
+/**
+ * Formats of x402 V2 string fields (ECMA-262 patterns), shared with the JSON Schema export
+ */
+export const WIRE_PATTERNS = {
+  /** CAIP-2 chain identifier: namespace:reference */
+  caip2: '^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$',
+  /** CAIP-2 identifier of a Stacks network */
+  stacksNetwork: '^stacks:[-_a-zA-Z0-9]{1,32}$',
+  /** Atomic amount: non-negative integer without leading zeros */
+  amount: '^(0|[1-9][0-9]*)$',
+  /** Standard principal ("SP...") or contract principal ("SP....contract-name") */
+  principal: `^${ADDRESS}(\\.${CLARITY_NAME})?$`,
+  /** "STX", a known token symbol (any case), or "address.contract-name[::asset-name]" */
+  asset: `^([Ss][Tt][Xx]|[Ss][Bb][Tt][Cc]|[Uu][Ss][Dd][Cc][Xx]|${ADDRESS}\\.${CLARITY_NAME}(::${CLARITY_NAME})?)$`,
+  /** Hex-encoded bytes, optionally 0x-prefixed */
+  hex: '^(0x)?([0-9a-fA-F]{2})+$',
+} as const;
+
+const CAIP2_PATTERN = new RegExp(WIRE_PATTERNS.caip2);
+const STACKS_NETWORK_PATTERN = new RegExp(WIRE_PATTERNS.stacksNetwork);
+const AMOUNT_PATTERN = new RegExp(WIRE_PATTERNS.amount);
+const PRINCIPAL_PATTERN = new RegExp(WIRE_PATTERNS.principal);
+const ASSET_PATTERN = new RegExp(WIRE_PATTERNS.asset);
+const HEX_PATTERN = new RegExp(WIRE_PATTERNS.hex);
+
+// ===== Primitive checks =====
+
+/**
+ * Short description of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 64 ? `${value.slice(0, 64)}...` : value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value;
+}
+
+/**
+ * Record a type mismatch
+ */
+function fail(issues: SchemaIssue[], path: string, expected: string, value: unknown): void {
+  issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a V2 asset identifier: "STX", a known symbol (any case), or "address.contract-name[::asset-name]"
+ */
+export function isValidAssetIdentifier(asset: string): boolean {
+  return ASSET_PATTERN.test(asset);
+}
+
+/**
+ * Check a CAIP-2 chain identifier (e.g. "stacks:1")
+ */
+export function isValidCAIP2(network: string): boolean {
+  return CAIP2_PATTERN.test(network);
+}
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string') fail(issues, path, 'a string', value);
+};
+
+const nonEmptyString: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || value.length === 0) fail(issues, path, 'a non-empty string', value);
+};
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') fail(issues, path, 'a boolean', value);
+};
+
+const integer: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    fail(issues, path, 'a non-negative integer', value);
+  }
+};
+
+const version2: Check = (value, path, issues) => {
+  if (value !== 2) fail(issues, path, 'x402 version 2', value);
+};
+
+const caip2: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !isValidCAIP2(value)) {
+    fail(issues, path, 'a CAIP-2 network identifier (e.g. "stacks:1")', value);
+  }
+};
+
+const stacksNetwork: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !STACKS_NETWORK_PATTERN.test(value)) {
+    fail(issues, path, 'a Stacks CAIP-2 network identifier ("stacks:<chain-id>")', value);
+  }
+};
+
+const amount: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !AMOUNT_PATTERN.test(value)) {
+    fail(issues, path, 'an amount in atomic units as a numeric string', value);
+  }
+};
+
+const asset: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !isValidAssetIdentifier(value)) {
+    fail(issues, path, 'an asset identifier ("STX" or "address.contract-name[::asset-name]")', value);
+  }
+};
+
+const principal: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !PRINCIPAL_PATTERN.test(value)) {
+    fail(issues, path, 'a Stacks address or contract principal', value);
+  }
+};
+
+const hex: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !HEX_PATTERN.test(value)) {
+    fail(issues, path, 'a hex-encoded transaction', value);
+  }
+};
+
+const record: Check = (value, path, issues) => {
+  if (!isRecord(value)) fail(issues, path, 'an object', value);
+};
+
+// ===== Combinators =====
+
+/**
+ * Allow a field to be absent
+ */
+function optional(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+  };
+}
+
+/**
+ * Check every item of an array
+ */
+function arrayOf(check: Check, options: { nonEmpty?: boolean } = {}): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value) || (options.nonEmpty && value.length === 0)) {
+      fail(issues, path, options.nonEmpty ? 'a non-empty array' : 'an array', value);
+      return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+  };
+}
+
+/**
+ * Check every value of a string-keyed map
+ */
+function recordOf(check: Check): Check {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      fail(issues, path, 'an object', value);
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      check(item, `${path}[${JSON.stringify(key)}]`, issues);
+    }
+  };
+}
+
+/**
+ * Check the known fields of an object, then any cross-field rule
+ */
+function object(fields: Record<string, Check>, refine?: Check): Check {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      fail(issues, path, 'an object', value);
+      return;
+    }
+    for (const [key, check] of Object.entries(fields)) {
+      check(value[key], `${path}.${key}`, issues);
+    }
+    refine?.(value, path, issues);
+  };
+}
+
+/**
+ * Expose a check as a public validator with a default root path
+ */
+function validator(check: Check, root: string): SchemaValidator {
+  return (value, path = root) => {
+    const issues: SchemaIssue[] = [];
+    check(value, path, issues);
+    return issues;
+  };
+}
+
+// ===== Wire types =====
+
+const resourceInfo = object({
+  url: nonEmptyString,
+  description: optional(string),
+  mimeType: optional(string),
+});
+
+const paymentSplit = object({
+  payTo: principal,
+  amount,
+});
+
+const paymentRequirements = object(
+  {
+    scheme: nonEmptyString,
+    network: stacksNetwork,
+    amount,
+    asset,
+    payTo: principal,
+    maxTimeoutSeconds: integer,
+    extra: optional(record),
+  },
+  (value, path, issues) => {
+    // Split plans are part of the payment terms, so they are held to the same rules
+    const extra = (value as { extra?: Record<string, unknown> }).extra;
+    if (isRecord(extra) && extra.splits !== undefined) {
+      arrayOf(paymentSplit, { nonEmpty: true })(extra.splits, `${path}.extra.splits`, issues);
+    }
+  }
+);
+
+// Options for other chains only need the generic x402 shape; clients skip options they can't pay
+const foreignRequirements = object({
+  scheme: nonEmptyString,
+  network: caip2,
+  amount: nonEmptyString,
+  asset: nonEmptyString,
+  payTo: nonEmptyString,
+  maxTimeoutSeconds: integer,
+  extra: optional(record),
+});
+
+/**
+ * Check an accepts entry: Stacks options in full, options for other chains by their generic shape
+ */
+const acceptedOption: Check = (value, path, issues) => {
+  const network = isRecord(value) ? value.network : undefined;
+  const foreign = typeof network === 'string' && isValidCAIP2(network) && !network.startsWith('stacks:');
+  (foreign ? foreignRequirements : paymentRequirements)(value, path, issues);
+};
+
+const paymentRequired = object({
+  x402Version: version2,
+  error: optional(string),
+  resource: resourceInfo,
+  accepts: arrayOf(acceptedOption, { nonEmpty: true }),
+  extensions: optional(record),
+});
+
+const uptoAuthorization = object({
+  amount,
+  transaction: hex,
+});
+
+const paymentSplitLeg = object({
+  payTo: principal,
+  amount,
+  transaction: hex,
+});
+
+const stacksPayload = object({
+  transaction: hex,
+  authorizations: optional(arrayOf(uptoAuthorization, { nonEmpty: true })),
+  splits: optional(arrayOf(paymentSplitLeg, { nonEmpty: true })),
+});
+
+const paymentPayload = object({
+  x402Version: version2,
+  resource: optional(resourceInfo),
+  accepted: paymentRequirements,
+  payload: stacksPayload,
+  extensions: optional(record),
+});
+
+const verifyResponse = object({
+  isValid: boolean,
+  invalidReason: optional(string),
+  payer: optional(string),
+});
+
+// Settled legs carry transaction IDs, which may be empty for legs that never broadcast
+const settledLeg = object({
+  payTo: principal,
+  amount,
+  transaction: string,
+});
+
+const settlementResponse = object({
+  success: boolean,
+  errorReason: optional(string),
+  payer: optional(string),
+  transaction: string,
+  network: stacksNetwork,
+  amount: optional(amount),
+  splits: optional(arrayOf(settledLeg)),
+});
+
+const facilitatorRequest = object({
+  x402Version: version2,
+  paymentPayload,
+  paymentRequirements,
+});
+
+const supportedKind = object({
+  x402Version: integer,
+  scheme: nonEmptyString,
+  network: caip2,
+  extra: optional(record),
+});
+
+const supportedResponse = object({
+  kinds: arrayOf(supportedKind),
+  extensions: arrayOf(string),
+  signers: recordOf(arrayOf(string)),
+});
+
+/** Validate a ResourceInfo */
+export const validateResourceInfo = validator(resourceInfo, 'resource');
+
+/** Validate a PaymentRequirementsV2 (including any extra.splits plan) */
+export const validatePaymentRequirementsV2 = validator(paymentRequirements, 'paymentRequirements');
+
+/** Validate a PaymentRequiredV2 (402 response body or payment-required header); non-Stacks options get generic checks */
+export const validatePaymentRequiredV2 = validator(paymentRequired, 'paymentRequired');
+
+/** Validate a PaymentSplitV2 */
+export const validatePaymentSplitV2 = validator(paymentSplit, 'split');
+
+/** Validate a PaymentSplitLegV2 from a payment payload */
+export const validatePaymentSplitLegV2 = validator(paymentSplitLeg, 'split');
+
+/** Validate a StacksUptoAuthorizationV2 */
+export const validateStacksUptoAuthorizationV2 = validator(uptoAuthorization, 'authorization');
+
+/** Validate a StacksPayloadV2 */
+export const validateStacksPayloadV2 = validator(stacksPayload, 'payload');
+
+/** Validate a PaymentPayloadV2 (payment-signature header) */
+export const validatePaymentPayloadV2 = validator(paymentPayload, 'paymentPayload');
+
+/** Validate a VerifyResponseV2 */
+export const validateVerifyResponseV2 = validator(verifyResponse, 'verifyResponse');
+
+/** Validate a SettlementResponseV2 (payment-response header) */
+export const validateSettlementResponseV2 = validator(settlementResponse, 'settlementResponse');
+
+/** Validate a FacilitatorVerifyRequestV2 */
+export const validateFacilitatorVerifyRequestV2 = validator(facilitatorRequest, 'request');
+
+/** Validate a FacilitatorSettleRequestV2 */
+export const validateFacilitatorSettleRequestV2 = validator(facilitatorRequest, 'request');
+
+/** Validate a SupportedKind */
+export const validateSupportedKind = validator(supportedKind, 'kind');
+
+/** Validate a SupportedResponse */
+export const validateSupportedResponse = validator(supportedResponse, 'supported');
+
+/** Validate a CAIP-2 network identifier for a Stacks network */
+export const validateNetworkV2 = validator(stacksNetwork, 'network');
+
+// ===== Decoding =====
+
+/**
+ * Format issues as one message, e.g. "paymentRequired.accepts[0].amount: expected ..."
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Check a value against a validator, narrowing its type
+ * @throws SchemaValidationError listing every issue
+ */
+export function assertSchema<T>(value: unknown, validate: SchemaValidator, path?: string): T {
+  const issues = validate(value, path);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+  return value as T;
+}
+
+/**
+ * Decode and validate a base64 JSON header
+ * @throws SchemaValidationError if the header is not base64 JSON or fails validation
+ */
+export function decodeSchemaHeader<T>(header: string, validate: SchemaValidator, path?: string): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+  } catch {
+    throw new SchemaValidationError([{ path: path || '$', message: 'expected base64-encoded JSON' }]);
+  }
+
+  return assertSchema<T>(decoded, validate, path);
+}
+
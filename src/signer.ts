@@ -0,0 +1,83 @@
+/**
+ * x402-stacks - Transaction Signers
+ * Signer implementations used by payment clients to authorize transactions
+ */
+
+import {
+  StacksTransaction,
+  TransactionSigner,
+  TransactionVersion,
+  createStacksPrivateKey,
+  getAddressFromPrivateKey,
+  getAddressFromPublicKey,
+  pubKeyfromPrivKey,
+  publicKeyToString,
+} from '@stacks/transactions';
+import { NetworkType, StacksAccount, StacksSigner } from './types';
+
+/**
+ * Create a signer backed by a raw private key held in memory
+ */
+export function createPrivateKeySigner(
+  privateKey: string,
+  network: NetworkType = 'testnet'
+): StacksSigner {
+  const transactionVersion = network === 'mainnet'
+    ? TransactionVersion.Mainnet
+    : TransactionVersion.Testnet;
+
+  return {
+    address: getAddressFromPrivateKey(privateKey, transactionVersion),
+    publicKey: publicKeyToString(pubKeyfromPrivKey(privateKey)),
+    network,
+    async signTransaction(transaction: StacksTransaction): Promise<StacksTransaction> {
+      const signer = new TransactionSigner(transaction);
+      signer.signOrigin(createStacksPrivateKey(privateKey));
+      return transaction;
+    },
+  };
+}
+
+/**
+ * Check that a signer signs for the given network: its network, and an address of that network
+ * derived from its public key (the key that will sign the transactions)
+ * @throws Error describing the mismatch
+ */
+export function assertSignerNetwork(signer: StacksSigner, network: NetworkType): void {
+  if (signer.network !== network) {
+    throw new Error(`Signer is for ${signer.network}, but the client is configured for ${network}`);
+  }
+
+  const transactionVersion = network === 'mainnet' ? TransactionVersion.Mainnet : TransactionVersion.Testnet;
+  let expected: string;
+  try {
+    expected = getAddressFromPublicKey(signer.publicKey, transactionVersion);
+  } catch {
+    throw new Error('Signer public key is not a valid Stacks public key');
+  }
+
+  if (signer.address !== expected) {
+    throw new Error(`Signer address ${signer.address} does not match its public key on ${network} (${expected})`);
+  }
+}
+
+/**
+ * Check whether a value implements the StacksSigner interface
+ */
+export function isStacksSigner(account: StacksSigner | StacksAccount): account is StacksSigner {
+  return (
+    typeof (account as StacksSigner).signTransaction === 'function' &&
+    typeof (account as StacksSigner).publicKey === 'string'
+  );
+}
+
+/**
+ * Normalize an account or signer to a signer
+ * Plain private-key accounts are wrapped in a private key signer
+ */
+export function toStacksSigner(account: StacksSigner | StacksAccount): StacksSigner {
+  if (isStacksSigner(account)) {
+    return account;
+  }
+  return createPrivateKeySigner(account.privateKey, account.network);
+}
@@ -0,0 +1,195 @@
+/**
+ * x402-stacks - Split Payments
+ * Revenue splits: one payment divided between several recipients (e.g. API author and platform fee)
+ *
+ * Each leg is its own signed transfer, so splits work for STX and SIP-010 tokens alike. Legs use
+ * consecutive nonces from one payer and every leg is verified before any is settled.
+ */
+
+import {
+  PaymentPayloadV2,
+  PaymentRequirementsV2,
+  PaymentSplitV2,
+  PaymentSplitLegV2,
+  VerifyResponseV2,
+  X402_ERROR_CODES,
+} from './types-v2';
+import { decodePaymentTransaction, validatePaymentPayload, PaymentValidationOptions } from './validator';
+
+/**
+ * A recipient taking part of a route's payment
+ * The route's payTo receives whatever the splits leave over
+ */
+export interface PaymentSplit {
+  /** Recipient address */
+  payTo: string;
+
+  /** Fraction of the payment (e.g. 0.1 for 10%), rounded down to the atomic unit */
+  share?: number;
+
+  /** Fixed amount in atomic units, instead of a share */
+  amount?: string | bigint;
+}
+
+/**
+ * Divide a payment between the primary recipient and its splits
+ * The primary recipient comes first and receives the remainder; zero-amount legs are dropped
+ * @throws Error if a split has neither a valid share nor an amount, or the splits exceed the total
+ */
+export function computePaymentSplits(total: bigint, payTo: string, splits: PaymentSplit[]): PaymentSplitV2[] {
+  const legs = splits.map((split) => {
+    if (split.amount !== undefined) {
+      return { payTo: split.payTo, amount: BigInt(split.amount) };
+    }
+
+    if (typeof split.share !== 'number' || !(split.share > 0 && split.share < 1)) {
+      throw new Error(`x402 payment split for ${split.payTo} requires a share between 0 and 1 or an amount`);
+    }
+
+    // Shares are applied in parts per million to stay in integer arithmetic
+    const partsPerMillion = BigInt(Math.round(split.share * 1000000));
+    return { payTo: split.payTo, amount: (total * partsPerMillion) / 1000000n };
+  });
+
+  const allocated = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+  if (allocated > total) {
+    throw new Error('x402 payment splits exceed the payment amount');
+  }
+
+  return [{ payTo, amount: total - allocated }, ...legs]
+    .filter((leg) => leg.amount > 0n)
+    .map((leg) => ({ payTo: leg.payTo, amount: leg.amount.toString() }));
+}
+
+/**
+ * Add a split plan to payment requirements as extra.splits
+ */
+export function splitPaymentRequirements(
+  paymentRequirements: PaymentRequirementsV2,
+  splits: PaymentSplit[]
+): PaymentRequirementsV2 {
+  return {
+    ...paymentRequirements,
+    extra: {
+      ...paymentRequirements.extra,
+      splits: computePaymentSplits(BigInt(paymentRequirements.amount), paymentRequirements.payTo, splits),
+    },
+  };
+}
+
+/**
+ * Read the split plan from payment requirements, or null for a single-recipient payment
+ */
+export function getPaymentSplits(paymentRequirements: PaymentRequirementsV2): PaymentSplitV2[] | null {
+  const splits = paymentRequirements.extra?.splits;
+
+  if (
+    !Array.isArray(splits) ||
+    splits.length === 0 ||
+    !splits.every((split) => typeof split?.payTo === 'string' && typeof split?.amount === 'string')
+  ) {
+    return null;
+  }
+
+  return splits as PaymentSplitV2[];
+}
+
+/**
+ * Check that a split plan pays out exactly the payment amount, in positive atomic amounts
+ * A plan that doesn't add up would let a server collect more than the amount a client agreed to
+ */
+export function isSplitPlanBalanced(paymentRequirements: PaymentRequirementsV2, splits: PaymentSplitV2[]): boolean {
+  if (!/^\d+$/.test(paymentRequirements.amount) || !splits.every((split) => /^\d+$/.test(split.amount))) {
+    return false;
+  }
+
+  const total = splits.reduce((sum, split) => sum + BigInt(split.amount), 0n);
+  return total === BigInt(paymentRequirements.amount) && splits.every((split) => BigInt(split.amount) > 0n);
+}
+
+/**
+ * The single-recipient requirements for one leg of a split payment
+ */
+export function toSplitRequirements(
+  paymentRequirements: PaymentRequirementsV2,
+  split: PaymentSplitV2
+): PaymentRequirementsV2 {
+  const extra = { ...paymentRequirements.extra };
+  delete extra.splits;
+
+  return { ...paymentRequirements, payTo: split.payTo, amount: split.amount, extra };
+}
+
+/**
+ * The single-recipient payment payload for one leg of a split payment
+ */
+export function toSplitPayment(
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  leg: PaymentSplitLegV2
+): PaymentPayloadV2 {
+  return {
+    ...paymentPayload,
+    accepted: toSplitRequirements(paymentRequirements, leg),
+    payload: { transaction: leg.transaction },
+  };
+}
+
+/**
+ * Validate every leg of a split payment without contacting the chain
+ * Legs must follow extra.splits in order, each a valid transfer of exactly its amount,
+ * from one payer with consecutive nonces; the first leg must be the payload's transaction
+ */
+export function validateSplitPayments(
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  options: PaymentValidationOptions = {}
+): VerifyResponseV2 {
+  const declared = getPaymentSplits(paymentRequirements);
+  if (!declared || !isSplitPlanBalanced(paymentRequirements, declared)) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS };
+  }
+
+  const legs = paymentPayload.payload?.splits;
+  if (
+    !Array.isArray(legs) ||
+    legs.length !== declared.length ||
+    legs.some((leg, i) => leg?.payTo !== declared[i].payTo || leg?.amount !== declared[i].amount)
+  ) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  if (legs[0].transaction !== paymentPayload.payload.transaction) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  let payer: string | undefined;
+  let firstNonce: bigint | undefined;
+
+  for (const [i, leg] of legs.entries()) {
+    const result = validatePaymentPayload(
+      toSplitPayment(paymentPayload, paymentRequirements, leg),
+      toSplitRequirements(paymentRequirements, leg),
+      options
+    );
+    if (!result.isValid) {
+      return result;
+    }
+
+    const decoded = decodePaymentTransaction(leg.transaction);
+    const nonce = decoded.transaction.auth.spendingCondition.nonce;
+    firstNonce = firstNonce ?? nonce;
+
+    if (
+      decoded.amount !== BigInt(leg.amount) ||
+      (payer !== undefined && decoded.payer !== payer) ||
+      nonce !== firstNonce + BigInt(i)
+    ) {
+      return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD, payer: decoded.payer };
+    }
+
+    payer = decoded.payer;
+  }
+
+  return { isValid: true, payer };
+}
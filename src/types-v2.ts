@@ -65,18 +65,53 @@ export interface PaymentRequiredV2 {
   error?: string;
   /** Information about the protected resource */
   resource: ResourceInfo;
-  /** Array of acceptable payment methods */
+  /** Array of acceptable payment methods (a decoded 402 may also list options for other chains) */
   accepts: PaymentRequirementsV2[];
   /** Protocol extensions data */
   extensions?: Record<string, unknown>;
 }
 
+// ===== Split Payments =====
+
+/**
+ * One recipient's share of a split payment, as listed in the requirements' extra.splits
+ */
+export interface PaymentSplitV2 {
+  /** Recipient address */
+  payTo: string;
+  /** Amount for this recipient in atomic units */
+  amount: string;
+}
+
+/**
+ * One leg of a split payment and its transaction
+ * (signed transaction hex in payment payloads, transaction ID in settlement responses)
+ */
+export interface PaymentSplitLegV2 extends PaymentSplitV2 {
+  /** Signed transaction hex or transaction ID */
+  transaction: string;
+}
+
 // ===== Payment Payload V2 =====
 
 /**
  * Stacks-specific payment payload (transaction data)
  */
 export interface StacksPayloadV2 {
+  /** Signed transaction hex (for the "upto" scheme, the transfer of the maximum amount) */
+  transaction: string;
+  /** "upto" scheme only: the payment signed at each step amount, all with the same nonce */
+  authorizations?: StacksUptoAuthorizationV2[];
+  /** Split payments only: one signed transfer per leg of extra.splits, in order with consecutive nonces */
+  splits?: PaymentSplitLegV2[];
+}
+
+/**
+ * One step of an "upto" payment: a signed transfer of a specific amount
+ */
+export interface StacksUptoAuthorizationV2 {
+  /** Amount transferred in atomic units */
+  amount: string;
   /** Signed transaction hex */
   transaction: string;
 }
@@ -127,6 +162,10 @@ export interface SettlementResponseV2 {
   transaction: string;
   /** Network identifier in CAIP-2 format */
   network: NetworkV2;
+  /** Amount charged in atomic units (set for "upto" payments, which may settle less than the maximum) */
+  amount?: string;
+  /** Settled legs of a split payment (transaction is each leg's transaction ID) */
+  splits?: PaymentSplitLegV2[];
 }
 
 // ===== Facilitator API Types =====
@@ -223,6 +262,9 @@ export const X402_ERROR_CODES = {
   TRANSACTION_PENDING: 'transaction_pending',
   TRANSACTION_FAILED: 'transaction_failed',
   BROADCAST_FAILED: 'broadcast_failed',
+  MISSING_POST_CONDITIONS: 'missing_post_conditions',
+  QUOTE_EXPIRED: 'quote_expired',
+  PARTIAL_SETTLEMENT: 'partial_settlement',
 } as const;
 
 export type X402ErrorCode = typeof X402_ERROR_CODES[keyof typeof X402_ERROR_CODES];
@@ -3,6 +3,8 @@
  */
 
 import { StacksNetwork } from '@stacks/network';
+import type { StacksTransaction as StacksTransactionInstance } from '@stacks/transactions';
+import type { PaymentReplayStore } from './replay-store';
 
 /**
  * Network type for Stacks blockchain
@@ -22,6 +24,8 @@ export interface TokenContract {
   address: string;
   /** Contract name */
   name: string;
+  /** Fungible token name defined by the contract, used for post-conditions (required except for the built-in sBTC and USDCx contracts) */
+  assetName?: string;
 }
 
 /**
@@ -71,8 +75,11 @@ export interface PaymentDetails {
   /** Amount (microSTX for STX, sats for sBTC) */
   amount: bigint;
 
-  /** Sender's private key (hex string) */
-  senderKey: string;
+  /**
+   * Sender's private key (hex string)
+   * @deprecated Ignored by X402PaymentClient, which signs with its configured signer
+   */
+  senderKey?: string;
 
   /** Network to use */
   network: NetworkType | StacksNetwork;
@@ -213,6 +220,12 @@ export interface X402MiddlewareConfig {
 
   /** Token contract info (required for sBTC) */
   tokenContract?: TokenContract;
+
+  /** Store of already-used payment transactions (default: shared in-memory LRU, false to disable) */
+  replayStore?: PaymentReplayStore | false;
+
+  /** How long used transactions are remembered in milliseconds (default: 24 hours) */
+  replayRetentionMs?: number;
 }
 
 /**
@@ -250,8 +263,11 @@ export interface X402ClientConfig {
   /** Network to use */
   network: NetworkType;
 
-  /** Private key for signing transactions */
-  privateKey: string;
+  /** Private key for signing transactions (required unless signer is provided) */
+  privateKey?: string;
+
+  /** Custom signer used instead of privateKey; its network and address must match network */
+  signer?: StacksSigner;
 
   /** Facilitator API URL for payment verification (optional) */
   facilitatorUrl?: string;
@@ -432,6 +448,24 @@ export interface SignedPaymentResult {
   error?: string;
 }
 
+/**
+ * Signer for Stacks payment transactions
+ * Implement this to sign with an HSM/KMS, a remote signing daemon or a wallet bridge
+ */
+export interface StacksSigner {
+  /** Stacks address of the signer */
+  address: string;
+
+  /** Public key (hex string) used to build unsigned transactions */
+  publicKey: string;
+
+  /** Network type */
+  network: NetworkType;
+
+  /** Sign the origin of an unsigned transaction and return the signed transaction */
+  signTransaction(transaction: StacksTransactionInstance): Promise<StacksTransactionInstance>;
+}
+
 /**
  * Stacks account for signing transactions (similar to viem's account pattern)
  */
@@ -0,0 +1,174 @@
+/**
+ * x402-stacks - "upto" Payment Scheme
+ * Metered payments: the client authorizes up to a maximum and only the consumed amount is settled
+ *
+ * A Stacks transfer is signed for a fixed amount, so the client signs the payment once per step of
+ * an evenly spaced ladder up to the maximum, every step with the same nonce. Only one of them can
+ * ever be mined; the server settles the smallest step covering the reported usage.
+ */
+
+import {
+  PaymentPayloadV2,
+  PaymentRequirementsV2,
+  StacksUptoAuthorizationV2,
+  VerifyResponseV2,
+  X402_ERROR_CODES,
+} from './types-v2';
+import { decodePaymentTransaction, validatePaymentPayload, PaymentValidationOptions } from './validator';
+
+/** Scheme identifier for metered payments */
+export const UPTO_SCHEME = 'upto';
+
+/** Number of ladder steps when the requirements don't set extra.steps */
+export const DEFAULT_UPTO_STEPS = 10;
+
+/** Upper bound on extra.steps, to keep the number of client signatures reasonable */
+const MAX_UPTO_STEPS = 100;
+
+/**
+ * Usage reported by a handler, in atomic units of the payment asset
+ */
+export type PaymentUsage = string | number | bigint;
+
+/**
+ * Get the ladder of step amounts for "upto" requirements, ascending and ending at the maximum
+ * @throws Error if the maximum amount is not a positive integer
+ */
+export function getUptoAmounts(paymentRequirements: PaymentRequirementsV2): string[] {
+  const maximum = BigInt(paymentRequirements.amount);
+  if (maximum <= 0n) {
+    throw new Error('"upto" payments require a positive maximum amount');
+  }
+
+  const requested = Number(paymentRequirements.extra?.steps);
+  const steps = Number.isInteger(requested) && requested > 0
+    ? Math.min(requested, MAX_UPTO_STEPS)
+    : DEFAULT_UPTO_STEPS;
+
+  // Round each step up; tiny maximums collapse duplicate steps
+  const amounts = new Set<string>();
+  for (let step = 1; step <= steps; step++) {
+    amounts.add(((maximum * BigInt(step) + BigInt(steps) - 1n) / BigInt(steps)).toString());
+  }
+
+  return [...amounts];
+}
+
+/**
+ * The "exact" requirements for settling one step of an "upto" payment
+ */
+export function toExactRequirements(paymentRequirements: PaymentRequirementsV2, amount: string): PaymentRequirementsV2 {
+  return { ...paymentRequirements, scheme: 'exact', amount };
+}
+
+/**
+ * The "exact" payment payload for one step of an "upto" payment
+ */
+export function toExactPayment(
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  authorization: StacksUptoAuthorizationV2
+): PaymentPayloadV2 {
+  return {
+    ...paymentPayload,
+    accepted: toExactRequirements(paymentRequirements, authorization.amount),
+    payload: { transaction: authorization.transaction },
+  };
+}
+
+/**
+ * Validate the signed ladder of an "upto" payment without contacting the chain
+ * Every step must be a valid payment of exactly its amount, from one payer with one nonce,
+ * and the top step must be the payload's transaction
+ */
+export function validateUptoAuthorizations(
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  options: PaymentValidationOptions = {}
+): VerifyResponseV2 {
+  const authorizations = paymentPayload.payload?.authorizations;
+
+  let amounts: string[];
+  try {
+    amounts = getUptoAmounts(paymentRequirements);
+  } catch {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS };
+  }
+
+  if (
+    !Array.isArray(authorizations) ||
+    authorizations.length !== amounts.length ||
+    authorizations.some((authorization, i) => authorization?.amount !== amounts[i])
+  ) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  if (authorizations[authorizations.length - 1].transaction !== paymentPayload.payload.transaction) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  let payer: string | undefined;
+  let nonce: bigint | undefined;
+
+  for (const authorization of authorizations) {
+    const result = validatePaymentPayload(
+      toExactPayment(paymentPayload, paymentRequirements, authorization),
+      toExactRequirements(paymentRequirements, authorization.amount),
+      options
+    );
+    if (!result.isValid) {
+      return result;
+    }
+
+    const decoded = decodePaymentTransaction(authorization.transaction);
+    const stepNonce = decoded.transaction.auth.spendingCondition.nonce;
+
+    // Steps must be mutually exclusive: same payer, same nonce, exact amount
+    if (
+      decoded.amount !== BigInt(authorization.amount) ||
+      (payer !== undefined && decoded.payer !== payer) ||
+      (nonce !== undefined && stepNonce !== nonce)
+    ) {
+      return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD, payer: decoded.payer };
+    }
+
+    payer = decoded.payer;
+    nonce = stepNonce;
+  }
+
+  return { isValid: true, payer };
+}
+
+/**
+ * Convert reported usage to atomic units (fractional numbers round up)
+ */
+export function toUsageAmount(usage: PaymentUsage): bigint {
+  return typeof usage === 'number' ? BigInt(Math.ceil(usage)) : BigInt(usage);
+}
+
+/**
+ * Add to a running usage total, for handlers that report usage incrementally
+ */
+export function addUsage(total: PaymentUsage | undefined, amount: PaymentUsage): bigint {
+  return (total === undefined ? 0n : toUsageAmount(total)) + toUsageAmount(amount);
+}
+
+/**
+ * Pick the step to settle for the reported usage: the smallest one covering it
+ * Usage above the maximum is capped at the maximum; no usage means nothing to settle (null)
+ */
+export function selectUptoAuthorization(
+  authorizations: StacksUptoAuthorizationV2[],
+  usage: PaymentUsage
+): StacksUptoAuthorizationV2 | null {
+  const consumed = toUsageAmount(usage);
+
+  if (consumed <= 0n || authorizations.length === 0) {
+    return null;
+  }
+
+  return (
+    authorizations.find((authorization) => BigInt(authorization.amount) >= consumed) ||
+    authorizations[authorizations.length - 1]
+  );
+}
@@ -434,41 +434,46 @@ export function assetToV2(tokenType: TokenType, tokenContract?: TokenContract):
  * Returns the token type and optionally the contract info
  */
 export function assetFromV2(asset: string): { tokenType: TokenType; tokenContract?: TokenContract } {
+  // Token symbols are matched in any case ("sBTC" as well as "SBTC")
+  const symbol = asset.toUpperCase();
+
   // Check for native STX
-  if (asset === 'STX') {
+  if (symbol === 'STX') {
     return { tokenType: 'STX' };
   }
 
   // Check for known token symbols
-  if (asset === 'SBTC') {
+  if (symbol === 'SBTC') {
     return { tokenType: 'sBTC' };
   }
-  if (asset === 'USDCX') {
+  if (symbol === 'USDCX') {
     return { tokenType: 'USDCx' };
   }
 
-  // Check if it's a contract identifier (address.name)
+  // Check if it's a contract identifier (address.name, optionally address.name::asset-name)
   if (asset.includes('.')) {
-    const [address, name] = asset.split('.');
+    const [contractId, assetName] = asset.split('::');
+    const [address, name] = contractId.split('.');
+    const tokenContract: TokenContract = assetName ? { address, name, assetName } : { address, name };
 
     // Try to identify known tokens by contract name
     if (name.toLowerCase().includes('sbtc') || name.toLowerCase() === 'sbtc-token') {
       return {
         tokenType: 'sBTC',
-        tokenContract: { address, name },
+        tokenContract,
       };
     }
     if (name.toLowerCase().includes('usdc') || name.toLowerCase() === 'usdcx') {
       return {
         tokenType: 'USDCx',
-        tokenContract: { address, name },
+        tokenContract,
       };
     }
 
     // Unknown SIP-010 token, default to STX behavior but include contract
     return {
       tokenType: 'STX', // Fallback
-      tokenContract: { address, name },
+      tokenContract,
     };
   }
 
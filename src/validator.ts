@@ -0,0 +1,262 @@
+/**
+ * x402-stacks - Payment Transaction Validator
+ * Decodes signed Stacks transactions and validates them against x402 v2 payment requirements
+ */
+
+import {
+  deserializeTransaction,
+  StacksTransaction,
+  PayloadType,
+  ClarityType,
+  ClarityValue,
+  addressToString,
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  principalToString,
+} from '@stacks/transactions';
+import {
+  NetworkV2,
+  PaymentPayloadV2,
+  PaymentRequirementsV2,
+  VerifyResponseV2,
+  X402_ERROR_CODES,
+} from './types-v2';
+import {
+  networkFromCAIP2,
+  assetFromV2,
+  getDefaultSBTCContract,
+  getDefaultUSDCxContract,
+} from './utils';
+import { hasPaymentPostConditions } from './post-conditions';
+
+/**
+ * Payment details extracted from a signed Stacks transaction
+ */
+export interface DecodedPaymentTransaction {
+  /** Transaction ID (hex, without 0x prefix) */
+  txId: string;
+  /** Network the transaction was signed for, in CAIP-2 format */
+  network: NetworkV2;
+  /** Address of the transaction origin (the payer) */
+  payer: string;
+  /** Recipient of the transfer */
+  recipient: string;
+  /** Amount transferred in atomic units */
+  amount: bigint;
+  /** Asset identifier ("STX" or SIP-010 contract identifier) */
+  asset: string;
+  /** Sender argument of a SIP-010 transfer (undefined for STX transfers) */
+  sender?: string;
+  /** Memo attached to the transfer, if any */
+  memo?: string;
+  /** The deserialized transaction */
+  transaction: StacksTransaction;
+}
+
+/**
+ * Options for validating a payment payload
+ */
+export interface PaymentValidationOptions {
+  /**
+   * Reject transactions that are not in Deny mode with an exact post-condition
+   * on the payer for the payment amount (default: false)
+   */
+  requirePostConditions?: boolean;
+}
+
+/**
+ * Strip an optional 0x prefix from a hex string
+ */
+function normalizeHex(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+/**
+ * Resolve the contract identifier for a V2 asset on the given network
+ * Returns "STX" for native transfers
+ */
+export function resolveAssetIdentifier(asset: string, network: NetworkV2): string {
+  const { tokenType, tokenContract } = assetFromV2(asset);
+
+  if (tokenContract) {
+    return `${tokenContract.address}.${tokenContract.name}`;
+  }
+
+  const v1Network = networkFromCAIP2(network);
+
+  if (tokenType === 'sBTC') {
+    const contract = getDefaultSBTCContract(v1Network);
+    return `${contract.address}.${contract.name}`;
+  }
+
+  if (tokenType === 'USDCx') {
+    const contract = getDefaultUSDCxContract(v1Network);
+    return `${contract.address}.${contract.name}`;
+  }
+
+  return 'STX';
+}
+
+/**
+ * Convert a principal Clarity value to its string form
+ */
+function principalArgToString(value: ClarityValue | undefined): string | undefined {
+  if (
+    value &&
+    (value.type === ClarityType.PrincipalStandard || value.type === ClarityType.PrincipalContract)
+  ) {
+    return principalToString(value);
+  }
+  return undefined;
+}
+
+/**
+ * Decode a signed transaction hex into the payment it represents
+ * @throws Error if the transaction cannot be deserialized or is not a payment
+ */
+export function decodePaymentTransaction(transactionHex: string): DecodedPaymentTransaction {
+  const transaction = deserializeTransaction(normalizeHex(transactionHex));
+  const network = `stacks:${transaction.chainId}` as NetworkV2;
+
+  const condition = transaction.auth.spendingCondition;
+  const payer = addressToString(
+    addressFromVersionHash(
+      addressHashModeToVersion(condition.hashMode, transaction.version),
+      condition.signer
+    )
+  );
+
+  const payload = transaction.payload;
+
+  if (payload.payloadType === PayloadType.TokenTransfer) {
+    return {
+      txId: transaction.txid(),
+      network,
+      payer,
+      recipient: principalToString(payload.recipient),
+      amount: payload.amount,
+      asset: 'STX',
+      memo: payload.memo.content.replace(/\0+$/, '') || undefined,
+      transaction,
+    };
+  }
+
+  if (payload.payloadType === PayloadType.ContractCall) {
+    if (payload.functionName.content !== 'transfer') {
+      throw new Error(`Unsupported contract function: ${payload.functionName.content}`);
+    }
+
+    // SIP-010 transfer signature: (amount uint) (sender principal) (recipient principal) (memo (optional (buff 34)))
+    const [amountArg, senderArg, recipientArg, memoArg] = payload.functionArgs;
+
+    if (!amountArg || amountArg.type !== ClarityType.UInt) {
+      throw new Error('Invalid SIP-010 transfer: amount must be a uint');
+    }
+
+    const sender = principalArgToString(senderArg);
+    const recipient = principalArgToString(recipientArg);
+
+    if (!sender || !recipient) {
+      throw new Error('Invalid SIP-010 transfer: sender and recipient must be principals');
+    }
+
+    let memo: string | undefined;
+    if (memoArg && memoArg.type === ClarityType.OptionalSome && memoArg.value.type === ClarityType.Buffer) {
+      memo = Buffer.from(memoArg.value.buffer).toString('utf-8');
+    }
+
+    return {
+      txId: transaction.txid(),
+      network,
+      payer,
+      recipient,
+      amount: BigInt(amountArg.value),
+      asset: `${addressToString(payload.contractAddress)}.${payload.contractName.content}`,
+      sender,
+      memo,
+      transaction,
+    };
+  }
+
+  throw new Error(`Unsupported transaction payload type: ${payload.payloadType}`);
+}
+
+/**
+ * Validate a payment payload against payment requirements without contacting the chain
+ * Checks scheme, network, recipient, amount, asset and the origin signature,
+ * plus payment post-conditions when options.requirePostConditions is set
+ */
+export function validatePaymentPayload(
+  paymentPayload: PaymentPayloadV2,
+  paymentRequirements: PaymentRequirementsV2,
+  options: PaymentValidationOptions = {}
+): VerifyResponseV2 {
+  if (paymentPayload.x402Version !== 2) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_X402_VERSION };
+  }
+
+  if (paymentRequirements.scheme !== 'exact') {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.UNSUPPORTED_SCHEME };
+  }
+
+  const transactionHex = paymentPayload.payload?.transaction;
+  if (typeof transactionHex !== 'string' || transactionHex.length === 0) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  let decoded: DecodedPaymentTransaction;
+  try {
+    decoded = decodePaymentTransaction(transactionHex);
+  } catch {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+  }
+
+  const payer = decoded.payer;
+
+  if (decoded.network !== paymentRequirements.network) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_NETWORK, payer };
+  }
+
+  // Verify the origin signature matches the spending condition
+  try {
+    decoded.transaction.verifyOrigin();
+  } catch {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD, payer };
+  }
+
+  let expectedAsset: string;
+  try {
+    expectedAsset = resolveAssetIdentifier(paymentRequirements.asset, paymentRequirements.network);
+  } catch {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_NETWORK, payer };
+  }
+
+  if (decoded.asset !== expectedAsset) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS, payer };
+  }
+
+  if (decoded.sender !== undefined && decoded.sender !== payer) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.SENDER_MISMATCH, payer };
+  }
+
+  if (decoded.recipient !== paymentRequirements.payTo) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.RECIPIENT_MISMATCH, payer };
+  }
+
+  let requiredAmount: bigint;
+  try {
+    requiredAmount = BigInt(paymentRequirements.amount);
+  } catch {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYMENT_REQUIREMENTS, payer };
+  }
+
+  if (decoded.amount < requiredAmount) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.AMOUNT_INSUFFICIENT, payer };
+  }
+
+  if (options.requirePostConditions && !hasPaymentPostConditions(decoded)) {
+    return { isValid: false, invalidReason: X402_ERROR_CODES.MISSING_POST_CONDITIONS, payer };
+  }
+
+  return { isValid: true, payer };
+}
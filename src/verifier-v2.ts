@@ -13,8 +13,40 @@ import {
   FacilitatorVerifyRequestV2,
   FacilitatorSettleRequestV2,
   SupportedResponse,
+  PaymentSplitLegV2,
   X402_ERROR_CODES,
 } from './types-v2';
+import { validatePaymentPayload, decodePaymentTransaction, DecodedPaymentTransaction } from './validator';
+import { hasPaymentPostConditions } from './post-conditions';
+import { getPaymentSplits, validateSplitPayments, toSplitPayment, toSplitRequirements } from './splits';
+import {
+  assertSchema,
+  validateVerifyResponseV2,
+  validateSettlementResponseV2,
+  validateSupportedResponse,
+} from './schema-v2';
+
+/**
+ * How the verifier checks payments before settlement
+ * - "remote": call the facilitator's /verify endpoint
+ * - "offline": deserialize and check the signed transaction locally
+ */
+export type VerifierMode = 'remote' | 'offline';
+
+/**
+ * Options for constructing a payment verifier
+ */
+export interface VerifierOptions {
+  /** Verification mode (default: "remote") */
+  mode?: VerifierMode;
+
+  /**
+   * Reject payments whose transaction lacks Deny-mode post-conditions pinning
+   * the payer to the exact amount (default: false)
+   * Checked locally in both modes, before the facilitator is contacted
+   */
+  requirePostConditions?: boolean;
+}
 
 /**
  * Options for verifying a payment
@@ -38,10 +70,14 @@ export interface SettleOptions {
  */
 export class X402PaymentVerifier {
   private facilitatorUrl: string;
+  private mode: VerifierMode;
+  private requirePostConditions: boolean;
   private httpClient: AxiosInstance;
 
-  constructor(facilitatorUrl: string = 'http://localhost:8085') {
+  constructor(facilitatorUrl: string = 'http://localhost:8085', options: VerifierOptions = {}) {
     this.facilitatorUrl = facilitatorUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.mode = options.mode || 'remote';
+    this.requirePostConditions = options.requirePostConditions ?? false;
 
     this.httpClient = axios.create({
       timeout: 30000, // V2 may need longer timeout for settlement
@@ -54,11 +90,28 @@ export class X402PaymentVerifier {
   /**
    * Verify a payment using the V2 facilitator API
    * This verifies the signed transaction without broadcasting it
+   * In offline mode the transaction is checked locally without a facilitator round-trip
+   * Split payments (extra.splits) have every leg verified
    */
   async verify(
     paymentPayload: PaymentPayloadV2,
     options: VerifyOptions
   ): Promise<VerifyResponseV2> {
+    if (getPaymentSplits(options.paymentRequirements)) {
+      return this.verifySplits(paymentPayload, options);
+    }
+
+    if (this.mode === 'offline') {
+      return this.verifyOffline(paymentPayload, options);
+    }
+
+    if (this.requirePostConditions) {
+      const postConditionResult = this.checkPostConditions(paymentPayload);
+      if (postConditionResult) {
+        return postConditionResult;
+      }
+    }
+
     try {
       const request: FacilitatorVerifyRequestV2 = {
         x402Version: 2,
@@ -71,7 +124,7 @@ export class X402PaymentVerifier {
         request
       );
 
-      return response.data;
+      return assertSchema<VerifyResponseV2>(response.data, validateVerifyResponseV2);
     } catch (error: unknown) {
       // Handle API errors
       if (axios.isAxiosError(error) && error.response?.data) {
@@ -90,14 +143,166 @@ export class X402PaymentVerifier {
     }
   }
 
+  /**
+   * Verify a payment locally by deserializing the signed transaction
+   * Checks recipient, amount, asset, network and signature validity
+   */
+  verifyOffline(
+    paymentPayload: PaymentPayloadV2,
+    options: VerifyOptions
+  ): VerifyResponseV2 {
+    try {
+      return validatePaymentPayload(paymentPayload, options.paymentRequirements, {
+        requirePostConditions: this.requirePostConditions,
+      });
+    } catch {
+      return {
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.UNEXPECTED_VERIFY_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Verify every leg of a split payment
+   * Legs are checked locally against extra.splits, then (in remote mode) each with the facilitator
+   */
+  private async verifySplits(
+    paymentPayload: PaymentPayloadV2,
+    options: VerifyOptions
+  ): Promise<VerifyResponseV2> {
+    const local = this.validateSplits(paymentPayload, options.paymentRequirements);
+    if (!local.isValid || this.mode === 'offline') {
+      return local;
+    }
+
+    for (const leg of paymentPayload.payload.splits || []) {
+      const result = await this.verify(toSplitPayment(paymentPayload, options.paymentRequirements, leg), {
+        paymentRequirements: toSplitRequirements(options.paymentRequirements, leg),
+      });
+      if (!result.isValid) {
+        return result;
+      }
+    }
+
+    return local;
+  }
+
+  /**
+   * Validate a split payment's legs locally, treating unexpected errors as invalid
+   */
+  private validateSplits(
+    paymentPayload: PaymentPayloadV2,
+    paymentRequirements: PaymentRequirementsV2
+  ): VerifyResponseV2 {
+    try {
+      return validateSplitPayments(paymentPayload, paymentRequirements, {
+        requirePostConditions: this.requirePostConditions,
+      });
+    } catch {
+      return {
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.UNEXPECTED_VERIFY_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Settle a split payment: every leg is checked, then all legs are sent to the facilitator at once
+   * so they are broadcast together and confirmed concurrently (their consecutive nonces order them on chain)
+   * Legs are separate transactions, so if one fails the others may still settle: that is reported as
+   * partial_settlement, with splits listing the legs that were paid
+   */
+  private async settleSplits(
+    paymentPayload: PaymentPayloadV2,
+    options: SettleOptions
+  ): Promise<SettlementResponseV2> {
+    const { paymentRequirements } = options;
+    const check = this.validateSplits(paymentPayload, paymentRequirements);
+
+    if (!check.isValid) {
+      return {
+        success: false,
+        errorReason: check.invalidReason || X402_ERROR_CODES.INVALID_PAYLOAD,
+        payer: check.payer,
+        transaction: '',
+        network: paymentRequirements.network,
+      };
+    }
+
+    const legs = paymentPayload.payload.splits || [];
+    const results = await Promise.all(
+      legs.map((leg) =>
+        this.settle(toSplitPayment(paymentPayload, paymentRequirements, leg), {
+          paymentRequirements: toSplitRequirements(paymentRequirements, leg),
+        })
+      )
+    );
+
+    const settled: PaymentSplitLegV2[] = legs
+      .map((leg, i) => ({ payTo: leg.payTo, amount: leg.amount, transaction: results[i].transaction }))
+      .filter((_, i) => results[i].success);
+
+    const failed = results.find((result) => !result.success);
+    if (failed && settled.length > 0) {
+      return {
+        success: false,
+        errorReason: X402_ERROR_CODES.PARTIAL_SETTLEMENT,
+        payer: failed.payer || check.payer,
+        transaction: settled[0].transaction,
+        network: paymentRequirements.network,
+        splits: settled,
+      };
+    }
+    if (failed) {
+      return { ...failed, payer: failed.payer || check.payer, splits: settled };
+    }
+
+    return {
+      success: true,
+      payer: check.payer,
+      transaction: settled[0].transaction,
+      network: paymentRequirements.network,
+      splits: settled,
+    };
+  }
+
+  /**
+   * Check the payment transaction's post-conditions locally
+   * Returns a failed verify response, or null if the post-conditions are acceptable
+   */
+  private checkPostConditions(paymentPayload: PaymentPayloadV2): VerifyResponseV2 | null {
+    let decoded: DecodedPaymentTransaction;
+    try {
+      decoded = decodePaymentTransaction(paymentPayload.payload?.transaction || '');
+    } catch {
+      return { isValid: false, invalidReason: X402_ERROR_CODES.INVALID_PAYLOAD };
+    }
+
+    if (!hasPaymentPostConditions(decoded)) {
+      return {
+        isValid: false,
+        invalidReason: X402_ERROR_CODES.MISSING_POST_CONDITIONS,
+        payer: decoded.payer,
+      };
+    }
+
+    return null;
+  }
+
   /**
    * Settle a payment using the V2 facilitator API
    * This broadcasts the transaction and waits for confirmation
+   * Split payments (extra.splits) are checked in full, then all legs are settled together
    */
   async settle(
     paymentPayload: PaymentPayloadV2,
     options: SettleOptions
   ): Promise<SettlementResponseV2> {
+    if (getPaymentSplits(options.paymentRequirements)) {
+      return this.settleSplits(paymentPayload, options);
+    }
+
     try {
       const request: FacilitatorSettleRequestV2 = {
         x402Version: 2,
@@ -110,7 +315,7 @@ export class X402PaymentVerifier {
         request
       );
 
-      return response.data;
+      return assertSchema<SettlementResponseV2>(response.data, validateSettlementResponseV2);
     } catch (error: unknown) {
       // Handle API errors
       if (axios.isAxiosError(error) && error.response?.data) {
@@ -142,7 +347,7 @@ export class X402PaymentVerifier {
         `${this.facilitatorUrl}/supported`
       );
 
-      return response.data;
+      return assertSchema<SupportedResponse>(response.data, validateSupportedResponse);
     } catch (error: unknown) {
       // Return empty supported response on error
       return {
@@ -228,8 +433,11 @@ export class X402PaymentVerifier {
 /**
  * Create a verifier instance
  */
-export function createVerifier(facilitatorUrl?: string): X402PaymentVerifier {
-  return new X402PaymentVerifier(facilitatorUrl);
+export function createVerifier(
+  facilitatorUrl?: string,
+  options?: VerifierOptions
+): X402PaymentVerifier {
+  return new X402PaymentVerifier(facilitatorUrl, options);
 }
 
 // ===== Backward Compatibility Aliases =====